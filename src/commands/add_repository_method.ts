@@ -0,0 +1,219 @@
+import { readFileSync } from 'fs';
+import { Uri, window } from 'vscode';
+import { snakeCase } from 'change-case';
+import * as utils from '../utils/tools';
+import { renderDartTemplate, TemplateContext } from '../utils/template_engine';
+import {
+  GeneratorManifest,
+  loadGenerator,
+  resolveGeneratorFiles,
+} from '../utils/template_manifest';
+import fs = require('fs');
+import path = require('path');
+import { planFeatureInjection } from '../utils/injection';
+import { askRepositoryMethod, buildRepositoryMethodsContext } from '../utils/repository_methods';
+import {
+  getDataStrategy,
+  getRepositoryMethodNames,
+  mergeMethod,
+  planBoundUsecase,
+} from '../utils/repository_files';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+import { getClickedFeature } from '../utils/feature_artifacts';
+
+/**
+ * 🎯 MAIN FUNCTION: Adds a method to an existing Repository and its layers
+ *
+ * Run on a repository, implementation or datasource file, or on a folder of
+ * the feature. The new method is asked like in "New Repository" and added to:
+ * 1. The interface in lib/src/{feature}/domain/repositories/
+ * 2. The implementation in lib/src/{feature}/data/repositories/
+ * 3. The remote datasource (contract and implementation) in lib/src/{feature}/data/datasources/
+ * 4. The repository and datasource tests, as a new `group`
+ *
+ * Optionally creates the use case that calls the new method, bound to the repository.
+ *
+ * The templates of the 'repository' generator are rendered with the new method only,
+ * then its members, imports and fake classes are inserted into the existing files.
+ * The rest of their content is kept as is.
+ *
+ * @param uri - URI of the file or folder where the command was executed
+ */
+export async function addRepositoryMethod(uri: Uri) {
+  // 📁 STEP 1: Get project information and context
+  const clickedFolder = utils.getClickedFolder(uri);
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  let packageName = await utils.getPackageName(uri);
+  packageName = packageName.replaceAll('\\', '/');
+  const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+
+  // 🧭 STEP 2: Load the 'repository' generator from the template manifest
+  let generator: GeneratorManifest;
+  try {
+    generator = loadGenerator(templateBaseFolder, 'repository');
+  } catch (error) {
+    console.error('Error loading template manifest:', error);
+    window.showErrorMessage(`❌ Error loading template manifest: ${error}`);
+    return;
+  }
+  const title = 'Add Repository Method';
+
+  // 🔍 STEP 3: Find the feature and the repository to extend
+  const featureName = getClickedFeature(rootFolder, uri);
+  if (!featureName) {
+    window.showErrorMessage(
+      'Could not determine feature name from the selected folder. Please select a folder within a feature.',
+    );
+    return;
+  }
+  const repositoryName = await pickRepositoryName(rootFolder, featureName, clickedFolder);
+  if (!repositoryName) {
+    return;
+  }
+  const interfacePath = `${rootFolder}/lib/src/${featureName}/domain/repositories/i_${repositoryName}_repository.dart`;
+  if (!fs.existsSync(interfacePath)) {
+    window.showErrorMessage(
+      `❌ Repository 'i_${repositoryName}_repository.dart' not found in feature '${featureName}'.`,
+    );
+    return;
+  }
+
+  // 🧙 STEP 4: Ask the new method, its name cannot be one of the existing methods
+  const existingMethods = getRepositoryMethodNames(readFileSync(interfacePath, 'utf8')).map(
+    (name) => ({ name }),
+  );
+  const method = await askRepositoryMethod(title, existingMethods, false);
+  if (!method) {
+    return;
+  }
+
+  // ❓ STEP 5: Ask whether the use case that calls the method is created too
+  const createUsecase = await window.showQuickPick(['Yes', 'No'], {
+    title,
+    placeHolder: `Create the use case '${snakeCase(method.name)}' that calls '${method.name}'?`,
+  });
+  if (!createUsecase) {
+    return;
+  }
+
+  try {
+    // 🔄 STEP 6: Render the repository templates with the new method only and merge them
+    const context: TemplateContext = {
+      feature_name: featureName,
+      package_name: packageName,
+      custom_folder: clickedFolder,
+      root_folder: rootFolder,
+      repository_name: repositoryName,
+      ...buildRepositoryMethodsContext(
+        [method],
+        getDataStrategy(rootFolder, featureName, repositoryName),
+      ),
+    };
+    const plannedFiles: PlannedFile[] = [];
+    for (const template of resolveGeneratorFiles(
+      generator,
+      templateBaseFolder,
+      rootFolder,
+      context,
+    )) {
+      if (!fs.existsSync(template.templatePath)) {
+        window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+      } else if (!fs.existsSync(template.destinationPath)) {
+        window.showWarningMessage(
+          `⚠️ ${path.basename(template.destinationPath)} not found, '${method.name}' was not added to it.`,
+        );
+      } else {
+        const rendered = renderDartTemplate(template.templatePath, context);
+        const existing = readFileSync(template.destinationPath, 'utf8');
+        plannedFiles.push({
+          path: template.destinationPath,
+          content: mergeMethod(existing, rendered, method),
+          type: template.type,
+          isEdit: true,
+        });
+      }
+    }
+    if (plannedFiles.length === 0) {
+      window.showErrorMessage('❌ No files were changed. Please check that the templates exist.');
+      return;
+    }
+
+    // 🧩 STEP 7: Render the use case that calls the method, with its injection
+    if (createUsecase === 'Yes') {
+      const usecase = planBoundUsecase(
+        templateBaseFolder,
+        rootFolder,
+        featureName,
+        repositoryName,
+        method,
+        { package_name: packageName, root_folder: rootFolder },
+      );
+      plannedFiles.push(
+        ...usecase.files,
+        ...planFeatureInjection(rootFolder, featureName, usecase.registrations),
+      );
+    }
+
+    // 👀 STEP 8: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles(title, plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
+
+    // 🎉 STEP 9: Show results
+    window.showInformationMessage(
+      `🎉 Method '${method.name}' added to '${repositoryName}' repository! ${describeWriteResult(result)}.`,
+    );
+  } catch (error) {
+    console.error('Error adding repository method:', error);
+    window.showErrorMessage(`❌ Error adding repository method: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * 🔍 FUNCTION: Name of the repository to extend
+ *
+ * Taken from the clicked file (i_{name}_repository.dart, {name}_repository_impl.dart,
+ * {name}_remote_data_source.dart or their tests), otherwise picked among the
+ * repositories of the feature.
+ *
+ * @returns The repository name in snake_case, or undefined when there is none or the user cancels
+ */
+async function pickRepositoryName(
+  rootFolder: string,
+  featureName: string,
+  clickedPath: string,
+): Promise<string | undefined> {
+  const fileMatch = path
+    .basename(clickedPath)
+    .match(
+      /^(?:i_(\w+)_repository|(\w+)_repository_impl|(\w+)_remote_data_source)(?:_test)?\.dart$/,
+    );
+  if (fileMatch) {
+    return fileMatch[1] ?? fileMatch[2] ?? fileMatch[3];
+  }
+
+  const repositoriesFolder = `${rootFolder}/lib/src/${featureName}/domain/repositories`;
+  const names = fs.existsSync(repositoriesFolder)
+    ? fs
+        .readdirSync(repositoriesFolder)
+        .map((file) => file.match(/^i_(\w+)_repository\.dart$/)?.[1])
+        .filter((name): name is string => !!name)
+    : [];
+  if (names.length === 0) {
+    window.showErrorMessage(
+      `❌ No repository found in feature '${featureName}'. Create one with 'New Repository' first.`,
+    );
+    return undefined;
+  }
+  if (names.length === 1) {
+    return names[0];
+  }
+
+  return window.showQuickPick(names, {
+    title: 'Add Repository Method',
+    placeHolder: 'Repository to add the method to',
+  });
+}
@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import { QuickPickItem, Range, Uri, window } from 'vscode';
+import * as utils from '../utils/tools';
+import fs = require('fs');
+import { findLayerViolations, getLayerRules, LayerViolation } from '../utils/layer_rules';
+import { setLayerDiagnostics } from '../utils/layer_diagnostics';
+import { getDartFiles } from '../utils/dart_source';
+
+/**
+ * 🎯 MAIN FUNCTION: Checks the layer rules of every Dart file of the app
+ *
+ * Scans lib/ of the Flutter app of the clicked folder and:
+ * 1. Shows the violations of each file in the Problems panel
+ * 2. Lists them all, picking one opens the import at fault
+ *
+ * The rules come from the `scaffolding.layers.rules` and
+ * `scaffolding.layers.featureBarrel` settings (see LayerRules).
+ *
+ * @param uri - URI of the folder where the command was executed
+ */
+export async function checkLayers(uri: Uri) {
+  // 📁 STEP 1: Get project information and context
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  const packageName = await utils.getPackageName(uri);
+  const libFolder = `${rootFolder}/lib`;
+  if (!fs.existsSync(libFolder)) {
+    window.showErrorMessage(`❌ No lib/ folder found in ${rootFolder}.`);
+    return;
+  }
+
+  try {
+    // 🔍 STEP 2: Check every Dart file and publish its diagnostics
+    const rules = getLayerRules();
+    const dartFiles = getDartFiles(libFolder);
+    const items: (QuickPickItem & { file: string; violation: LayerViolation })[] = [];
+    dartFiles.forEach((file) => {
+      const relativePath = file.slice(rootFolder.length + 1);
+      const violations = findLayerViolations(
+        relativePath,
+        readFileSync(file, 'utf8'),
+        packageName,
+        rules,
+      );
+      setLayerDiagnostics(Uri.file(file), violations);
+      violations.forEach((violation) =>
+        items.push({
+          label: `$(warning) ${relativePath.replace(/^lib\/src\//, '')}:${violation.line + 1}`,
+          description: violation.importUri,
+          detail: violation.message,
+          file,
+          violation,
+        }),
+      );
+    });
+
+    // 🎉 STEP 3: Show results
+    if (items.length === 0) {
+      window.showInformationMessage(
+        `✅ No layer violations found in ${dartFiles.length} Dart files.`,
+      );
+      return;
+    }
+    const picked = await window.showQuickPick(items, {
+      title: `Layer violations (${items.length})`,
+      placeHolder: 'Select a violation to open the import',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+    if (picked) {
+      const { line, start, end } = picked.violation;
+      await window.showTextDocument(Uri.file(picked.file), {
+        selection: new Range(line, start, line, end),
+      });
+    }
+  } catch (error) {
+    console.error('Error checking layers:', error);
+    window.showErrorMessage(`❌ Error checking layers: ${error}`);
+  }
+}
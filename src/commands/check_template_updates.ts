@@ -0,0 +1,252 @@
+import { commands, QuickPickItem, Uri, window } from 'vscode';
+import fs = require('fs');
+import path = require('path');
+import * as utils from '../utils/tools';
+import { getPreviewUri } from '../utils/file_preview';
+import { mergeThreeWay } from '../utils/three_way_merge';
+import {
+  describeTemplateSource,
+  getTemplateSource,
+  withStagedTemplates,
+} from '../utils/template_sources';
+import {
+  hashContent,
+  readBaseTemplate,
+  readTemplateFiles,
+  readTemplateLock,
+  TemplateLock,
+  writeTemplateLock,
+} from '../utils/template_lock';
+
+/**
+ * 📋 INTERFACE: A template changed upstream since the install
+ */
+interface TemplateChange {
+  /** Path relative to the templates folder */
+  relativePath: string;
+  status: ChangeStatus;
+  /** Content to write, undefined to delete the local file */
+  content?: string;
+  /** Versions given to the merge editor for a conflict */
+  base?: string;
+  local?: string;
+  upstream?: string;
+}
+
+type ChangeStatus =
+  'added' | 'updated' | 'merged' | 'conflict' | 'removed' | 'removedEdited' | 'restored';
+
+/** Icon, description and default choice of each status in the quick pick */
+const CHANGE_STATUSES: {
+  [status in ChangeStatus]: { icon: string; label: string; picked: boolean };
+} = {
+  added: { icon: '$(new-file)', label: 'new upstream', picked: true },
+  updated: { icon: '$(cloud-download)', label: 'updated upstream, no local edit', picked: true },
+  merged: { icon: '$(git-merge)', label: 'local edits merged with upstream', picked: true },
+  conflict: { icon: '$(warning)', label: 'conflict, resolved in the merge editor', picked: true },
+  removed: { icon: '$(trash)', label: 'removed upstream, no local edit', picked: true },
+  removedEdited: { icon: '$(trash)', label: 'removed upstream, deletes your edits', picked: false },
+  restored: { icon: '$(history)', label: 'updated upstream, deleted locally', picked: false },
+};
+
+/**
+ * 🎯 MAIN FUNCTION: Check for template updates
+ *
+ * The lockfile written at install tells the original of every template apart:
+ * 1. The templates of the configured source are fetched and validated
+ * 2. Every file changed upstream is compared with the original and the local
+ *    file: files without local edits are updated, edited files are merged
+ *    three-way (original, local edits, upstream)
+ * 3. The user unchecks the changes to skip, the others are written and the
+ *    conflicts open in the merge editor of VS Code
+ * 4. The lockfile records the new revision, skipped changes keep their original
+ *
+ * @param uri - URI of the clicked folder, to find the project
+ */
+export async function checkTemplateUpdates(uri: Uri) {
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+
+  try {
+    // 🔒 STEP 1: Lockfile of the installed templates
+    if (!fs.existsSync(templateBaseFolder)) {
+      window.showErrorMessage(
+        "❌ The '.my_templates/flutter_tdd_clean_templates' folder was not found! Run 'Create initial needs' to install the templates.",
+      );
+      return;
+    }
+    const lock = readTemplateLock(templateBaseFolder);
+    const source = getTemplateSource(rootFolder);
+    if (!lock) {
+      const REINSTALL = 'Reinstall';
+      const choice = await window.showWarningMessage(
+        'The templates were installed without a lockfile, local edits cannot be told apart from upstream changes.',
+        {
+          modal: true,
+          detail: `Reinstall them from ${describeTemplateSource(source)}? Local edits will be lost.`,
+        },
+        REINSTALL,
+      );
+      if (choice === REINSTALL) {
+        await utils.getTemplatesFile(uri);
+      }
+      return;
+    }
+
+    // 📥 STEP 2: Upstream templates, compared with the original and the local files
+    const targetdir = await utils.getRepoFolder();
+    await withStagedTemplates(templateBaseFolder, source, targetdir, async (staged) => {
+      const upstreamFiles = readTemplateFiles(staged.folder);
+      const changes = getTemplateChanges(templateBaseFolder, lock, upstreamFiles);
+      const revision = staged.revision ?? 'latest';
+      if (changes.length === 0) {
+        writeTemplateLock(templateBaseFolder, source, staged.revision, upstreamFiles);
+        window.showInformationMessage(
+          `✅ Templates are up to date with ${describeTemplateSource(source)}`,
+        );
+        return;
+      }
+
+      // ☑️ STEP 3: Let the user uncheck the changes to skip
+      const picked = await window.showQuickPick<QuickPickItem & { change: TemplateChange }>(
+        changes.map((change) => ({
+          label: `${CHANGE_STATUSES[change.status].icon} ${change.relativePath}`,
+          description: CHANGE_STATUSES[change.status].label,
+          picked: CHANGE_STATUSES[change.status].picked,
+          change,
+        })),
+        {
+          title: `Template updates: ${shortRevision(lock.revision)} → ${shortRevision(revision)}`,
+          placeHolder: `${changes.length} templates changed in ${describeTemplateSource(source)}, select the ones to update`,
+          canPickMany: true,
+          ignoreFocusOut: true,
+        },
+      );
+      if (!picked || picked.length === 0) {
+        return;
+      }
+
+      // 💾 STEP 4: Write the picked changes, skipped ones keep their original in the lock
+      const lockedFiles = { ...upstreamFiles };
+      changes.forEach((change) => {
+        const localPath = `${templateBaseFolder}/${change.relativePath}`;
+        if (picked.some((item) => item.change === change)) {
+          if (change.content === undefined) {
+            fs.rmSync(localPath, { force: true });
+          } else {
+            fs.mkdirSync(path.dirname(localPath), { recursive: true });
+            fs.writeFileSync(localPath, change.content);
+          }
+          return;
+        }
+        const base = readBaseTemplate(templateBaseFolder, lock, change.relativePath);
+        if (base === undefined) {
+          delete lockedFiles[change.relativePath];
+        } else {
+          lockedFiles[change.relativePath] = base;
+        }
+      });
+      writeTemplateLock(templateBaseFolder, source, staged.revision, lockedFiles);
+
+      // 🔀 STEP 5: Conflicts in the merge editor
+      const conflicts = picked
+        .map((item) => item.change)
+        .filter((change) => change.status === 'conflict');
+      for (const change of conflicts) {
+        await openMergeEditor(`${templateBaseFolder}/${change.relativePath}`, change, revision);
+      }
+
+      const message = `🎉 ${picked.length} templates updated from ${describeTemplateSource(source)}`;
+      if (conflicts.length > 0) {
+        window.showWarningMessage(
+          `${message}, ${conflicts.length} conflicts to resolve in the merge editor.`,
+        );
+      } else {
+        window.showInformationMessage(`${message}.`);
+      }
+    });
+  } catch (error: any) {
+    console.error('Error checking template updates:', error);
+    window.showErrorMessage(`❌ Template update failed: ${error.message ?? error}`);
+  }
+}
+
+/**
+ * 🔍 FUNCTION: Templates changed upstream since the install, with what to write
+ *
+ * Files that upstream did not change keep their local edits and are not listed.
+ */
+function getTemplateChanges(
+  templateBaseFolder: string,
+  lock: TemplateLock,
+  upstreamFiles: { [relativePath: string]: string },
+): TemplateChange[] {
+  const localFiles = readTemplateFiles(templateBaseFolder);
+  const relativePaths = new Set([
+    ...Object.keys(lock.files),
+    ...Object.keys(localFiles),
+    ...Object.keys(upstreamFiles),
+  ]);
+
+  return [...relativePaths].sort().flatMap((relativePath): TemplateChange[] => {
+    const local = localFiles[relativePath];
+    const upstream = upstreamFiles[relativePath];
+    const upstreamHash = upstream === undefined ? undefined : hashContent(upstream);
+    if (upstreamHash === lock.files[relativePath] || local === upstream) {
+      return [];
+    }
+
+    const base = readBaseTemplate(templateBaseFolder, lock, relativePath);
+    if (upstream === undefined) {
+      const status = base !== undefined && local === base ? 'removed' : 'removedEdited';
+      return [{ relativePath, status }];
+    }
+    if (local === undefined) {
+      const status = lock.files[relativePath] ? 'restored' : 'added';
+      return [{ relativePath, status, content: upstream }];
+    }
+    if (local === base) {
+      return [{ relativePath, status: 'updated', content: upstream }];
+    }
+
+    const merge = mergeThreeWay(base ?? '', local, upstream, {
+      local: 'Local',
+      base: 'Original',
+      upstream: 'Upstream',
+    });
+    const status = merge.conflicts > 0 ? 'conflict' : 'merged';
+    return [{ relativePath, status, content: merge.content, base, local, upstream }];
+  });
+}
+
+/**
+ * 🔀 FUNCTION: Open a conflict in the merge editor
+ *
+ * The local file already has the conflict markers, it is opened as is when
+ * the merge editor is not available.
+ */
+async function openMergeEditor(localPath: string, change: TemplateChange, revision: string) {
+  try {
+    await commands.executeCommand('_open.mergeEditor', {
+      base: getPreviewUri(localPath, 'original', change.base ?? ''),
+      input1: { uri: getPreviewUri(localPath, 'local', change.local!), title: 'Local' },
+      input2: {
+        uri: getPreviewUri(localPath, 'upstream', change.upstream!),
+        title: 'Upstream',
+        description: shortRevision(revision),
+      },
+      output: Uri.file(localPath),
+    });
+  } catch (error) {
+    console.log(`⚠️ Merge editor not available, opening ${localPath}:`, error);
+    await window.showTextDocument(Uri.file(localPath), { preview: false });
+  }
+}
+
+/**
+ * 📝 HELPER FUNCTION: Short form of a revision for the messages
+ */
+function shortRevision(revision: string): string {
+  return /^[0-9a-f]{40}$/.test(revision) ? revision.slice(0, 7) : revision;
+}
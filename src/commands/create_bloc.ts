@@ -0,0 +1,179 @@
+import { Uri, window } from 'vscode';
+import * as utils from '../utils/tools';
+import { renderDartTemplate, TemplateContext } from '../utils/template_engine';
+import fs = require('fs');
+import { getBlocName } from '../utils/tools';
+import { planFeatureInjection } from '../utils/injection';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+import {
+  buildUsecasesContext,
+  getBlocRegistration,
+  getBlocTemplates,
+  getFeatureUsecases,
+} from '../utils/bloc_files';
+import { getClickedFeature } from '../utils/feature_artifacts';
+
+/**
+ * 🎯 MAIN FUNCTION: Creates a new BLoC or Cubit with its bloc_test suite
+ *
+ * This function creates:
+ * 1. The Bloc (with its events and sealed states) or the Cubit (with its sealed states)
+ *    in lib/src/{feature}/presentation/blocs/
+ * 2. The corresponding bloc_test file in test/src/{feature}/presentation/blocs/
+ *
+ * The selected use cases of the feature are injected in the constructor
+ * and mocked in the generated test.
+ *
+ * @param uri - URI of the folder where the command was executed
+ */
+export async function createBloc(uri: Uri) {
+  // 📁 STEP 1: Get project information and context
+  const clickedFolder = utils.getClickedFolder(uri);
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  let packageName = await utils.getPackageName(uri);
+  packageName = packageName.replaceAll('\\', '/');
+
+  // 🔍 STEP 2: Extract feature name from the clicked folder path
+  const featureName = getClickedFeature(rootFolder, uri);
+  if (!featureName) {
+    window.showErrorMessage(
+      'Could not determine feature name from the selected folder. Please select a folder within a feature.',
+    );
+    return;
+  }
+
+  // 📝 STEP 3: Get the bloc name and kind from user input
+  const blocName = await getBlocName();
+  if (!blocName) {
+    return; // User cancelled or didn't enter a name
+  }
+
+  const kind = await window.showQuickPick(['Bloc', 'Cubit'], {
+    title: 'Create Bloc',
+    placeHolder: 'Generate a Bloc (events + states) or a Cubit (states only)?',
+  });
+  if (!kind) {
+    return;
+  }
+  const isCubit = kind === 'Cubit';
+
+  // 🧩 STEP 4: Pick the use cases of the feature to inject
+  const usecasesFolder = `${rootFolder}/lib/src/${featureName}/domain/usecases`;
+  const availableUsecases = getFeatureUsecases(usecasesFolder);
+  if (availableUsecases.length === 0) {
+    window.showErrorMessage(
+      `❌ No use cases found in 'lib/src/${featureName}/domain/usecases/'. Please create a use case first.`,
+    );
+    return;
+  }
+
+  const picked = await window.showQuickPick(
+    availableUsecases.map((usecase) => ({
+      label: usecase.className,
+      description: usecase.hasParams ? 'with params' : 'without params',
+      detail: `returns ${usecase.returnType}`,
+      usecase,
+    })),
+    {
+      title: 'Create Bloc',
+      placeHolder: 'Select the use cases to inject',
+      canPickMany: true,
+    },
+  );
+  if (!picked || picked.length === 0) {
+    return;
+  }
+  const usecases = picked.map((item) => item.usecase);
+
+  try {
+    // 📂 STEP 5: Resolve the templates of the bloc or the cubit from the manifest
+    const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+    const blocTemplates = getBlocTemplates(
+      templateBaseFolder,
+      rootFolder,
+      featureName,
+      blocName,
+      isCubit,
+    );
+
+    const usecasesContext = buildUsecasesContext(usecases);
+    // 🔄 STEP 6: Render each template
+    const plannedFiles: PlannedFile[] = [];
+    for (const template of blocTemplates) {
+      if (fs.existsSync(template.templatePath)) {
+        plannedFiles.push({
+          path: template.destinationPath,
+          content: processBlocTemplate(template.templatePath, {
+            featureName,
+            blocName,
+            packageName,
+            clickedFolder,
+            rootFolder,
+            usecasesContext,
+          }),
+          type: template.type,
+        });
+      } else {
+        window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+      }
+    }
+    if (plannedFiles.length === 0) {
+      window.showErrorMessage('❌ No files were created. Please check that the templates exist.');
+      return;
+    }
+
+    // 💉 STEP 7: Register the bloc as a factory in the feature injection file
+    plannedFiles.push(
+      ...planFeatureInjection(rootFolder, featureName, [
+        getBlocRegistration(blocName, isCubit, usecases),
+      ]),
+    );
+
+    // 👀 STEP 8: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles('Create Bloc', plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
+
+    // 🎉 STEP 9: Show results
+    window.showInformationMessage(
+      `🎉 ${kind} '${blocName}' created successfully! ${describeWriteResult(result)}.`,
+    );
+  } catch (error) {
+    console.error('Error creating bloc:', error);
+    window.showErrorMessage(`❌ Error creating bloc: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * 🔄 FUNCTION: Process an individual bloc template
+ *
+ * Renders the template with the shared template engine, the file is
+ * written after the preview.
+ *
+ * @param templatePath - Path to the template file
+ * @param placeholders - Object with all values to replace
+ * @returns Content of the final file
+ */
+function processBlocTemplate(
+  templatePath: string,
+  placeholders: {
+    featureName: string;
+    blocName: string;
+    packageName: string;
+    clickedFolder: string;
+    rootFolder: string;
+    usecasesContext: TemplateContext;
+  },
+): string {
+  return renderDartTemplate(templatePath, {
+    feature_name: placeholders.featureName,
+    bloc_name: placeholders.blocName,
+    package_name: placeholders.packageName,
+    custom_folder: placeholders.clickedFolder,
+    root_folder: placeholders.rootFolder,
+    ...placeholders.usecasesContext,
+  });
+}
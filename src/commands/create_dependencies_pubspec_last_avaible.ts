@@ -1,34 +1,91 @@
-import { readFileSync, writeFileSync } from 'fs';
-import { Uri, window } from 'vscode';
+import { QuickPickItem, Uri, window, workspace } from 'vscode';
 import * as utils from '../utils/tools';
 import * as yaml from 'js-yaml';
-import axios from 'axios';
+import {
+  DependencyProfile,
+  pickDependencyProfile,
+  ProfilePackage,
+} from '../utils/dependency_profiles';
+import { applyPubspecChanges, DependencySection, PubspecChange } from '../utils/pubspec_editor';
+import {
+  describeVersionOrigin,
+  describeVersionSources,
+  getLatestPackageVersions,
+  getPackageDependencies,
+  getPubHostedUrl,
+} from '../utils/pub_client';
+import {
+  findPackageHold,
+  findStaleLockEntries,
+  LockedPackage,
+  PackageHold,
+  readPubspecLock,
+} from '../utils/pubspec_lock';
+import { allowsVersion, parseConstraint, parseVersion } from '../utils/pub_semver';
+import { DependencyPlanItem, PlanAction, planDependency } from '../utils/dependency_plan';
+
+/**
+ * 📋 INTERFACE: Constraints to write for the packages of a profile
+ */
+interface ProfileVersions {
+  dependencies: { [name: string]: string | object };
+  devDependencies: { [name: string]: string | object };
+  /** Latest version of the fetched packages, when the repository knows it */
+  latest: Map<string, string>;
+  /** Where the latest versions come from (see describeVersionOrigin), undefined when none was fetched */
+  origin?: string;
+}
+
+/** Role of the packages of the built-in profile, shown in the preview */
+const PACKAGE_ROLES: { [name: string]: string } = {
+  flutter_bloc: 'State Management - BLoC Pattern',
+  bloc: 'State Management - Core BLoC',
+  get_it: 'Dependency Injection',
+  dio: 'HTTP Client',
+  shared_preferences: 'Local Key-Value Storage',
+  flutter_secure_storage: 'Secure Local Storage',
+  equatable: 'Value Equality',
+  mocktail: 'Mocking for Tests',
+  bloc_test: 'BLoC Testing Utilities',
+  flutter_test: 'Flutter Testing Framework',
+};
+
+/** Emoji of the report and icon of the quick pick of each planned action */
+const PLAN_ACTIONS: { [action in PlanAction]: { emoji: string; icon: string } } = {
+  keep: { emoji: '✅', icon: '$(check)' },
+  add: { emoji: '❌', icon: '$(add)' },
+  minor: { emoji: '🔄', icon: '$(arrow-up)' },
+  major: { emoji: '⚠️', icon: '$(warning)' },
+};
 
 /**
  * 🎯 MAIN FUNCTION: Add Clean Architecture dependencies to pubspec.yaml
  *
- * This function automatically adds all the dependencies used by the
- * Clean Architecture templates to the project's pubspec.yaml file.
- *
- * Dependencies added:
+ * This function automatically adds the packages of a dependency profile
+ * (see getDependencyProfiles) to the project's pubspec.yaml file. The
+ * built-in profile adds the dependencies used by the Clean Architecture templates:
  * - Production: get_it, flutter_bloc, bloc, flutter_secure_storage, shared_preferences, dio, equatable
  * - Development: mocktail, bloc_test, flutter_test
  *
  * @param uri - URI of the folder where the command was executed
+ * @param profile - Profile already chosen by the preview or the check, else the user chooses it
  */
-export async function addCleanArchDependencies(uri: Uri) {
+export async function addCleanArchDependencies(uri: Uri, profile?: DependencyProfile) {
   try {
-    // 📁 STEP 1: Get project root and pubspec.yaml path
+    // 📁 STEP 1: Get project root, pubspec.yaml path and the profile
     const rootFolder = utils.getRootFolder(uri);
     const pubspecPath = `${rootFolder}/pubspec.yaml`;
+    profile = profile ?? (await pickDependencyProfile(rootFolder, 'Add Dependencies'));
+    if (!profile) {
+      return;
+    }
 
-    // 📖 STEP 2: Read and parse existing pubspec.yaml
-    let pubspecContent: string;
+    // 📖 STEP 2: Read and parse existing pubspec.yaml (with its unsaved edits)
     let pubspecData: any;
 
     try {
-      pubspecContent = readFileSync(pubspecPath, 'utf8');
-      pubspecData = yaml.load(pubspecContent) as any;
+      const document = await workspace.openTextDocument(Uri.file(pubspecPath));
+      pubspecData = yaml.load(document.getText()) as any;
     } catch (error) {
       window.showErrorMessage(
         "❌ Could not read pubspec.yaml file. Make sure you're in a Flutter project.",
@@ -36,68 +93,44 @@ export async function addCleanArchDependencies(uri: Uri) {
       return;
     }
 
-    // 📦 STEP 3: Get latest versions and define dependencies to add
-    const productionDependencies: any = await getLatestVersions([
-      'flutter_bloc', // State Management
-      'bloc', // State Management - Core BLoC
-      'get_it', // Dependency Injection
-      'dio', // Network & HTTP
-      'shared_preferences', // Local Storage
-      'flutter_secure_storage', // Secure Local Storage
-      'equatable', // Utilities
-    ]);
-
-    const devDependencies: any = await getLatestVersions([
-      'mocktail', // Testing - Mocking
-      'bloc_test', // Testing - BLoC Testing Utilities
-    ]);
-
-    // Add flutter_test manually since it uses SDK
-    devDependencies['flutter_test'] = { sdk: 'flutter' };
-
-    // 🔄 STEP 4: Add dependencies to pubspec data
-    let addedDeps = 0;
-    let addedDevDeps = 0;
-
-    // Initialize dependencies sections if they don't exist
-    if (!pubspecData.dependencies) {
-      pubspecData.dependencies = {};
-    }
-    if (!pubspecData.dev_dependencies) {
-      pubspecData.dev_dependencies = {};
-    }
+    // 📦 STEP 3: Get latest versions of the packages without a pinned constraint
+    const { dependencies: productionDependencies, devDependencies } =
+      await getProfileVersions(profile);
+
+    // 🔄 STEP 4: Keep the packages missing from pubspec.yaml
+    const changes: PubspecChange[] = [];
 
     // Add production dependencies
     Object.keys(productionDependencies).forEach((dep) => {
-      if (!pubspecData.dependencies[dep]) {
-        pubspecData.dependencies[dep] = productionDependencies[dep];
-        addedDeps++;
+      const current = findDependency(pubspecData, dep);
+      if (!current) {
+        changes.push({
+          section: 'dependencies',
+          name: dep,
+          constraint: productionDependencies[dep],
+        });
         console.log(`✅ Added dependency: ${dep}`);
       } else {
-        console.log(`⚠️ Dependency already exists: ${dep}`);
+        console.log(`⚠️ Dependency already exists in ${current.section}: ${dep}`);
       }
     });
 
     // Add development dependencies
     Object.keys(devDependencies).forEach((dep) => {
-      if (!pubspecData.dev_dependencies[dep]) {
-        pubspecData.dev_dependencies[dep] = devDependencies[dep];
-        addedDevDeps++;
+      const current = findDependency(pubspecData, dep);
+      if (!current) {
+        changes.push({ section: 'dev_dependencies', name: dep, constraint: devDependencies[dep] });
         console.log(`✅ Added dev dependency: ${dep}`);
       } else {
-        console.log(`⚠️ Dev dependency already exists: ${dep}`);
+        console.log(`⚠️ Dev dependency already exists in ${current.section}: ${dep}`);
       }
     });
+    const addedDeps = changes.filter((change) => change.section === 'dependencies').length;
+    const addedDevDeps = changes.length - addedDeps;
 
-    // 💾 STEP 5: Write updated pubspec.yaml back to file
-    if (addedDeps > 0 || addedDevDeps > 0) {
-      const updatedPubspecContent = yaml.dump(pubspecData, {
-        lineWidth: -1,
-        noRefs: true,
-        sortKeys: false,
-      });
-
-      writeFileSync(pubspecPath, updatedPubspecContent, 'utf8');
+    // 💾 STEP 5: Add them in place, comments and formatting of pubspec.yaml are kept
+    if (changes.length > 0) {
+      await applyPubspecChanges(pubspecPath, changes);
 
       // 🎉 STEP 6: Show success message and run flutter pub get
       const totalAdded = addedDeps + addedDevDeps;
@@ -117,7 +150,7 @@ export async function addCleanArchDependencies(uri: Uri) {
       }
     } else {
       window.showInformationMessage(
-        'ℹ️ All Clean Architecture dependencies are already present in pubspec.yaml',
+        `ℹ️ All the '${profile.name}' dependencies are already present in pubspec.yaml`,
       );
     }
   } catch (error) {
@@ -128,91 +161,75 @@ export async function addCleanArchDependencies(uri: Uri) {
 }
 
 /**
- * 🌐 FUNCTION: Get latest versions from pub.dev API
+ * 📦 FUNCTION: Constraints of the packages of a profile
  *
- * Fetches the latest stable versions of Flutter/Dart packages from pub.dev API.
- * Uses the official pub.dev API to get real-time version information.
+ * Pinned constraints are kept as is, the other packages get the latest version from pub.dev.
  *
- * @param packageNames - Array of package names to get versions for
- * @returns Object with package names as keys and version strings as values
+ * @param withPinned - Also fetch the latest version of the pinned packages, ex: for the status report
  */
-async function getLatestVersions(packageNames: string[]): Promise<{ [key: string]: string }> {
-  const versions: { [key: string]: string } = {};
+async function getProfileVersions(
+  profile: DependencyProfile,
+  withPinned = false,
+): Promise<ProfileVersions> {
+  const packages = [...profile.dependencies, ...profile.devDependencies];
+  const { versions: latest, origin } = await getLatestVersions(
+    packages.filter((item) => withPinned || item.constraint === undefined).map((item) => item.name),
+  );
+  const toConstraints = (items: ProfilePackage[]) => {
+    const constraints: { [name: string]: string | object } = {};
+    items.forEach((item) => {
+      const version = latest.get(item.name);
+      constraints[item.name] = item.constraint ?? (version ? `^${version}` : 'any');
+    });
+    return constraints;
+  };
+  return {
+    dependencies: toConstraints(profile.dependencies),
+    devDependencies: toConstraints(profile.devDependencies),
+    latest,
+    origin,
+  };
+}
 
-  window.showInformationMessage('🔍 Fetching latest package versions from pub.dev...');
+/**
+ * 🌐 FUNCTION: Get latest versions from the package repository
+ *
+ * The versions come from the cached pub client (see getLatestPackageVersions),
+ * the user is warned about every version taken from an old cache or the
+ * fallback table. A package without any version is left out, the profile
+ * gives it the `any` constraint.
+ *
+ * @param packageNames - Packages to look for
+ * @returns The latest version of every package found, and where they come from
+ */
+async function getLatestVersions(
+  packageNames: string[],
+): Promise<{ versions: Map<string, string>; origin?: string }> {
+  const versions = new Map<string, string>();
+  if (packageNames.length === 0) {
+    return { versions };
+  }
 
-  try {
-    // Process packages in batches to avoid overwhelming the API
-    const batchSize = 3;
-    for (let i = 0; i < packageNames.length; i += batchSize) {
-      const batch = packageNames.slice(i, i + batchSize);
-
-      // Create promises for this batch
-      const promises = batch.map(async (packageName) => {
-        try {
-          const response = await axios.get(`https://pub.dev/api/packages/${packageName}`, {
-            timeout: 10000, // 10 second timeout
-          });
-
-          const latestVersion = response.data.latest.version;
-          versions[packageName] = `^${latestVersion}`;
-          console.log(`✅ ${packageName}: ^${latestVersion}`);
-        } catch (error) {
-          console.error(`❌ Failed to get version for ${packageName}:`, error);
-
-          // Fallback to known stable versions if API fails
-          const fallbackVersions: { [key: string]: string } = {
-            flutter_bloc: '^9.1.1',
-            bloc: '^9.0.0',
-            get_it: '^8.2.0',
-            dio: '^5.9.0',
-            shared_preferences: '^2.5.3',
-            flutter_secure_storage: '^9.2.4',
-            equatable: '^2.0.7',
-            mocktail: '^1.0.4',
-            bloc_test: '^10.0.0',
-          };
-
-          versions[packageName] = fallbackVersions[packageName] || '^1.0.0';
-          console.log(`⚠️ Using fallback version for ${packageName}: ${versions[packageName]}`);
-        }
-      });
-
-      // Wait for this batch to complete
-      await Promise.all(promises);
-
-      // Small delay between batches to be respectful to the API
-      if (i + batchSize < packageNames.length) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
-      }
+  window.showInformationMessage(
+    `🔍 Fetching latest package versions from ${getPubHostedUrl().replace(/^https?:\/\//, '')}...`,
+  );
+  const results = await getLatestPackageVersions(packageNames);
+  results.forEach((result) => {
+    if (result.version) {
+      versions.set(result.name, result.version);
     }
+  });
 
+  const offlineVersions = describeVersionSources(results);
+  if (offlineVersions) {
+    window.showWarningMessage(`⚠️ ${offlineVersions}`);
+  } else {
+    const cached = results.filter((result) => result.source === 'cache').length;
     window.showInformationMessage(
-      `✅ Retrieved versions for ${Object.keys(versions).length} packages`,
+      `✅ Retrieved versions for ${results.length} packages${cached > 0 ? ` (${cached} from the cache)` : ''}`,
     );
-  } catch (error) {
-    console.error('Error fetching package versions:', error);
-    window.showErrorMessage(`❌ Error fetching latest versions. Using fallback versions.`);
-
-    // Complete fallback if everything fails
-    const fallbackVersions: { [key: string]: string } = {
-      flutter_bloc: '^8.1.3',
-      bloc: '^8.1.2',
-      get_it: '^7.6.4',
-      dio: '^5.3.2',
-      shared_preferences: '^2.2.2',
-      flutter_secure_storage: '^9.0.0',
-      equatable: '^2.0.5',
-      mocktail: '^1.0.0',
-      bloc_test: '^9.1.5',
-    };
-
-    packageNames.forEach((pkg) => {
-      versions[pkg] = fallbackVersions[pkg] || '^1.0.0';
-    });
   }
-
-  return versions;
+  return { versions, origin: describeVersionOrigin(results) };
 }
 /*
  * Executes 'flutter pub get' in the project directory to install
@@ -250,48 +267,45 @@ async function runFlutterPubGet(rootFolder: string) {
  * 📋 FUNCTION: Show dependencies that will be added (with latest versions)
  *
  * Shows a preview of all dependencies that will be added with their
- * latest versions fetched from pub.dev before actually modifying
+ * latest versions (see getPubHostedUrl) before actually modifying
  * the pubspec.yaml file.
  *
  * @param uri - URI of the folder where the command was executed
  */
 export async function previewCleanArchDependencies(uri: Uri) {
-  window.showInformationMessage('🔍 Fetching latest versions for preview...');
-
   try {
+    const rootFolder = utils.getRootFolder(uri);
+    const profile = await pickDependencyProfile(rootFolder, 'Preview Dependencies');
+    if (!profile) {
+      return;
+    }
+
+    window.showInformationMessage('🔍 Fetching latest versions for preview...');
+
     // Get latest versions for preview
-    const prodDeps = await getLatestVersions([
-      'flutter_bloc',
-      'bloc',
-      'get_it',
-      'dio',
-      'shared_preferences',
-      'flutter_secure_storage',
-      'equatable',
-    ]);
-
-    const devDeps = await getLatestVersions(['mocktail', 'bloc_test']);
+    const versions = await getProfileVersions(profile);
+    const describePackages = (constraints: { [name: string]: string | object }) =>
+      Object.keys(constraints)
+        .map((name, index, names) => {
+          const branch = index === names.length - 1 ? '└─' : '├─';
+          const version = formatConstraint(constraints[name]);
+          const role = PACKAGE_ROLES[name] ? `   (${PACKAGE_ROLES[name]})` : '';
+          return `${branch} ${name}: ${version}${role}`;
+        })
+        .join('\n');
 
     let dependenciesInfo = `
-🎯 CLEAN ARCHITECTURE DEPENDENCIES (LATEST VERSIONS):
+🎯 '${profile.name.toUpperCase()}' DEPENDENCIES (LATEST VERSIONS):
 
 📦 PRODUCTION DEPENDENCIES:
-├─ flutter_bloc: ${prodDeps['flutter_bloc']}       (State Management - BLoC Pattern)
-├─ bloc: ${prodDeps['bloc']}                (State Management - Core BLoC)
-├─ get_it: ${prodDeps['get_it']}              (Dependency Injection)
-├─ dio: ${prodDeps['dio']}                 (HTTP Client)
-├─ shared_preferences: ${prodDeps['shared_preferences']}   (Local Key-Value Storage)
-├─ flutter_secure_storage: ${prodDeps['flutter_secure_storage']} (Secure Local Storage)
-└─ equatable: ${prodDeps['equatable']}           (Value Equality)
+${describePackages(versions.dependencies) || '└─ none'}
 
 🧪 DEVELOPMENT DEPENDENCIES:
-├─ mocktail: ${devDeps['mocktail']}            (Mocking for Tests)
-├─ bloc_test: ${devDeps['bloc_test']}           (BLoC Testing Utilities)
-└─ flutter_test: sdk: flutter   (Flutter Testing Framework)
+${describePackages(versions.devDependencies) || '└─ none'}
 
 ⚠️  NOTE: Only missing dependencies will be added.
 ✅ Existing dependencies will be preserved.
-🌐 Versions fetched from pub.dev API in real-time.
+🌐 ${versions.origin ?? 'Every package is pinned by the profile'}, pinned versions are kept.
 `;
 
     const proceed = await window.showInformationMessage(
@@ -302,7 +316,7 @@ export async function previewCleanArchDependencies(uri: Uri) {
     );
 
     if (proceed === 'Add Latest Dependencies') {
-      await addCleanArchDependencies(uri);
+      await addCleanArchDependencies(uri, profile);
     }
   } catch (error) {
     window.showErrorMessage(`❌ Error fetching versions for preview: ${error}`);
@@ -310,11 +324,17 @@ export async function previewCleanArchDependencies(uri: Uri) {
 }
 
 /**
- * 🔍 FUNCTION: Check current dependencies status (with latest version comparison)
+ * 🔍 FUNCTION: Check current dependencies status and plan their upgrade
+ *
+ * Analyzes the current pubspec.yaml and plans every package of the chosen
+ * profile (see planDependency): kept when its constraint already allows the
+ * latest version or it comes from git, a path, a hosted server or the SDK,
+ * added when missing, or upgraded. The user then picks the changes to apply,
+ * major upgrades are unchecked until reviewed.
  *
- * Analyzes the current pubspec.yaml and shows which Clean Architecture
- * dependencies are present, which are missing, and which could be updated
- * to newer versions.
+ * pubspec.lock gives the resolved version of every package, the lock entries
+ * `flutter pub get` would change, and the packages held below their latest
+ * version by another dependency (see findPackageHold).
  *
  * @param uri - URI of the folder where the command was executed
  */
@@ -323,86 +343,212 @@ export async function checkCleanArchDependencies(uri: Uri) {
     const rootFolder = utils.getRootFolder(uri);
     const pubspecPath = `${rootFolder}/pubspec.yaml`;
 
-    // Read and parse pubspec.yaml
-    const pubspecContent = readFileSync(pubspecPath, 'utf8');
-    const pubspecData = yaml.load(pubspecContent) as any;
+    const profile = await pickDependencyProfile(rootFolder, 'Check Dependencies');
+    if (!profile) {
+      return;
+    }
+
+    // Read and parse pubspec.yaml (with its unsaved edits)
+    const document = await workspace.openTextDocument(Uri.file(pubspecPath));
+    const pubspecData = yaml.load(document.getText()) as any;
 
     window.showInformationMessage('🔍 Checking dependencies and fetching latest versions...');
 
-    // Get latest versions
-    const latestVersions = await getLatestVersions([
-      'flutter_bloc',
-      'bloc',
-      'get_it',
-      'dio',
-      'shared_preferences',
-      'flutter_secure_storage',
-      'equatable',
-      'mocktail',
-      'bloc_test',
-    ]);
-
-    let statusReport = '🔍 CLEAN ARCHITECTURE DEPENDENCIES STATUS:\n\n';
-    let missingCount = 0;
-    let presentCount = 0;
-    let updatableCount = 0;
-
-    Object.keys(latestVersions).forEach((dep) => {
-      const inRegular = pubspecData.dependencies && pubspecData.dependencies[dep];
-      const inDev = pubspecData.dev_dependencies && pubspecData.dev_dependencies[dep];
-      const currentVersion = inRegular || inDev;
-      const latestVersion = latestVersions[dep];
-
-      if (currentVersion) {
-        if (currentVersion !== latestVersion && typeof currentVersion === 'string') {
-          statusReport += `🔄 ${dep}: ${currentVersion} → ${latestVersion} (update available)\n`;
-          updatableCount++;
-        } else {
-          statusReport += `✅ ${dep}: ${currentVersion} (current)\n`;
-        }
-        presentCount++;
-      } else {
-        statusReport += `❌ ${dep}: Missing (latest: ${latestVersion})\n`;
-        missingCount++;
+    // Get latest versions, pinned packages included, and plan every package
+    const versions = await getProfileVersions(profile, true);
+    const findCurrent = (name: string) => findDependency(pubspecData, name);
+    const plan = [
+      ...Object.keys(versions.dependencies).map((name) =>
+        planDependency(name, 'dependencies', findCurrent(name), versions.dependencies[name]),
+      ),
+      ...Object.keys(versions.devDependencies).map((name) =>
+        planDependency(name, 'dev_dependencies', findCurrent(name), versions.devDependencies[name]),
+      ),
+    ];
+
+    // Resolved versions of pubspec.lock, and why packages stay below their latest version
+    const lock = readPubspecLock(rootFolder);
+    const staleEntries = lock ? findStaleLockEntries(lock, pubspecData) : [];
+    const holds = (lock ? await getPackageHolds(lock, versions.latest) : []).filter((hold) => {
+      // Without a holder, only report the packages pubspec.yaml lets upgrade and the lock matches
+      if (hold.holders.length > 0) {
+        return true;
       }
+      const current = findCurrent(hold.name)?.constraint;
+      const range = typeof current === 'string' ? parseConstraint(current) : undefined;
+      return (
+        range !== undefined &&
+        allowsVersion(range, parseVersion(hold.latest)!) &&
+        !staleEntries.some((entry) => entry.name === hold.name)
+      );
     });
 
-    // Check flutter_test separately
-    const flutterTest =
-      pubspecData.dev_dependencies && pubspecData.dev_dependencies['flutter_test'];
-    if (flutterTest) {
-      statusReport += `✅ flutter_test: ${JSON.stringify(flutterTest)} (current)\n`;
-      presentCount++;
-    } else {
-      statusReport += `❌ flutter_test: Missing (sdk: flutter)\n`;
-      missingCount++;
+    let statusReport = `🔍 '${profile.name.toUpperCase()}' DEPENDENCIES STATUS:\n\n`;
+    plan.forEach((item) => {
+      const lockedPackage = lock?.get(item.name);
+      const locked = lockedPackage && lockedPackage.source !== 'sdk' ? lockedPackage.version : '-';
+      const latest = versions.latest.get(item.name) ?? '-';
+      statusReport += `${PLAN_ACTIONS[item.action].emoji} ${item.name}: ${describeChange(item)}, locked ${locked}, latest ${latest} (${item.reason})\n`;
+    });
+
+    if (!lock) {
+      statusReport += `\n🔒 No pubspec.lock, run 'flutter pub get' to resolve the dependencies\n`;
+    } else if (staleEntries.length > 0) {
+      statusReport += `\n🔒 PUBSPEC.LOCK IS OUT OF DATE, run 'flutter pub get':\n`;
+      staleEntries.forEach((entry) => (statusReport += `⚠️ ${entry.name}: ${entry.reason}\n`));
+    }
+    if (holds.length > 0) {
+      statusReport += `\n⛓️ HELD BACK:\n`;
+      holds.forEach((hold) => (statusReport += `⛓️ ${describeHold(hold)}\n`));
     }
 
-    statusReport += `\n📊 SUMMARY: ${presentCount} present, ${missingCount} missing`;
-    if (updatableCount > 0) {
-      statusReport += `, ${updatableCount} can be updated`;
+    const count = (action: PlanAction) => plan.filter((item) => item.action === action).length;
+    statusReport += `\n📊 SUMMARY: ${count('keep')} up to date, ${count('add')} missing`;
+    statusReport += `, ${count('minor')} compatible upgrades, ${count('major')} major upgrades`;
+    if (holds.length > 0) {
+      statusReport += `, ${holds.length} held back`;
     }
 
-    if (missingCount > 0 || updatableCount > 0) {
-      let buttonText = 'Add Missing Dependencies';
-      if (updatableCount > 0) {
-        buttonText = missingCount > 0 ? 'Add Missing & Update All' : 'Update All Dependencies';
-      }
+    const changes = plan.filter((item) => item.action !== 'keep');
+    const REVIEW = 'Review the upgrade plan';
+    const PUB_GET = "Run 'flutter pub get'";
+    const actions = [
+      ...(changes.length > 0 ? [REVIEW] : []),
+      ...(!lock || staleEntries.length > 0 ? [PUB_GET] : []),
+    ];
+    if (actions.length === 0) {
+      window.showInformationMessage(statusReport);
+      return;
+    }
 
-      const action = await window.showInformationMessage(
-        statusReport,
-        { modal: true },
-        buttonText,
-        'Close',
-      );
+    const action = await window.showInformationMessage(statusReport, { modal: true }, ...actions);
+    if (action === PUB_GET) {
+      await runFlutterPubGet(rootFolder);
+      return;
+    }
+    if (action !== REVIEW) {
+      return;
+    }
 
-      if (action === buttonText) {
-        await addCleanArchDependencies(uri);
-      }
-    } else {
-      window.showInformationMessage(statusReport);
+    // Let the user pick the changes, major upgrades need a review
+    const picked = await window.showQuickPick<QuickPickItem & { item: DependencyPlanItem }>(
+      changes.map((item) => ({
+        label: `${PLAN_ACTIONS[item.action].icon} ${item.name}`,
+        description: describeChange(item),
+        detail: `${item.section}: ${item.reason}`,
+        picked: item.action !== 'major',
+        item,
+      })),
+      {
+        title: `Upgrade plan: ${profile.name}`,
+        placeHolder: 'Select the changes to apply to pubspec.yaml, major upgrades are unchecked',
+        canPickMany: true,
+        ignoreFocusOut: true,
+      },
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    await applyPubspecChanges(
+      pubspecPath,
+      picked.map(({ item }) => ({
+        section: item.section,
+        name: item.name,
+        constraint: item.target!,
+      })),
+    );
+    const runPubGet = await window.showInformationMessage(
+      `🎉 ${picked.length} dependencies updated in pubspec.yaml! Do you want to run 'flutter pub get' now?`,
+      'Yes',
+      'No',
+    );
+    if (runPubGet === 'Yes') {
+      await runFlutterPubGet(rootFolder);
     }
   } catch (error) {
     window.showErrorMessage(`❌ Error checking dependencies: ${error}`);
   }
 }
+
+/**
+ * ⛓️ FUNCTION: Packages of the plan locked below their latest version, and what holds them
+ *
+ * The dependencies of the direct hosted packages of the lock come from the
+ * package repository, only when a package is behind.
+ *
+ * @param latestVersions - Latest version of every package of the plan
+ */
+async function getPackageHolds(
+  lock: Map<string, LockedPackage>,
+  latestVersions: Map<string, string>,
+): Promise<PackageHold[]> {
+  const behind = [...latestVersions].filter(([name, latest]) =>
+    findPackageHold(name, latest, lock, new Map()),
+  );
+  if (behind.length === 0) {
+    return [];
+  }
+
+  const directPackages = [...lock]
+    .filter(([, locked]) => locked.dependency.startsWith('direct') && locked.source === 'hosted')
+    .map(([name]) => name);
+  const packages = await getPackageDependencies(directPackages);
+  return behind.map(([name, latest]) => findPackageHold(name, latest, lock, packages)!);
+}
+
+/**
+ * 📝 HELPER FUNCTION: A held back package for the report
+ *
+ * Ex: bloc 8.1.4 (latest 9.0.0): bloc_test 9.1.7 requires ^8.1.0, bloc_test 10.0.0 allows 9.0.0
+ */
+function describeHold(hold: PackageHold): string {
+  const versions = `${hold.name} ${hold.locked} (latest ${hold.latest})`;
+  if (hold.holders.length === 0) {
+    return `${versions}: allowed by pubspec.yaml, run 'flutter pub upgrade'`;
+  }
+  const holders = hold.holders.map(({ name, version, constraint, releasedBy }) => {
+    const release = releasedBy
+      ? `${name} ${releasedBy} allows ${hold.latest}`
+      : `no ${name} version allows ${hold.latest} yet`;
+    return `${name} ${version} requires ${constraint}, ${release}`;
+  });
+  return `${versions}: ${holders.join('; ')}`;
+}
+
+/**
+ * 🔍 FUNCTION: Section and constraint of a package declared in pubspec.yaml
+ *
+ * A package declared without a constraint (`dio:`) is declared too, in
+ * `dependencies` or in `dev_dependencies`.
+ *
+ * @returns undefined when neither section declares the package
+ */
+function findDependency(
+  pubspecData: any,
+  name: string,
+): { constraint: any; section: DependencySection } | undefined {
+  return (['dependencies', 'dev_dependencies'] as DependencySection[])
+    .filter((section) => typeof pubspecData?.[section] === 'object')
+    .filter((section) => pubspecData[section] !== null && name in pubspecData[section])
+    .map((section) => ({ constraint: pubspecData[section][name], section }))[0];
+}
+
+/**
+ * 📝 HELPER FUNCTION: Current and target constraints of a planned package, ex: ^8.1.3 → ^9.1.1
+ */
+function describeChange(item: DependencyPlanItem): string {
+  return [item.current, item.target]
+    .filter((constraint) => constraint !== undefined)
+    .map((constraint) => formatConstraint(constraint!))
+    .join(' → ');
+}
+
+/**
+ * 📝 HELPER FUNCTION: A constraint on one line, ex: ^9.1.1 or {sdk: flutter}
+ */
+function formatConstraint(constraint: string | object): string {
+  return typeof constraint === 'string'
+    ? constraint
+    : yaml.dump(constraint, { flowLevel: 0 }).trim();
+}
@@ -0,0 +1,319 @@
+import { Uri, window } from 'vscode';
+import * as utils from '../utils/tools';
+import { renderDartTemplate, singularize, TemplateContext } from '../utils/template_engine';
+import fs = require('fs');
+import { pascalCase, snakeCase } from 'change-case';
+import { getEntityName } from '../utils/tools';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+import { buildClassContext, getDartFieldName, JsonClass, JsonField } from '../utils/entity_classes';
+import { getClickedFeature } from '../utils/feature_artifacts';
+import { loadGenerator, resolveGeneratorFiles } from '../utils/template_manifest';
+
+/**
+ * 🎯 MAIN FUNCTION: Creates Entity, Model, fixture and model test from a JSON sample
+ *
+ * This function creates:
+ * 1. An Equatable entity in lib/src/{feature}/domain/entities/ (plus one per nested object)
+ * 2. A model extending it in lib/src/{feature}/data/models/ (plus one per nested object)
+ * 3. The JSON sample as fixture in test/fixtures/{name}.json
+ * 4. A model test in test/src/{feature}/data/models/ that round-trips the fixture
+ *
+ * The JSON sample is taken from the current editor selection when it is
+ * valid JSON, otherwise the user is asked to paste it.
+ *
+ * @param uri - URI of the folder where the command was executed
+ */
+export async function createEntityFromJson(uri: Uri) {
+  // 📁 STEP 1: Get project information and context
+  const clickedFolder = utils.getClickedFolder(uri);
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  let packageName = await utils.getPackageName(uri);
+  packageName = packageName.replaceAll('\\', '/');
+
+  // 🔍 STEP 2: Extract feature name from the clicked folder path
+  const featureName = getClickedFeature(rootFolder, uri);
+  if (!featureName) {
+    window.showErrorMessage(
+      'Could not determine feature name from the selected folder. Please select a folder within a feature.',
+    );
+    return;
+  }
+
+  // 📝 STEP 3: Get the JSON sample and the entity name
+  const sample = await getJsonSample();
+  if (!sample) {
+    return;
+  }
+
+  const entityName = await getEntityName();
+  if (!entityName) {
+    return; // User cancelled or didn't enter a name
+  }
+
+  try {
+    // 🧩 STEP 4: Infer the root class and every nested class
+    const renamedKeys: string[] = [];
+    const classes = inferClasses(snakeCase(entityName), sample, renamedKeys);
+    const rootClass = classes[0];
+    if (renamedKeys.length > 0) {
+      window.showWarningMessage(
+        `⚠️ JSON keys with the same Dart name were renamed: ${renamedKeys.join(', ')}`,
+      );
+    }
+
+    // 📂 STEP 5: Resolve the entity, model and test templates of each class from the manifest
+    const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+    const generator = loadGenerator(templateBaseFolder, 'entity');
+    const entityTemplates = classes.flatMap((jsonClass) =>
+      resolveGeneratorFiles(generator, templateBaseFolder, rootFolder, {
+        feature_name: featureName,
+        entity_name: jsonClass.name,
+      })
+        // The model test of the root class covers the nested ones
+        .filter((template) => jsonClass === rootClass || template.type !== 'test')
+        .map((template) => ({ ...template, jsonClass })),
+    );
+
+    // 🔄 STEP 6: Render each template
+    const plannedFiles: PlannedFile[] = [];
+    for (const template of entityTemplates) {
+      if (fs.existsSync(template.templatePath)) {
+        plannedFiles.push({
+          path: template.destinationPath,
+          content: processEntityTemplate(template.templatePath, {
+            featureName,
+            entityName: template.jsonClass.name,
+            packageName,
+            clickedFolder,
+            rootFolder,
+            classContext: buildClassContext(template.jsonClass),
+          }),
+          type: template.type,
+        });
+      } else {
+        window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+      }
+    }
+
+    // 🧪 STEP 7: Add the fixture used by the model test
+    plannedFiles.push({
+      path: `${rootFolder}/test/fixtures/${rootClass.name}.json`,
+      content: `${JSON.stringify(sample, null, 2)}\n`,
+      type: 'fixture',
+    });
+
+    // 👀 STEP 8: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles('Create Entity from JSON', plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
+
+    // 🎉 STEP 9: Show results
+    window.showInformationMessage(
+      `🎉 Entity '${pascalCase(entityName)}' created successfully! ${describeWriteResult(result)}.`,
+    );
+  } catch (error) {
+    console.error('Error creating entity:', error);
+    window.showErrorMessage(`❌ Error creating entity: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * 📝 FUNCTION: Get the JSON sample
+ *
+ * Uses the selection of the active editor when it contains valid JSON,
+ * otherwise asks the user to paste a sample. Arrays use their first item.
+ */
+async function getJsonSample(): Promise<{ [key: string]: any } | undefined> {
+  const editor = window.activeTextEditor;
+  let source = editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : '';
+
+  if (!parseJsonObject(source)) {
+    source = await window.showInputBox({
+      title: 'Create Entity from JSON',
+      prompt: 'Paste a JSON sample (an object or an array of objects)',
+      placeHolder: 'Ex: {"id": 1, "name": "John", "address": {"city": "Madrid"}}',
+      validateInput: function (value: string) {
+        if (!parseJsonObject(value)) {
+          return 'A valid JSON object is required!';
+        }
+        return null;
+      },
+    });
+  }
+
+  return source ? parseJsonObject(source) : undefined;
+}
+
+/**
+ * 🔍 FUNCTION: Parse a JSON object (or the first object of a JSON array)
+ */
+function parseJsonObject(source: string): { [key: string]: any } | undefined {
+  try {
+    let value = JSON.parse(source);
+    if (Array.isArray(value)) {
+      value = value[0];
+    }
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+  } catch (_) {
+    return undefined;
+  }
+}
+
+/**
+ * 🧩 FUNCTION: Infer the Dart classes of a JSON object
+ *
+ * The first class is the root one, nested objects and lists of objects
+ * become their own classes. Lists of objects merge the keys of all items.
+ * Keys that give the same field name (ex: user_id and userId) are numbered.
+ *
+ * @param name - Root class name in snake_case
+ * @param sample - JSON object
+ * @param renamedKeys - Receives the numbered keys (ex: 'userId' → userId2)
+ * @returns Array of classes, root first
+ */
+function inferClasses(
+  name: string,
+  sample: { [key: string]: any },
+  renamedKeys: string[],
+): JsonClass[] {
+  const classes: JsonClass[] = [];
+
+  const visit = (className: string, object: { [key: string]: any }) => {
+    const jsonClass: JsonClass = { name: className, fields: [], sample: object };
+    classes.push(jsonClass);
+
+    Object.keys(object).forEach((key) => {
+      const value = object[key];
+      const taken = jsonClass.fields.map((item) => item.name);
+      const field: JsonField = {
+        key,
+        name: getDartFieldName(key, taken),
+        kind: 'primitive',
+        type: '',
+      };
+      if (field.name !== getDartFieldName(key)) {
+        renamedKeys.push(`'${key}' → ${field.name}`);
+      }
+
+      if (Array.isArray(value)) {
+        const objects = value.filter(
+          (item) => item && typeof item === 'object' && !Array.isArray(item),
+        );
+        if (objects.length > 0 && objects.length === value.length) {
+          field.kind = 'objectList';
+          // Items of a list without a plural name get a suffix, ex: data → data_item
+          const itemName = singularize(snakeCase(key));
+          field.nestedClass = getUniqueClassName(
+            classes,
+            itemName === snakeCase(key) ? `${itemName}_item` : itemName,
+            className,
+          );
+          visit(field.nestedClass, Object.assign({}, ...objects.reverse()));
+        } else {
+          field.kind = 'primitiveList';
+          field.type = getListItemType(value);
+        }
+      } else if (value && typeof value === 'object') {
+        field.kind = 'object';
+        field.nestedClass = getUniqueClassName(classes, snakeCase(key), className);
+        visit(field.nestedClass, value);
+      } else if (value === null || value === undefined) {
+        field.kind = 'dynamic';
+        field.type = 'dynamic';
+      } else {
+        field.type = getPrimitiveType(value);
+      }
+
+      if (field.nestedClass) {
+        field.type = pascalCase(field.nestedClass);
+      }
+      jsonClass.fields.push(field);
+    });
+  };
+
+  visit(name, sample);
+  return classes;
+}
+
+/**
+ * 🔍 FUNCTION: Dart type of a primitive JSON value
+ */
+function getPrimitiveType(value: any): string {
+  if (typeof value === 'string') {
+    return 'String';
+  }
+  if (typeof value === 'boolean') {
+    return 'bool';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'int' : 'double';
+  }
+  return 'dynamic';
+}
+
+/**
+ * 🔍 FUNCTION: Dart type of the items of a list of primitives
+ *
+ * Mixed or empty lists fall back to `dynamic`.
+ */
+function getListItemType(values: any[]): string {
+  const types = new Set(
+    values.map((value) =>
+      Array.isArray(value) || (value && typeof value === 'object')
+        ? 'dynamic'
+        : getPrimitiveType(value),
+    ),
+  );
+  if (types.size === 2 && types.has('int') && types.has('double')) {
+    return 'double';
+  }
+  return types.size === 1 ? [...types][0] : 'dynamic';
+}
+
+/**
+ * 🔍 FUNCTION: Avoid two nested classes with the same name
+ *
+ * When the name is already taken it is prefixed with the parent class name.
+ */
+function getUniqueClassName(classes: JsonClass[], name: string, parentName: string): string {
+  let candidate = name;
+  let index = 2;
+  while (classes.some((jsonClass) => jsonClass.name === candidate)) {
+    candidate = candidate === name ? `${parentName}_${name}` : `${parentName}_${name}${index++}`;
+  }
+  return candidate;
+}
+
+/**
+ * 🔄 FUNCTION: Process an individual entity or model template
+ *
+ * Renders the template with the shared template engine, the file is
+ * written after the preview.
+ *
+ * @param templatePath - Path to the template file
+ * @param placeholders - Object with all values to replace
+ * @returns Content of the final file
+ */
+function processEntityTemplate(
+  templatePath: string,
+  placeholders: {
+    featureName: string;
+    entityName: string;
+    packageName: string;
+    clickedFolder: string;
+    rootFolder: string;
+    classContext: TemplateContext;
+  },
+): string {
+  return renderDartTemplate(templatePath, {
+    feature_name: placeholders.featureName,
+    entity_name: placeholders.entityName,
+    package_name: placeholders.packageName,
+    custom_folder: placeholders.clickedFolder,
+    root_folder: placeholders.rootFolder,
+    ...placeholders.classContext,
+  });
+}
@@ -0,0 +1,362 @@
+import { mkdirSync, readFileSync } from 'fs';
+import { Uri, window } from 'vscode';
+import { pascalCase, snakeCase } from 'change-case';
+import * as utils from '../utils/tools';
+import { renderDartTemplate, renderTemplate, TemplateContext } from '../utils/template_engine';
+import {
+  getGeneratorRegistrations,
+  loadGenerator,
+  resolveGeneratorFiles,
+} from '../utils/template_manifest';
+import fs = require('fs');
+import path = require('path');
+import { InjectionRegistration, planFeatureInjection } from '../utils/injection';
+import { buildRepositoryMethodsContext } from '../utils/repository_methods';
+import {
+  getDataStrategy,
+  getRepositoryMethodNames,
+  mergeMethod,
+  planBoundUsecase,
+} from '../utils/repository_files';
+import {
+  buildUsecasesContext,
+  getBlocRegistration,
+  getBlocTemplates,
+  UsecaseInfo,
+} from '../utils/bloc_files';
+import { buildClassContext } from '../utils/entity_classes';
+import { FEATURE_SPEC_FILES, FeatureSpec, loadFeatureSpec } from '../utils/feature_spec';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+
+/**
+ * 🎯 MAIN FUNCTION: Generates a whole feature from a spec file
+ *
+ * Run on a `feature.yaml` (`feature.yml` or `feature.json`) file, or on the
+ * folder that contains it. From the spec (see FeatureSpec) it creates:
+ * 1. The entities with their models, model tests and fixtures
+ * 2. The repository with its datasources and tests, using the given strategy
+ * 3. The use cases bound to the repository methods
+ * 4. The Bloc or Cubit that injects the use cases
+ * 5. Their registrations in the feature injection file
+ *
+ * The spec can be edited and run again: only what does not exist yet is
+ * generated. New repository methods are merged into the existing files like
+ * "Add Repository Method", existing entities, use cases and blocs are kept.
+ *
+ * Every file goes through a single preview.
+ *
+ * @param uri - URI of the spec file or of its folder
+ */
+export async function createFeatureFromSpec(uri: Uri) {
+  const title = 'Generate Feature from Spec';
+
+  // 📁 STEP 1: Get project information and context
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  let packageName = await utils.getPackageName(uri);
+  packageName = packageName.replaceAll('\\', '/');
+  const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+
+  // 📖 STEP 2: Find and load the spec
+  const specPath = findSpecFile(utils.getClickedFolder(uri));
+  if (!specPath) {
+    window.showErrorMessage(
+      `❌ No feature spec found. Run the command on a ${FEATURE_SPEC_FILES.join(', ')} file or its folder.`,
+    );
+    return;
+  }
+  let spec: FeatureSpec;
+  try {
+    spec = loadFeatureSpec(specPath);
+  } catch (error: any) {
+    console.error('Error loading feature spec:', error);
+    window.showErrorMessage(`❌ Invalid feature spec: ${error.message}`);
+    return;
+  }
+  const featureName = spec.feature;
+  const featureFolder = `${rootFolder}/lib/src/${featureName}`;
+  const isNewFeature = !fs.existsSync(featureFolder);
+  const baseContext: TemplateContext = {
+    feature_name: featureName,
+    package_name: packageName,
+    root_folder: rootFolder,
+  };
+
+  try {
+    const plannedFiles: PlannedFile[] = [];
+    const registrations: InjectionRegistration[] = [];
+
+    // 🧱 STEP 3: Entities, models, model tests and fixtures not created yet
+    spec.entities
+      .filter((entity) => !fs.existsSync(`${featureFolder}/domain/entities/${entity.name}.dart`))
+      .forEach((entity) => {
+        const context: TemplateContext = {
+          ...baseContext,
+          custom_folder: `${featureFolder}/domain/entities`,
+          entity_name: entity.name,
+          ...buildClassContext(entity),
+        };
+        [
+          {
+            templatePath: `${templateBaseFolder}/feature/entity/{{entity_name.snakeCase}}.template`,
+            destinationPath: `${featureFolder}/domain/entities/${entity.name}.dart`,
+            type: 'entity',
+          },
+          {
+            templatePath: `${templateBaseFolder}/feature/model/{{entity_name.snakeCase}}_model.template`,
+            destinationPath: `${featureFolder}/data/models/${entity.name}_model.dart`,
+            type: 'model',
+          },
+          {
+            templatePath: `${templateBaseFolder}/test/model/{{entity_name.snakeCase}}_model_test.template`,
+            destinationPath: `${rootFolder}/test/src/${featureName}/data/models/${entity.name}_model_test.dart`,
+            type: 'test',
+          },
+        ].forEach((template) => {
+          if (fs.existsSync(template.templatePath)) {
+            plannedFiles.push({
+              path: template.destinationPath,
+              content: renderDartTemplate(template.templatePath, context),
+              type: template.type,
+            });
+          } else {
+            window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+          }
+        });
+        plannedFiles.push({
+          path: `${rootFolder}/test/fixtures/${entity.name}.json`,
+          content: `${JSON.stringify(entity.sample, null, 2)}\n`,
+          type: 'fixture',
+        });
+      });
+
+    // 🗄️ STEP 4: The repository, or the methods missing in the existing one
+    if (spec.repository) {
+      const repository = planRepository(templateBaseFolder, rootFolder, spec, baseContext);
+      plannedFiles.push(...repository.files);
+      registrations.push(...repository.registrations);
+    }
+
+    // 🧩 STEP 5: Use cases not created yet, bound to the repository
+    const methods = spec.repository?.methods ?? [];
+    spec.usecases
+      .map((usecase) => methods.find((method) => method.name === usecase)!)
+      .filter(
+        (method) =>
+          !fs.existsSync(`${featureFolder}/domain/usecases/${snakeCase(method.name)}_usecase.dart`),
+      )
+      .forEach((method) => {
+        const usecase = planBoundUsecase(
+          templateBaseFolder,
+          rootFolder,
+          featureName,
+          spec.repository!.name,
+          method,
+          baseContext,
+        );
+        plannedFiles.push(...usecase.files);
+        registrations.push(...usecase.registrations);
+      });
+
+    // 🧠 STEP 6: The Bloc or Cubit, only when it does not exist yet
+    if (spec.bloc) {
+      const { name, isCubit } = spec.bloc;
+      const usecases: UsecaseInfo[] = spec.bloc.usecases.map((usecase) => {
+        const method = methods.find((item) => item.name === usecase)!;
+        return {
+          name: snakeCase(usecase),
+          fileName: `${snakeCase(usecase)}_usecase.dart`,
+          className: `${pascalCase(usecase)}Usecase`,
+          hasParams: method.fields.length > 0,
+          returnType: method.returnType,
+        };
+      });
+      const blocTemplates = getBlocTemplates(
+        templateBaseFolder,
+        rootFolder,
+        featureName,
+        name,
+        isCubit,
+      );
+
+      if (fs.existsSync(blocTemplates[0].destinationPath)) {
+        const blocContent = readFileSync(blocTemplates[0].destinationPath, 'utf8');
+        const missing = usecases.filter((usecase) => !blocContent.includes(usecase.className));
+        if (missing.length > 0) {
+          window.showWarningMessage(
+            `⚠️ ${path.basename(blocTemplates[0].destinationPath)} already exists, inject ${missing.map((usecase) => usecase.className).join(', ')} by hand.`,
+          );
+        }
+      } else {
+        const context: TemplateContext = {
+          ...baseContext,
+          custom_folder: `${featureFolder}/presentation/blocs`,
+          bloc_name: name,
+          ...buildUsecasesContext(usecases),
+        };
+        blocTemplates.forEach((template) => {
+          if (fs.existsSync(template.templatePath)) {
+            plannedFiles.push({
+              path: template.destinationPath,
+              content: renderDartTemplate(template.templatePath, context),
+              type: template.type,
+            });
+          } else {
+            window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+          }
+        });
+        registrations.push(getBlocRegistration(name, isCubit, usecases));
+      }
+    }
+
+    if (plannedFiles.length === 0) {
+      window.showInformationMessage(
+        `✅ Feature '${featureName}' is up to date with ${path.basename(specPath)}.`,
+      );
+      return;
+    }
+
+    // 💉 STEP 7: Register the new classes in the feature injection file, in one edit
+    plannedFiles.push(...planFeatureInjection(rootFolder, featureName, registrations));
+
+    // 👀 STEP 8: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles(title, plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
+    if (isNewFeature) {
+      await createFeatureFolders(rootFolder, featureName, packageName);
+    }
+
+    // 🎉 STEP 9: Show results
+    window.showInformationMessage(
+      `🎉 Feature '${featureName}' generated from ${path.basename(specPath)}! ${describeWriteResult(result)}.`,
+    );
+  } catch (error) {
+    console.error('Error generating feature from spec:', error);
+    window.showErrorMessage(`❌ Error generating feature from spec: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * 🔍 FUNCTION: Path of the spec file
+ *
+ * The clicked file when it is a spec, otherwise the first spec found
+ * in the clicked folder.
+ */
+function findSpecFile(clickedPath: string): string | undefined {
+  if (FEATURE_SPEC_FILES.includes(path.basename(clickedPath))) {
+    return clickedPath;
+  }
+  if (!fs.existsSync(clickedPath) || !fs.statSync(clickedPath).isDirectory()) {
+    return undefined;
+  }
+  return FEATURE_SPEC_FILES.map((file) => `${clickedPath}/${file}`).find((file) =>
+    fs.existsSync(file),
+  );
+}
+
+/**
+ * 🗄️ FUNCTION: Plan the repository of the spec
+ *
+ * A new repository is rendered whole from the 'repository' generator. When the
+ * interface already exists, only the methods it does not declare yet are
+ * rendered and merged into each existing file, keeping its data strategy.
+ */
+function planRepository(
+  templateBaseFolder: string,
+  rootFolder: string,
+  spec: FeatureSpec,
+  baseContext: TemplateContext,
+): { files: PlannedFile[]; registrations: InjectionRegistration[] } {
+  const { name, strategy, methods } = spec.repository!;
+  const generator = loadGenerator(templateBaseFolder, 'repository');
+  const interfacePath = `${rootFolder}/lib/src/${spec.feature}/domain/repositories/i_${name}_repository.dart`;
+  const buildContext = (context: TemplateContext): TemplateContext => ({
+    ...baseContext,
+    custom_folder: `${rootFolder}/lib/src/${spec.feature}/domain/repositories`,
+    repository_name: name,
+    ...context,
+  });
+
+  // 🆕 A new repository with every method
+  if (!fs.existsSync(interfacePath)) {
+    const context = buildContext(buildRepositoryMethodsContext(methods, strategy));
+    const files = resolveGeneratorFiles(generator, templateBaseFolder, rootFolder, context)
+      .filter((template) => {
+        if (!fs.existsSync(template.templatePath)) {
+          window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+          return false;
+        }
+        return true;
+      })
+      .map((template) => ({
+        path: template.destinationPath,
+        content: renderDartTemplate(template.templatePath, context),
+        type: template.type,
+      }));
+    return { files, registrations: getGeneratorRegistrations(generator, context) };
+  }
+
+  // ➕ The methods missing in the existing repository, merged one by one
+  const existingMethods = getRepositoryMethodNames(readFileSync(interfacePath, 'utf8'));
+  const existingStrategy = getDataStrategy(rootFolder, spec.feature, name);
+  const contents = new Map<string, { content: string; type: string }>();
+  methods
+    .filter((method) => !existingMethods.includes(method.name))
+    .forEach((method) => {
+      const context = buildContext(buildRepositoryMethodsContext([method], existingStrategy));
+      resolveGeneratorFiles(generator, templateBaseFolder, rootFolder, context)
+        .filter(
+          (template) =>
+            fs.existsSync(template.templatePath) && fs.existsSync(template.destinationPath),
+        )
+        .forEach((template) => {
+          const existing =
+            contents.get(template.destinationPath)?.content ??
+            readFileSync(template.destinationPath, 'utf8');
+          contents.set(template.destinationPath, {
+            content: mergeMethod(
+              existing,
+              renderDartTemplate(template.templatePath, context),
+              method,
+            ),
+            type: template.type,
+          });
+        });
+    });
+
+  return {
+    files: [...contents].map(([filePath, { content, type }]) => ({
+      path: filePath,
+      content,
+      type,
+      isEdit: true,
+    })),
+    registrations: [],
+  };
+}
+
+/**
+ * 📂 FUNCTION: Create the folders of a new feature
+ *
+ * The same folders as "New Feature Folders", from the `scaffolding.layers.templates` setting.
+ */
+async function createFeatureFolders(rootFolder: string, featureName: string, packageName: string) {
+  const folderList = await utils.getExtensionFileTemplates();
+  if (!folderList || !Array.isArray(folderList)) {
+    return;
+  }
+  folderList.forEach((element) => {
+    const folder = renderTemplate(element, {
+      feature_name: featureName,
+      custom_folder: `${rootFolder}/lib/src`,
+      package_name: packageName,
+      root_folder: rootFolder,
+      // Entries may end with a use case file name, only their folder is created
+      usecase_name: '',
+    });
+    mkdirSync(folder.substring(0, folder.lastIndexOf('/')), { recursive: true });
+  });
+}
@@ -1,6 +1,7 @@
 import { mkdirSync } from "fs";
 import { Uri, window } from "vscode";
 import * as utils from "../utils/tools";
+import { renderTemplate } from "../utils/template_engine";
 
 export async function createFolders(uri: Uri) {
   
@@ -29,122 +30,14 @@ export async function createFolders(uri: Uri) {
       let featureFolder = "";
 
       folderList.forEach((element) => {
-        featureFolder = element.replaceName("{{feature_name}}", featureName);
-
-        featureFolder = featureFolder.replaceName(
-          "{{custom_folder}}",
-          clickedFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{package_name}}",
-          packageName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{root_folder}}",
-          rootFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{feature_name.lowerCase}}",
-          featureName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{custom_folder.lowerCase}}",
-          clickedFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{package_name.lowerCase}}",
-          packageName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{root_folder.lowerCase}}",
-          rootFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{feature_name.upperCase}}",
-          featureName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{custom_folder.upperCase}}",
-          clickedFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{package_name.upperCase}}",
-          packageName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{root_folder.upperCase}}",
-          rootFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{feature_name.snakeCase}}",
-          featureName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{custom_folder.snakeCase}}",
-          clickedFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{package_name.snakeCase}}",
-          packageName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{root_folder.snakeCase}}",
-          rootFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{feature_name.pascalCase}}",
-          featureName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{custom_folder.pascalCase}}",
-          clickedFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{package_name.pascalCase}}",
-          packageName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{root_folder.pascalCase}}",
-          rootFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{feature_name.camelCase}}",
-          featureName
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{custom_folder.camelCase}}",
-          clickedFolder
-        );
-
-        featureFolder = featureFolder.replaceName(
-          "{{package_name.camelCase}}",
-          packageName
-        );
-        
-        featureFolder = featureFolder.replaceName(
-          "{{root_folder.camelCase}}",
-          rootFolder
-        );
+        featureFolder = renderTemplate(element, {
+          feature_name: featureName,
+          custom_folder: clickedFolder,
+          package_name: packageName,
+          root_folder: rootFolder,
+          // Entries may end with a use case file name, only their folder is created
+          usecase_name: "",
+        });
 
         featureFolder = featureFolder.substring(
           0,
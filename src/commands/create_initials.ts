@@ -1,9 +1,10 @@
-import { readFileSync } from 'fs';
 import { Uri, window } from 'vscode';
 import * as utils from '../utils/tools';
+import { renderTemplate, renderTemplateFile, TemplateError } from '../utils/template_engine';
 import fs = require('fs');
 import { dirname } from 'path';
 import { getAllTemplateFiles, getTemplatesFile } from '../utils/tools';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
 
 export async function createInitials(uri: Uri) {
   const clickedFolder = utils.getClickedFolder(uri);
@@ -35,31 +36,34 @@ export async function createInitials(uri: Uri) {
   try {
     // Copy templates from specific initial folders: config, core, test
     const initialFolders = ['config', 'core', 'test'];
-    let totalFilesCreated = 0;
+    const plannedFiles: PlannedFile[] = [];
 
     for (const folder of initialFolders) {
       const folderPath = `${templateBaseFolder}/${folder}`;
       if (fs.existsSync(folderPath)) {
-        const filesCreated = await copyInitialTemplatesFromFolder(
+        const folderFiles = copyInitialTemplatesFromFolder(
           folderPath,
           rootFolder,
           clickedFolder,
           packageName,
           folder,
         );
-        totalFilesCreated += filesCreated;
-        window.showInformationMessage(`✅ Created ${filesCreated} files from ${folder} templates`);
+        plannedFiles.push(...folderFiles);
+        console.log(`✅ Rendered ${folderFiles.length} files from ${folder} templates`);
       } else {
         window.showWarningMessage(`⚠️ Folder ${folder} not found in templates`);
       }
     }
 
-    if (totalFilesCreated > 0) {
-      window.showInformationMessage(
-        `🎉 Initial setup completed! ${totalFilesCreated} files created successfully!`,
-      );
-    } else {
+    if (plannedFiles.length === 0) {
       window.showWarningMessage('No template files were found to create.');
+      return;
+    }
+
+    // Preview the files, nothing is written until the user confirms
+    const result = await previewAndWriteFiles('Create initial needs', plannedFiles);
+    if (result) {
+      window.showInformationMessage(`🎉 Initial setup completed! ${describeWriteResult(result)}.`);
     }
   } catch (error) {
     console.log('Error creating initial templates:', error);
@@ -80,15 +84,15 @@ export async function createInitials(uri: Uri) {
  * @param clickedFolder - Carpeta donde se ejecutó el comando
  * @param packageName - Nombre del paquete
  * @param folderType - Tipo de carpeta ('config', 'core', 'test')
- * @returns Número de archivos creados
+ * @returns Archivos a escribir tras la previsualización
  */
-async function copyInitialTemplatesFromFolder(
+function copyInitialTemplatesFromFolder(
   templateFolder: string,
   rootFolder: string,
   clickedFolder: string,
   packageName: string,
   folderType: string,
-): Promise<number> {
+): PlannedFile[] {
   // 🔍 PASO 1: Obtener archivos con filtros específicos para 'test'
   let templateFiles: string[];
 
@@ -100,7 +104,7 @@ async function copyInitialTemplatesFromFolder(
     templateFiles = getAllTemplateFiles(templateFolder);
   }
 
-  let filesCreated = 0;
+  const plannedFiles: PlannedFile[] = [];
 
   // 🔄 PASO 2: Procesar cada template file
   for (const templateFile of templateFiles) {
@@ -130,34 +134,28 @@ async function copyInitialTemplatesFromFolder(
       // Remove .template extension
       destinationPath = destinationPath.replace(/\.template$/, '.dart');
 
-      // Replace placeholders in path
-      destinationPath = replacePlaceholdersInPath(destinationPath, {
+      const placeholders = {
         custom_folder: clickedFolder,
         package_name: packageName,
         root_folder: rootFolder,
-      });
+      };
 
-      // Read template content
-      let templateContent = readFileSync(templateFile, 'utf8');
+      // Replace placeholders in path
+      destinationPath = renderTemplate(destinationPath, placeholders, templateFile);
 
-      // Replace placeholders in content - including package references
-      templateContent = replacePlaceholdersInContent(templateContent, {
-        custom_folder: clickedFolder,
-        package_name: packageName,
-        root_folder: rootFolder,
-      });
+      // Read the template and render its placeholders - including package references
+      const templateContent = renderTemplateFile(templateFile, placeholders);
 
-      // Write the file
-      await writeFileExtPromise(destinationPath, templateContent);
-      filesCreated++;
-      console.log(`✅ Created: ${destinationPath}`);
+      plannedFiles.push({ path: destinationPath, content: templateContent, type: folderType });
     } catch (error) {
       console.error(`❌ Error processing template ${templateFile}:`, error);
-      window.showErrorMessage(`Error processing template: ${templateFile}`);
+      window.showErrorMessage(
+        `Error processing template: ${error instanceof TemplateError ? error.message : templateFile}`,
+      );
     }
   }
 
-  return filesCreated;
+  return plannedFiles;
 }
 
 /**
@@ -255,40 +253,6 @@ function reportTestFolderProcessing(testFolder: string): void {
   }
 }
 
-function replacePlaceholdersInPath(path: string, placeholders: any): string {
-  let result = path;
-
-  // Replace each placeholder with all its variants
-  Object.keys(placeholders).forEach((key) => {
-    const value = placeholders[key];
-    result = result.replaceName(`{{${key}}}`, value);
-    result = result.replaceName(`{{${key}.lowerCase}}`, value);
-    result = result.replaceName(`{{${key}.upperCase}}`, value);
-    result = result.replaceName(`{{${key}.snakeCase}}`, value);
-    result = result.replaceName(`{{${key}.pascalCase}}`, value);
-    result = result.replaceName(`{{${key}.camelCase}}`, value);
-  });
-
-  return result;
-}
-
-function replacePlaceholdersInContent(content: string, placeholders: any): string {
-  let result = content;
-
-  // Replace each placeholder with all its variants
-  Object.keys(placeholders).forEach((key) => {
-    const value = placeholders[key];
-    result = result.replaceName(`{{${key}}}`, value);
-    result = result.replaceName(`{{${key}.lowerCase}}`, value);
-    result = result.replaceName(`{{${key}.upperCase}}`, value);
-    result = result.replaceName(`{{${key}.snakeCase}}`, value);
-    result = result.replaceName(`{{${key}.pascalCase}}`, value);
-    result = result.replaceName(`{{${key}.camelCase}}`, value);
-  });
-
-  return result;
-}
-
 function writeFileExt(path: string, contents: string) {
   fs.mkdir(dirname(path), { recursive: true }, function (err: any) {
     if (err) {
@@ -305,26 +269,3 @@ function writeFileExt(path: string, contents: string) {
     });
   });
 }
-
-// Promise version for better async handling
-function writeFileExtPromise(path: string, contents: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    fs.mkdir(dirname(path), { recursive: true }, function (err: any) {
-      if (err) {
-        console.error('Error creating directory:', err);
-        reject(err);
-        return;
-      }
-
-      fs.writeFile(path, contents, 'utf8', (error) => {
-        if (error) {
-          console.error('Error writing file:', path, error);
-          reject(error);
-        } else {
-          console.log('✅ Created file:', path);
-          resolve();
-        }
-      });
-    });
-  });
-}
@@ -0,0 +1,433 @@
+import { readFileSync } from 'fs';
+import { QuickPickItem, Uri, window } from 'vscode';
+import { camelCase, pascalCase, snakeCase } from 'change-case';
+import path = require('path');
+import fs = require('fs');
+import * as utils from '../utils/tools';
+import { renderDartTemplate, TemplateContext } from '../utils/template_engine';
+import { loadGenerator, resolveGeneratorFiles } from '../utils/template_manifest';
+import { buildParamsContext, DartField } from '../utils/dart_fields';
+import { buildRepositoryMethodsContext } from '../utils/repository_methods';
+import {
+  bindUsecaseRepository,
+  getDataStrategy,
+  parseRepositoryMethods,
+} from '../utils/repository_files';
+import {
+  buildUsecasesContext,
+  getBlocTemplates,
+  getFeatureUsecases,
+  parseUsecaseFile,
+} from '../utils/bloc_files';
+import {
+  getBlockMembers,
+  getConstructorParameters,
+  getTopLevelBlocks,
+  maskDartCode,
+} from '../utils/dart_source';
+import {
+  ArtifactKind,
+  FeatureArtifact,
+  getClickedFeature,
+  getFeatureArtifacts,
+  getFeatures,
+  isMissingTest,
+} from '../utils/feature_artifacts';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+
+/** Classes whose tests are generated from the test templates */
+const TESTED_KINDS: ArtifactKind[] = ['usecase', 'repositoryImpl', 'datasource', 'bloc'];
+
+/**
+ * 📋 INTERFACE: A class without its test
+ */
+interface TestGap {
+  featureName: string;
+  artifact: FeatureArtifact;
+}
+
+/**
+ * 🎯 MAIN FUNCTION: Generates the tests missing in a feature or in the whole app
+ *
+ * Looks in lib/src/ for the use cases, repository implementations,
+ * datasources and blocs without a test in test/src/, with the names
+ * the generators use (ex: login_usecase.dart → login_usecase_test.dart).
+ *
+ * The gaps are listed to pick the tests to create. Each test is rendered
+ * from its test template with what is found in the source:
+ * - use cases: the class, the `Params` fields, the returned type, the
+ *   repository interface and the method it calls
+ * - repositories and datasources: the methods of the repository interface
+ *   and the data strategy of the implementation, which must have the
+ *   constructor of its template (otherwise it is skipped with a warning)
+ * - blocs and cubits: the use cases injected in the constructor
+ *
+ * Every file goes through the preview before being written.
+ *
+ * @param uri - URI of a feature (or a folder inside it), or of the app for every feature
+ */
+export async function createMissingTests(uri: Uri) {
+  const title = 'Create Missing Tests';
+
+  // 📁 STEP 1: Get project information and context
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  let packageName = await utils.getPackageName(uri);
+  packageName = packageName.replaceAll('\\', '/');
+  const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+
+  // 🔍 STEP 2: Find the classes without test
+  const clickedFeature = getClickedFeature(rootFolder, uri);
+  const features = clickedFeature ? [clickedFeature] : getFeatures(rootFolder);
+  const gaps: TestGap[] = features.flatMap((featureName) =>
+    getFeatureArtifacts(rootFolder, featureName, TESTED_KINDS)
+      .filter(isMissingTest)
+      .map((artifact) => ({ featureName, artifact })),
+  );
+  const scope = clickedFeature ? `feature '${clickedFeature}'` : 'app';
+  if (gaps.length === 0) {
+    window.showInformationMessage(`✅ Every class of the ${scope} has its test.`);
+    return;
+  }
+
+  // ✅ STEP 3: Pick the tests to create
+  const items = gaps.map((gap) => ({
+    label: gap.artifact.name,
+    description: gap.featureName,
+    detail: path.relative(rootFolder, gap.artifact.testPaths[0]),
+    picked: true,
+    gap,
+  }));
+  const selected = await window.showQuickPick<QuickPickItem & { gap: TestGap }>(items, {
+    title,
+    placeHolder: `${gaps.length} classes of the ${scope} have no test. Select the tests to create`,
+    canPickMany: true,
+  });
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  try {
+    // 🧪 STEP 4: Render each test from its template and the source
+    const plannedFiles: PlannedFile[] = [];
+    for (const { gap } of selected) {
+      const baseContext: TemplateContext = {
+        feature_name: gap.featureName,
+        package_name: packageName,
+        root_folder: rootFolder,
+        custom_folder: path.dirname(gap.artifact.filePath),
+      };
+      const content = planTest(templateBaseFolder, rootFolder, gap, baseContext);
+      if (content !== undefined) {
+        plannedFiles.push({ path: gap.artifact.testPaths[0], content, type: 'test' });
+      }
+    }
+
+    if (plannedFiles.length === 0) {
+      return;
+    }
+
+    // 👀 STEP 5: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles(title, plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
+
+    // 🎉 STEP 6: Show results
+    window.showInformationMessage(`🎉 Missing tests created! ${describeWriteResult(result)}.`);
+  } catch (error) {
+    console.error('Error creating missing tests:', error);
+    window.showErrorMessage(`❌ Error creating missing tests: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * 🧪 FUNCTION: Content of the missing test of a class
+ *
+ * @returns The rendered test, or undefined when the source or its template
+ *          cannot be used (a warning tells why)
+ */
+function planTest(
+  templateBaseFolder: string,
+  rootFolder: string,
+  gap: TestGap,
+  baseContext: TemplateContext,
+): string | undefined {
+  const { artifact, featureName } = gap;
+  const source = readFileSync(artifact.filePath, 'utf8');
+  let planned: { templatePath: string; context: TemplateContext } | undefined;
+
+  switch (artifact.kind) {
+    case 'usecase':
+      return planUsecaseTest(templateBaseFolder, rootFolder, gap, source, baseContext);
+    case 'repositoryImpl':
+    case 'datasource': {
+      const repositoryName = artifact.name.replace(
+        /_(repository_impl|remote_data_source|local_data_source)$/,
+        '',
+      );
+      const interfacePath = `${rootFolder}/lib/src/${featureName}/domain/repositories/i_${repositoryName}_repository.dart`;
+      if (repositoryName === artifact.name || !fs.existsSync(interfacePath)) {
+        window.showWarningMessage(
+          `⚠️ ${artifact.name}: repository interface not found (${path.relative(rootFolder, interfacePath)})`,
+        );
+        return undefined;
+      }
+
+      const context: TemplateContext = {
+        ...baseContext,
+        repository_name: repositoryName,
+        ...buildRepositoryMethodsContext(
+          parseRepositoryMethods(readFileSync(interfacePath, 'utf8')),
+          getDataStrategy(rootFolder, featureName, repositoryName),
+        ),
+      };
+      if (
+        !hasTemplateConstructor(artifact, source, repositoryName, !!context.has_local_datasource)
+      ) {
+        return undefined;
+      }
+      if (artifact.name.endsWith('_remote_data_source')) {
+        useHttpMethods(context, source, `${pascalCase(repositoryName)}RemoteDataSourceImpl`);
+      }
+      const template = resolveGeneratorFiles(
+        loadGenerator(templateBaseFolder, 'repository'),
+        templateBaseFolder,
+        rootFolder,
+        context,
+      ).find((item) => item.destinationPath === artifact.testPaths[0]);
+      planned = template && { templatePath: template.templatePath, context };
+      break;
+    }
+    case 'bloc': {
+      const isCubit = artifact.name.endsWith('_cubit');
+      const blocName = artifact.name.replace(/_(bloc|cubit)$/, '');
+
+      // 💉 The use cases of the feature used by the bloc, in the order of the source
+      const code = maskDartCode(source);
+      const usecases = getFeatureUsecases(`${rootFolder}/lib/src/${featureName}/domain/usecases`)
+        .map((usecase) => ({
+          usecase,
+          index: code.search(new RegExp(`\\b${usecase.className}\\b`)),
+        }))
+        .filter((item) => item.index !== -1)
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.usecase);
+
+      const context: TemplateContext = {
+        ...baseContext,
+        bloc_name: blocName,
+        ...buildUsecasesContext(usecases),
+      };
+      const template = getBlocTemplates(
+        templateBaseFolder,
+        rootFolder,
+        featureName,
+        blocName,
+        isCubit,
+      ).find((item) => item.type === 'test');
+      planned = template && { templatePath: template.templatePath, context };
+      break;
+    }
+  }
+
+  if (!planned || !fs.existsSync(planned.templatePath)) {
+    window.showWarningMessage(`⚠️ ${artifact.name}: no test template found`);
+    return undefined;
+  }
+  return renderDartTemplate(planned.templatePath, planned.context);
+}
+
+/**
+ * 🧪 FUNCTION: Test of an existing use case
+ *
+ * Rendered from the test template of the 'usecase' or 'usecase_without_params'
+ * generator, then bound to the repository interface and the method the use
+ * case calls, with the same arguments.
+ */
+function planUsecaseTest(
+  templateBaseFolder: string,
+  rootFolder: string,
+  { artifact, featureName }: TestGap,
+  source: string,
+  baseContext: TemplateContext,
+): string | undefined {
+  const usecase = parseUsecaseFile(artifact.filePath, `${artifact.name}.dart`);
+  if (!usecase) {
+    window.showWarningMessage(`⚠️ ${artifact.name}: no use case class found`);
+    return undefined;
+  }
+
+  const context: TemplateContext = {
+    ...baseContext,
+    usecase_name: usecase.name,
+    ...buildParamsContext(usecase.hasParams ? parseParamsFields(source) : [], usecase.returnType),
+  };
+  const template = resolveGeneratorFiles(
+    loadGenerator(templateBaseFolder, usecase.hasParams ? 'usecase' : 'usecase_without_params'),
+    templateBaseFolder,
+    rootFolder,
+    context,
+  ).find((item) => item.type === 'test');
+  if (!template || !fs.existsSync(template.templatePath)) {
+    window.showWarningMessage(`⚠️ ${artifact.name}: no test template found`);
+    return undefined;
+  }
+  let content = renderDartTemplate(template.templatePath, context);
+
+  // 🏷️ The real class name
+  const templateClass = `${pascalCase(usecase.name)}Usecase`;
+  if (usecase.className !== templateClass) {
+    content = content.replace(new RegExp(`\\b${templateClass}\\b`, 'g'), usecase.className);
+  }
+
+  // 🔗 The repository field and the method called with its arguments
+  const code = maskDartCode(source);
+  const block = getTopLevelBlocks(source).find((item) => item.name === usecase.className)!;
+  const body = code.slice(0, block.closeIndex);
+  const repository = body.slice(block.openIndex).match(/\bfinal\s+(\w*Repository)\s+(\w+)\s*;/);
+  const callIndex = repository ? body.search(new RegExp(`\\b${repository[2]}\\.\\w+\\s*\\(`)) : -1;
+  if (!repository || callIndex === -1) {
+    return content;
+  }
+  const [, interfaceName, fieldName] = repository;
+  const call = source.slice(callIndex).match(/^\w+\.(\w+)\s*\(/)!;
+  const argumentsEnd = findClosingParenthesis(code, callIndex + call[0].length);
+  const callArguments = source
+    .slice(callIndex + call[0].length, argumentsEnd)
+    .replace(/\bparams\./g, 'tParams.')
+    .trim()
+    .replace(/,$/, '');
+
+  const method = call[1];
+  const templateMethod = camelCase(usecase.name);
+  content = content
+    .replaceAll(`[IRepository.${templateMethod}]`, `[IRepository.${method}]`)
+    .replace(
+      new RegExp(`\\bmockIRepository\\.${templateMethod}\\([^)]*\\)`, 'g'),
+      () => `mockIRepository.${method}(${callArguments})`,
+    );
+  console.log(`🔗 ${usecase.className} calls ${interfaceName}.${method} through ${fieldName}`);
+
+  if (interfaceName === 'IRepository') {
+    return content; // Not bound to its repository yet, the test keeps the placeholder
+  }
+  return bindUsecaseRepository(
+    content,
+    interfaceName,
+    `package:${baseContext.package_name}/src/${featureName}/domain/repositories/${snakeCase(interfaceName)}.dart`,
+  );
+}
+
+/**
+ * 📖 FUNCTION: Fields of the `Params` class of a use case
+ *
+ * Ex: `final bool? includeAvatar;` with `this.includeAvatar = false` → bool, nullable, default false
+ */
+function parseParamsFields(source: string): DartField[] {
+  const code = maskDartCode(source);
+  const block = getTopLevelBlocks(source).find((item) => item.name === 'Params');
+  if (!block) {
+    return [];
+  }
+
+  const body = code.slice(block.openIndex + 1, block.closeIndex);
+  return [...body.matchAll(/^\s*final\s+([^;=]+?)\s+(\w+)\s*;/gm)].map(([, type, name]) => {
+    const defaultIndex = body.search(new RegExp(`\\bthis\\.${name}\\s*=`));
+    const defaultValue =
+      defaultIndex === -1
+        ? undefined
+        : source
+            .slice(block.openIndex + 1 + defaultIndex)
+            .match(/=\s*([^,})]+)/)?.[1]
+            .trim();
+    return {
+      name,
+      type: type.replace(/\?$/, ''),
+      nullable: type.endsWith('?'),
+      defaultValue,
+    };
+  });
+}
+
+/**
+ * 🌐 FUNCTION: Use the HTTP methods the remote datasource really calls
+ *
+ * The template guesses them (post with parameters, get without), the
+ * datasource may have been changed since it was generated.
+ */
+function useHttpMethods(context: TemplateContext, source: string, className: string) {
+  const block = getTopLevelBlocks(source).find((item) => item.name === className);
+  if (!block) {
+    return;
+  }
+
+  const members = getBlockMembers(source, block).map((member) => maskDartCode(member));
+  (context.methods as TemplateContext[]).forEach((method) => {
+    const member = members.find((item) => new RegExp(`\\b${method.name}\\s*\\(`).test(item));
+    const httpMethod = member?.match(/\.(get|post|put|patch|delete)\s*\(/)?.[1];
+    if (httpMethod) {
+      method.http_method = httpMethod;
+    }
+  });
+}
+
+/**
+ * 🏗️ FUNCTION: Whether a repository or datasource implementation has the constructor of its template
+ *
+ * The test templates build the implementation with mocks of the template
+ * dependencies, in this order, so a test of another constructor would not
+ * compile. A warning tells which constructor was found.
+ */
+function hasTemplateConstructor(
+  artifact: FeatureArtifact,
+  source: string,
+  repositoryName: string,
+  hasLocalDatasource: boolean,
+): boolean {
+  const repositoryClass = pascalCase(repositoryName);
+  let className = `${repositoryClass}RepositoryImpl`;
+  let expected = [`I${repositoryClass}RemoteDataSource`];
+  if (hasLocalDatasource) {
+    expected.push(`I${repositoryClass}LocalDataSource`);
+  }
+  if (artifact.name.endsWith('_remote_data_source')) {
+    className = `${repositoryClass}RemoteDataSourceImpl`;
+    expected = ['IApiRequestHandler'];
+  } else if (artifact.name.endsWith('_local_data_source')) {
+    className = `${repositoryClass}LocalDataSourceImpl`;
+    expected = ['ILocalStorageHandler'];
+  }
+
+  const parameters = getConstructorParameters(source, className);
+  if (!parameters) {
+    window.showWarningMessage(`⚠️ ${artifact.name}: class ${className} not found`);
+    return false;
+  }
+  const found = parameters.map((parameter) =>
+    parameter.named ? `{${parameter.type} ${parameter.name}}` : parameter.type,
+  );
+  if (found.join(', ') !== expected.join(', ')) {
+    window.showWarningMessage(
+      `⚠️ ${artifact.name}: ${className}(${found.join(', ')}) is not built like the template (${expected.join(', ')}), write its test by hand`,
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 🔍 FUNCTION: Index of the parenthesis that closes the arguments starting at `start`
+ */
+function findClosingParenthesis(code: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < code.length; i++) {
+    if (code[i] === '(') {
+      depth++;
+    } else if (code[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return code.length;
+}
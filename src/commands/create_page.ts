@@ -0,0 +1,371 @@
+import { readFileSync } from 'fs';
+import { Uri, window } from 'vscode';
+import * as utils from '../utils/tools';
+import { renderDartTemplate, TemplateContext } from '../utils/template_engine';
+import fs = require('fs');
+import path = require('path');
+import { getPageName } from '../utils/tools';
+import { getBlockMembers, getTopLevelBlocks, maskDartCode } from '../utils/dart_source';
+import { buildReturnContext, getEntityImports, getFakeClasses } from '../utils/dart_fields';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+import { readGenericArguments } from '../utils/bloc_files';
+import { getClickedFeature } from '../utils/feature_artifacts';
+import { loadGenerator, resolveGeneratorFiles } from '../utils/template_manifest';
+
+/**
+ * 📋 INTERFACE: Information extracted from an existing Bloc or Cubit file
+ */
+interface BlocInfo {
+  /** Dart class name (ex: AuthenticationBloc) */
+  className: string;
+  /** File name inside presentation/blocs/ (ex: authentication_bloc.dart) */
+  fileName: string;
+  isCubit: boolean;
+  /** Event type of a Bloc (ex: AuthenticationEvent), undefined for a Cubit */
+  eventType?: string;
+  /** State type (ex: AuthenticationState) */
+  stateType: string;
+  /** Dart expression passed to `super` (ex: const AuthenticationInitial()) */
+  initialState?: string;
+  /** Whether the state type is `sealed`, so a `switch` over it is exhaustive */
+  isSealed: boolean;
+  /** States that extend the state type, in the order of the source */
+  states: StateInfo[];
+}
+
+/**
+ * 📋 INTERFACE: A state of a Bloc or a Cubit
+ */
+interface StateInfo {
+  /** Dart class name (ex: AuthenticationLoading) */
+  name: string;
+  /** Final fields of the state, in the order of the source */
+  fields: { name: string; type: string }[];
+  /** Constructor parameters, undefined when the constructor cannot be called from a test */
+  parameters?: { name: string; named: boolean }[];
+  /** Whether the constructor is `const` */
+  isConst: boolean;
+}
+
+/** Field types displayed with their `message` and mocked with the `tFailure` of the tests */
+const FAILURE_TYPES = ['Failure', 'ServerFailure'];
+
+/**
+ * 🎯 MAIN FUNCTION: Creates a page or a widget wired to a Bloc or Cubit of the feature
+ *
+ * This function creates:
+ * 1. A page in lib/src/{feature}/presentation/pages/ that provides the bloc
+ *    obtained from `sl`, listens to it and builds a widget for each state,
+ *    or a widget in presentation/widgets/ that builds a widget for each state
+ * 2. The corresponding widget test in test/src/{feature}/presentation/pages/
+ *    (or widgets/) with a mocked bloc
+ *
+ * The states are read from the existing bloc files of the feature.
+ *
+ * @param uri - URI of the folder where the command was executed
+ */
+export async function createPage(uri: Uri) {
+  // 📁 STEP 1: Get project information and context
+  const clickedFolder = utils.getClickedFolder(uri);
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+  let packageName = await utils.getPackageName(uri);
+  packageName = packageName.replaceAll('\\', '/');
+
+  // 🔍 STEP 2: Extract feature name from the clicked folder path
+  const featureName = getClickedFeature(rootFolder, uri);
+  if (!featureName) {
+    window.showErrorMessage(
+      'Could not determine feature name from the selected folder. Please select a folder within a feature.',
+    );
+    return;
+  }
+
+  // 🧩 STEP 3: Pick the Bloc or Cubit of the feature
+  const blocsFolder = `${rootFolder}/lib/src/${featureName}/presentation/blocs`;
+  const availableBlocs = getFeatureBlocs(blocsFolder);
+  if (availableBlocs.length === 0) {
+    window.showErrorMessage(
+      `❌ No Bloc or Cubit found in 'lib/src/${featureName}/presentation/blocs/'. Please create one first.`,
+    );
+    return;
+  }
+
+  let bloc = availableBlocs[0];
+  if (availableBlocs.length > 1) {
+    const picked = await window.showQuickPick(
+      availableBlocs.map((item) => ({
+        label: item.className,
+        description: item.isCubit ? 'Cubit' : 'Bloc',
+        detail: `${item.states.length} states`,
+        bloc: item,
+      })),
+      { title: 'Create Page or Widget', placeHolder: 'Select the Bloc or Cubit to use' },
+    );
+    if (!picked) {
+      return;
+    }
+    bloc = picked.bloc;
+  }
+  if (!bloc.initialState) {
+    window.showErrorMessage(
+      `❌ Could not find the initial state of ${bloc.className} in '${bloc.fileName}'.`,
+    );
+    return;
+  }
+  if (bloc.states.length === 0) {
+    window.showWarningMessage(
+      `⚠️ No states of ${bloc.stateType} were found, every state will render an empty widget.`,
+    );
+  }
+
+  // 📝 STEP 4: Get the kind and the name from user input
+  const kind = await window.showQuickPick(['Page', 'Widget'], {
+    title: 'Create Page or Widget',
+    placeHolder: 'Generate a Page (provides the bloc) or a Widget (uses the provided bloc)?',
+  });
+  if (kind !== 'Page' && kind !== 'Widget') {
+    return;
+  }
+  const pageName = await getPageName(kind);
+  if (!pageName) {
+    return; // User cancelled or didn't enter a name
+  }
+
+  try {
+    // 📂 STEP 5: Resolve the templates of the page or the widget from the manifest
+    const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+    const context: TemplateContext = {
+      feature_name: featureName,
+      [kind === 'Page' ? 'page_name' : 'widget_name']: pageName,
+      package_name: packageName,
+      custom_folder: clickedFolder,
+      root_folder: rootFolder,
+      ...buildBlocContext(bloc),
+    };
+    const templates = resolveGeneratorFiles(
+      loadGenerator(templateBaseFolder, kind === 'Page' ? 'page' : 'widget'),
+      templateBaseFolder,
+      rootFolder,
+      context,
+    );
+
+    // 🔄 STEP 6: Render each template
+    const plannedFiles: PlannedFile[] = [];
+    for (const template of templates) {
+      if (fs.existsSync(template.templatePath)) {
+        plannedFiles.push({
+          path: template.destinationPath,
+          content: renderDartTemplate(template.templatePath, context),
+          type: template.type,
+        });
+      } else {
+        window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+      }
+    }
+    if (plannedFiles.length === 0) {
+      window.showErrorMessage('❌ No files were created. Please check that the templates exist.');
+      return;
+    }
+
+    // 👀 STEP 7: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles('Create Page or Widget', plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
+
+    // 🎉 STEP 8: Show results
+    window.showInformationMessage(
+      `🎉 ${kind} '${pageName}' created successfully! ${describeWriteResult(result)}.`,
+    );
+  } catch (error) {
+    console.error('Error creating page:', error);
+    window.showErrorMessage(`❌ Error creating page: ${error}`);
+    throw error;
+  }
+}
+
+/**
+ * 🔍 FUNCTION: List the Blocs and Cubits of a feature
+ *
+ * Reads every `*_bloc.dart` and `*_cubit.dart` file in the given folder,
+ * their states are read from the file itself and its `part` files.
+ *
+ * @param blocsFolder - Path to lib/src/{feature}/presentation/blocs
+ * @returns Array with the information of each bloc found
+ */
+function getFeatureBlocs(blocsFolder: string): BlocInfo[] {
+  if (!fs.existsSync(blocsFolder)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(blocsFolder)
+    .filter((file) => file.endsWith('_bloc.dart') || file.endsWith('_cubit.dart'))
+    .map((file) => parseBlocFile(blocsFolder, file))
+    .filter((bloc): bloc is BlocInfo => bloc !== undefined);
+}
+
+/**
+ * 🔍 FUNCTION: Parse a Bloc or Cubit file
+ *
+ * Looks for the class that extends `Bloc<Event, State>` or `Cubit<State>`,
+ * the initial state passed to `super` and the states declared in its parts.
+ */
+function parseBlocFile(blocsFolder: string, fileName: string): BlocInfo | undefined {
+  const content = readFileSync(`${blocsFolder}/${fileName}`, 'utf8');
+  const code = maskDartCode(content);
+  const classMatch = code.match(/class\s+(\w+)\s+extends\s+(Bloc|Cubit)\s*</);
+  if (!classMatch) {
+    console.log(`⚠️ No Bloc or Cubit class found in: ${fileName}`);
+    return undefined;
+  }
+  const isCubit = classMatch[2] === 'Cubit';
+  const typeArguments = readGenericArguments(code, code.indexOf('<', classMatch.index!));
+  const stateType = isCubit ? typeArguments[0] : typeArguments[1];
+  if (!stateType) {
+    return undefined;
+  }
+
+  // The states usually live in the `part` files (ex: authentication_state.dart)
+  const sources = [content];
+  for (const part of content.matchAll(/^part\s+['"]([^'"]+)['"]\s*;/gm)) {
+    const partPath = path.join(blocsFolder, part[1]);
+    if (fs.existsSync(partPath)) {
+      sources.push(readFileSync(partPath, 'utf8'));
+    }
+  }
+
+  return {
+    className: classMatch[1],
+    fileName,
+    isCubit,
+    eventType: isCubit ? undefined : typeArguments[0],
+    stateType,
+    initialState: content
+      .slice(classMatch.index)
+      .match(/\bsuper\(\s*((?:const\s+)?\w+\s*\([^()]*\))\s*\)/)?.[1],
+    isSealed: sources.some((source) =>
+      new RegExp(`\\bsealed\\s+class\\s+${stateType}\\b`).test(maskDartCode(source)),
+    ),
+    states: sources.flatMap((source) => parseStates(source, stateType)),
+  };
+}
+
+/**
+ * 🔍 FUNCTION: Parse the concrete states that extend `stateType` in a source
+ *
+ * Abstract and sealed sub states are skipped, their children are kept.
+ */
+function parseStates(content: string, stateType: string): StateInfo[] {
+  const code = maskDartCode(content);
+  const blocks = getTopLevelBlocks(content);
+  const states: StateInfo[] = [];
+  const statePattern = new RegExp(
+    `^([ \\t]*(?:\\w+[ \\t]+)*)class\\s+(\\w+)\\s+extends\\s+${stateType}\\b`,
+    'gm',
+  );
+
+  for (const match of code.matchAll(statePattern)) {
+    const name = match[2];
+    const block = blocks.find((item) => item.name === name);
+    if (/\b(?:abstract|sealed)\b/.test(match[1]) || !block) {
+      continue;
+    }
+
+    const fields = getBlockMembers(content, block)
+      .map((member) => maskDartCode(member).match(/^\s*final\s+(.+?)\s+(\w+)\s*;/m))
+      .filter((field): field is RegExpMatchArray => field !== null)
+      .map((field) => ({ name: field[2], type: field[1].trim() }));
+
+    const body = code.slice(block.openIndex, block.closeIndex);
+    const constructor = body.match(new RegExp(`(const\\s+)?\\b${name}\\s*\\(([^)]*)\\)`));
+    states.push({
+      name,
+      fields,
+      parameters: constructor ? parseParameters(constructor[2], fields) : [],
+      isConst: !!constructor?.[1],
+    });
+  }
+
+  return states;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Parameters of a constructor that only uses `this.field`
+ *
+ * Ex: `this.data, {required this.page}` → data (positional), page (named)
+ *
+ * @returns The parameters, or undefined when one of them is not a field of the state
+ */
+function parseParameters(parameters: string, fields: StateInfo['fields']): StateInfo['parameters'] {
+  const result: { name: string; named: boolean }[] = [];
+  let named = false;
+
+  for (const parameter of parameters.split(',')) {
+    named = named || parameter.includes('{');
+    const text = parameter.replace(/[{}[\]]/g, '').trim();
+    if (!text) {
+      continue;
+    }
+    const name = text.match(/^(?:required\s+)?this\.(\w+)/)?.[1];
+    if (!name || !fields.some((field) => field.name === name)) {
+      return undefined;
+    }
+    result.push({ name, named });
+  }
+
+  return result;
+}
+
+/**
+ * 🧩 FUNCTION: Build the template values of the selected bloc
+ *
+ * Every state gets the flags used to pick its widget (is_loading,
+ * failure_field, display_field) and test_state, a Dart expression
+ * that builds it in the tests (null when its constructor is not supported).
+ */
+function buildBlocContext(bloc: BlocInfo): TemplateContext {
+  const testTypes: string[] = [];
+
+  const states = bloc.states.map((state) => {
+    const failureField = state.fields.find((field) => FAILURE_TYPES.includes(field.type));
+    const values = state.parameters?.map((parameter) => {
+      const type = state.fields.find((field) => field.name === parameter.name)!.type;
+      let value = 'tFailure';
+      if (!FAILURE_TYPES.includes(type)) {
+        testTypes.push(type);
+        value = buildReturnContext(type).test_result as string;
+      }
+      return parameter.named ? `${parameter.name}: ${value}` : value;
+    });
+
+    let testState: string | null = null;
+    if (values) {
+      const constructor = `${state.name}(${values.join(', ')})`;
+      testState = state.isConst && values.length === 0 ? `const ${constructor}` : constructor;
+    }
+
+    return {
+      name: state.name,
+      is_loading: state.fields.length === 0 && /Loading$/.test(state.name),
+      failure_field: failureField?.name ?? null,
+      display_field: failureField ? null : (state.fields[0]?.name ?? null),
+      test_state: testState,
+    };
+  });
+
+  return {
+    holder_name: bloc.className,
+    holder_file: bloc.fileName,
+    is_cubit: bloc.isCubit,
+    event_type: bloc.eventType ?? null,
+    state_type: bloc.stateType,
+    initial_state: bloc.initialState ?? null,
+    is_sealed: bloc.isSealed,
+    any_failure: states.some((state) => state.failure_field !== null),
+    states,
+    fake_classes: getFakeClasses(testTypes),
+    entity_imports: getEntityImports(testTypes),
+  };
+}
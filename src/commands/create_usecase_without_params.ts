@@ -1,9 +1,18 @@
-import { readFileSync } from 'fs';
 import { Uri, window } from 'vscode';
 import * as utils from '../utils/tools';
+import { renderDartTemplate, TemplateContext } from '../utils/template_engine';
+import {
+  askGeneratorPrompts,
+  GeneratorManifest,
+  getGeneratorRegistrations,
+  loadGenerator,
+  pickGeneratorFiles,
+} from '../utils/template_manifest';
 import fs = require('fs');
-import { dirname } from 'path';
-import { getUsecaseName } from '../utils/tools';
+import { planFeatureInjection } from '../utils/injection';
+import { buildParamsContext } from '../utils/dart_fields';
+import { describeWriteResult, PlannedFile, previewAndWriteFiles } from '../utils/file_preview';
+import { getClickedFeature } from '../utils/feature_artifacts';
 
 /**
  * 🎯 MAIN FUNCTION: Creates a new Use Case with its test
@@ -14,6 +23,9 @@ import { getUsecaseName } from '../utils/tools';
  *
  * It NO LONGER creates repository or datasource (those will be done separately)
  *
+ * The prompts, files and registrations come from the 'usecase_without_params' generator
+ * of the template manifest (.my_templates/flutter_tdd_clean_templates/manifest.yaml).
+ *
  * @param uri - URI of the folder where the command was executed
  */
 export async function createUsecaseWithoutParams(uri: Uri) {
@@ -23,15 +35,26 @@ export async function createUsecaseWithoutParams(uri: Uri) {
   rootFolder = rootFolder.replaceAll('\\', '/');
   let packageName = await utils.getPackageName(uri);
   packageName = packageName.replaceAll('\\', '/');
+  const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
+
+  // 🧭 STEP 2: Load the 'usecase_without_params' generator from the template manifest
+  let generator: GeneratorManifest;
+  try {
+    generator = loadGenerator(templateBaseFolder, 'usecase_without_params');
+  } catch (error) {
+    console.error('Error loading template manifest:', error);
+    window.showErrorMessage(`❌ Error loading template manifest: ${error}`);
+    return;
+  }
 
-  // 📝 STEP 2: Get the use case name from user input
-  const usecaseName = await getUsecaseName();
-  if (!usecaseName) {
+  // 📝 STEP 3: Get the use case name from user input
+  const answers = await askGeneratorPrompts(generator);
+  if (!answers) {
     return; // User cancelled or didn't enter a name
   }
 
-  // 🔍 STEP 3: Extract feature name from the clicked folder path
-  const featureName = getFeatureNameFromPath(clickedFolder);
+  // 🔍 STEP 4: Extract feature name from the clicked folder path
+  const featureName = getClickedFeature(rootFolder, uri);
   if (!featureName) {
     window.showErrorMessage(
       'Could not determine feature name from the selected folder. Please select a folder within a feature.',
@@ -40,201 +63,66 @@ export async function createUsecaseWithoutParams(uri: Uri) {
   }
 
   try {
-    // 📂 STEP 4: Define specific templates for use cases
-    const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
-
-    const usecaseTemplates = [
-      {
-        templatePath: `${templateBaseFolder}/feature/usecase/no_params/{{usecase_name.snakeCase}}_usecase.template`,
-        destinationPath: `${rootFolder}/lib/src/${featureName}/domain/usecases/${usecaseName}_usecase.dart`,
-        type: 'usecase',
-      },
-      {
-        templatePath: `${templateBaseFolder}/test/usecase/no_params/{{usecase_name.snakeCase}}_usecase_test.template`,
-        destinationPath: `${rootFolder}/test/src/${featureName}/domain/usecases/${usecaseName}_usecase_test.dart`,
-        type: 'test',
-      },
-    ];
-
-    let filesCreated = 0;
+    // 📂 STEP 5: Resolve the templates declared in the manifest
+    const context: TemplateContext = {
+      feature_name: featureName,
+      package_name: packageName,
+      custom_folder: clickedFolder,
+      root_folder: rootFolder,
+      ...answers,
+      // Nothing is returned until the use case is bound to a repository method
+      ...buildParamsContext([], 'void'),
+    };
+    const usecaseTemplates = await pickGeneratorFiles(
+      generator,
+      templateBaseFolder,
+      rootFolder,
+      context,
+    );
+    if (!usecaseTemplates) {
+      return;
+    }
 
-    // 🔄 STEP 5: Process each template
+    // 🔄 STEP 6: Render each template
+    const plannedFiles: PlannedFile[] = [];
     for (const template of usecaseTemplates) {
       if (fs.existsSync(template.templatePath)) {
-        await processUsecaseTemplate(template.templatePath, template.destinationPath, {
-          featureName,
-          usecaseName,
-          packageName,
-          clickedFolder,
-          rootFolder,
+        plannedFiles.push({
+          path: template.destinationPath,
+          content: renderDartTemplate(template.templatePath, context),
+          type: template.type,
         });
-        filesCreated++;
-        console.log(`✅ Created ${template.type}: ${template.destinationPath}`);
       } else {
         window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
       }
     }
-
-    // 🎉 STEP 6: Show results
-    if (filesCreated > 0) {
-      window.showInformationMessage(
-        `🎉 Use Case '${usecaseName}' created successfully! ${filesCreated} files generated.`,
-      );
-    } else {
+    if (plannedFiles.length === 0) {
       window.showErrorMessage('❌ No files were created. Please check that the templates exist.');
+      return;
     }
-  } catch (error) {
-    console.error('Error creating use case:', error);
-    window.showErrorMessage(`❌ Error creating use case: ${error}`);
-    throw error;
-  }
-}
-
-/**
- * 🔄 FUNCTION: Process an individual use case template
- *
- * Reads the template, replaces all placeholders and writes the final file.
- *
- * @param templatePath - Path to the template file
- * @param destinationPath - Path where to create the final file
- * @param placeholders - Object with all values to replace
- */
-async function processUsecaseTemplate(
-  templatePath: string,
-  destinationPath: string,
-  placeholders: {
-    featureName: string;
-    usecaseName: string;
-    packageName: string;
-    clickedFolder: string;
-    rootFolder: string;
-  },
-) {
-  try {
-    // 📖 Read template content
-    let templateContent = readFileSync(templatePath, 'utf8');
 
-    // 🔄 Replace placeholders in content
-    templateContent = replacePlaceholdersInContent(templateContent, placeholders);
+    // 💉 STEP 7: Register the generated classes in the feature injection file
+    plannedFiles.push(
+      ...planFeatureInjection(
+        rootFolder,
+        featureName,
+        getGeneratorRegistrations(generator, context),
+      ),
+    );
 
-    // 🎨 Fix Dart-specific imports
-    templateContent = fixDartImports(templateContent, placeholders.packageName);
+    // 👀 STEP 8: Preview the files and write the ones the user confirms
+    const result = await previewAndWriteFiles(generator.title, plannedFiles);
+    if (!result) {
+      return; // User cancelled, nothing was written
+    }
 
-    // 💾 Write the final file
-    await writeFileExtPromise(destinationPath, templateContent);
+    // 🎉 STEP 9: Show results
+    window.showInformationMessage(
+      `🎉 Use Case '${answers.usecase_name}' created successfully! ${describeWriteResult(result)}.`,
+    );
   } catch (error) {
-    console.error(`Error processing template ${templatePath}:`, error);
+    console.error('Error creating use case:', error);
+    window.showErrorMessage(`❌ Error creating use case: ${error}`);
     throw error;
   }
 }
-
-/**
- * 🔄 FUNCTION: Replace placeholders in content
- *
- * Replaces all placeholders with their format variants:
- * - {{placeholder}} → original value
- * - {{placeholder.lowerCase}} → in lowercase
- * - {{placeholder.upperCase}} → in UPPERCASE
- * - {{placeholder.snakeCase}} → in snake_case
- * - {{placeholder.pascalCase}} → in PascalCase
- * - {{placeholder.camelCase}} → in camelCase
- */
-function replacePlaceholdersInContent(content: string, placeholders: any): string {
-  let result = content;
-
-  // List of all available placeholders
-  const allPlaceholders: any = {
-    feature_name: placeholders.featureName,
-    usecase_name: placeholders.usecaseName,
-    package_name: placeholders.packageName,
-    custom_folder: placeholders.clickedFolder,
-    root_folder: placeholders.rootFolder,
-  };
-
-  // Replace each placeholder with all its variants
-  Object.keys(allPlaceholders).forEach((key) => {
-    const value = allPlaceholders[key];
-    result = result.replaceName(`{{${key}}}`, value);
-    result = result.replaceName(`{{${key}.lowerCase}}`, value);
-    result = result.replaceName(`{{${key}.upperCase}}`, value);
-    result = result.replaceName(`{{${key}.snakeCase}}`, value);
-    result = result.replaceName(`{{${key}.pascalCase}}`, value);
-    result = result.replaceName(`{{${key}.camelCase}}`, value);
-  });
-
-  return result;
-}
-
-/**
- * 🎨 FUNCTION: Fix Dart imports
- *
- * Replaces hardcoded package references in imports
- * to use the correct name of the current package.
- */
-function fixDartImports(content: string, packageName: string): string {
-  return content.replace(/package:gymtor\//g, `package:${packageName}/`);
-}
-
-/**
- * 🔍 FUNCTION: Extract feature name from clicked path
- *
- * Looks for common patterns in Clean Architecture structure
- * to automatically determine the feature name.
- *
- * Supported patterns:
- * - /src/FEATURE_NAME/domain/...
- * - /lib/src/FEATURE_NAME/...
- * - /test/src/FEATURE_NAME/...
- */
-function getFeatureNameFromPath(clickedFolder: string): string {
-  const pathParts = clickedFolder.split('/');
-
-  // Look for 'src' index in the path
-  const srcIndex = pathParts.indexOf('src');
-
-  if (srcIndex !== -1 && srcIndex + 1 < pathParts.length) {
-    // Feature name is right after 'src'
-    return pathParts[srcIndex + 1];
-  }
-
-  // If we don't find 'src', try other patterns
-  const domainIndex = pathParts.indexOf('domain');
-  if (domainIndex !== -1 && domainIndex - 1 >= 0) {
-    // Feature name is right before 'domain'
-    return pathParts[domainIndex - 1];
-  }
-
-  // As last resort, use the second-to-last element of the path
-  if (pathParts.length >= 2) {
-    return pathParts[pathParts.length - 2];
-  }
-
-  return '';
-}
-
-/**
- * 💾 FUNCTION: File writing with Promises
- *
- * Creates necessary directories and writes the file asynchronously.
- */
-function writeFileExtPromise(path: string, contents: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    fs.mkdir(dirname(path), { recursive: true }, function (err: any) {
-      if (err) {
-        console.error('Error creating directory:', err);
-        reject(err);
-        return;
-      }
-
-      fs.writeFile(path, contents, 'utf8', (error) => {
-        if (error) {
-          console.error('Error writing file:', path, error);
-          reject(error);
-        } else {
-          console.log('✅ Created file:', path);
-          resolve();
-        }
-      });
-    });
-  });
-}
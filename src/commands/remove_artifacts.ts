@@ -0,0 +1,212 @@
+import { Position, Range, Selection, Uri, window, workspace } from 'vscode';
+import fs = require('fs');
+import path = require('path');
+import * as utils from '../utils/tools';
+import { getLayerRules } from '../utils/layer_rules';
+import {
+  getClickedFeature,
+  getFeatureFolders,
+  getFeatures,
+  pickFeatureArtifact,
+} from '../utils/feature_artifacts';
+import { findNamedFiles, saveEditedFiles } from '../utils/rename_refactoring';
+import { buildRemovalEdit, planRemoval, RemainingUsage } from '../utils/safe_removal';
+
+/**
+ * 🎯 MAIN FUNCTION: Removes a feature
+ *
+ * Deletes lib/src/{feature}/ and test/src/{feature}/, removes the import and
+ * the `init{Feature}Feature()` call of the injection container, and warns
+ * about the other files that still use the feature.
+ *
+ * @param uri - URI of the feature folder (or a folder inside it), or of the app to pick the feature
+ */
+export async function removeFeature(uri: Uri) {
+  const title = 'Remove Feature';
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+
+  // 🔍 STEP 1: Feature to remove
+  let featureName = getClickedFeature(rootFolder, uri);
+  if (!featureName) {
+    featureName = await window.showQuickPick(getFeatures(rootFolder), {
+      title,
+      placeHolder: 'Select the feature to remove',
+    });
+  }
+  if (!featureName) {
+    return;
+  }
+
+  // 🗑️ STEP 2: Folders of the feature
+  await applyRemoval(
+    uri,
+    rootFolder,
+    `Remove feature ${featureName}`,
+    getFeatureFolders(rootFolder, featureName).filter((folder) => fs.existsSync(folder)),
+  );
+}
+
+/**
+ * 🎯 MAIN FUNCTION: Removes a use case
+ *
+ * Deletes the use case file and its test, removes its registration, and warns
+ * about the other files that still use it (ex: the blocs and their tests).
+ *
+ * @param uri - URI of the use case file, or of a feature or the app to pick the use case
+ */
+export async function removeUsecase(uri: Uri) {
+  const title = 'Remove Use Case';
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+
+  // 🔍 STEP 1: Use case to remove
+  const picked = await pickFeatureArtifact(
+    rootFolder,
+    uri,
+    ['usecase'],
+    title,
+    'Select the use case to remove',
+  );
+  if (!picked) {
+    return;
+  }
+  const usecaseName = picked.artifact.name.replace(/_usecase$/, '');
+
+  // 🗑️ STEP 2: Files of the use case in the feature
+  await applyRemoval(
+    uri,
+    rootFolder,
+    `Remove use case ${usecaseName}`,
+    findNamedFiles(getFeatureFolders(rootFolder, picked.featureName), [`${usecaseName}_usecase`]),
+  );
+}
+
+/**
+ * 🎯 MAIN FUNCTION: Removes a repository
+ *
+ * Deletes the interface, the implementation, the datasources and their tests,
+ * removes their registrations, and warns about the other files that still use
+ * them (ex: the use cases and their tests).
+ *
+ * @param uri - URI of a file of the repository, or of a feature or the app to pick the repository
+ */
+export async function removeRepository(uri: Uri) {
+  const title = 'Remove Repository';
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+
+  // 🔍 STEP 1: Repository to remove, from any of its files
+  const picked = await pickFeatureArtifact(
+    rootFolder,
+    uri,
+    ['repository', 'repositoryImpl', 'datasource'],
+    title,
+    'Select the repository to remove',
+  );
+  if (!picked) {
+    return;
+  }
+  const repositoryName = picked.artifact.name.replace(
+    /^i_|_(repository|repository_impl|remote_data_source|local_data_source)$/g,
+    '',
+  );
+
+  // 🗑️ STEP 2: Files of the repository in the feature
+  const names = ['repository', 'remote_data_source', 'local_data_source'].map(
+    (suffix) => `${repositoryName}_${suffix}`,
+  );
+  await applyRemoval(
+    uri,
+    rootFolder,
+    `Remove repository ${repositoryName}`,
+    findNamedFiles(getFeatureFolders(rootFolder, picked.featureName), names),
+  );
+}
+
+/**
+ * 🗑️ FUNCTION: Plan, confirm, apply and save a removal
+ *
+ * The summary is confirmed in a modal dialog, the edit can be undone in one step.
+ */
+async function applyRemoval(uri: Uri, rootFolder: string, label: string, deletions: string[]) {
+  try {
+    if (deletions.length === 0) {
+      window.showErrorMessage(`❌ ${label}: no file found.`);
+      return;
+    }
+
+    let packageName = await utils.getPackageName(uri);
+    packageName = packageName.replaceAll('\\', '/');
+
+    // 📋 STEP 1: Summary of the removal
+    const plan = planRemoval(
+      rootFolder,
+      packageName,
+      label,
+      deletions,
+      getLayerRules().featureBarrel,
+    );
+    const relative = (filePath: string) => path.posix.relative(rootFolder, filePath);
+    const detail = [
+      `Delete:\n${plan.deletions.map((file) => `  ${relative(file)}`).join('\n')}`,
+      plan.cleanups.length > 0 &&
+        `Clean up:\n${plan.cleanups.map((cleanup) => `  ${relative(cleanup.filePath)}`).join('\n')}`,
+      plan.usages.length > 0 &&
+        `⚠️ ${plan.usages.length} usages left in ${new Set(plan.usages.map((usage) => usage.filePath)).size} files, to fix by hand.`,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+    const confirmation = await window.showWarningMessage(label, { modal: true, detail }, 'Remove');
+    if (confirmation !== 'Remove') {
+      return;
+    }
+
+    // 🧹 STEP 2: Clean ups and deletions
+    const edit = buildRemovalEdit(plan);
+    if (!(await workspace.applyEdit(edit))) {
+      return;
+    }
+    await saveEditedFiles(edit);
+
+    // ⚠️ STEP 3: Usages left in hand-written code
+    if (plan.usages.length === 0) {
+      window.showInformationMessage(
+        `🎉 ${label}: ${plan.deletions.length} deleted, ${plan.cleanups.length} files cleaned up.`,
+      );
+      return;
+    }
+    const action = await window.showWarningMessage(
+      `⚠️ ${label}: ${plan.deletions.length} deleted, ${plan.cleanups.length} files cleaned up, ${plan.usages.length} usages left to fix.`,
+      'Show usages',
+    );
+    if (action === 'Show usages') {
+      await showUsages(rootFolder, plan.usages);
+    }
+  } catch (error: any) {
+    console.error('Error removing:', error);
+    window.showErrorMessage(`❌ ${label} failed: ${error.message ?? error}`);
+  }
+}
+
+/**
+ * 📝 HELPER FUNCTION: Pick a usage left and open it
+ */
+async function showUsages(rootFolder: string, usages: RemainingUsage[]) {
+  const selected = await window.showQuickPick(
+    usages.map((usage) => ({
+      label: usage.text,
+      description: `${path.posix.relative(rootFolder, usage.filePath)}:${usage.line + 1}`,
+      usage,
+    })),
+    { title: 'Usages left', placeHolder: 'Select a usage to fix' },
+  );
+  if (!selected) {
+    return;
+  }
+
+  const editor = await window.showTextDocument(Uri.file(selected.usage.filePath));
+  const position = new Position(selected.usage.line, 0);
+  editor.selection = new Selection(position, position);
+  editor.revealRange(new Range(position, position));
+}
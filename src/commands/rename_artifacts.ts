@@ -0,0 +1,227 @@
+import { Uri, window, workspace } from 'vscode';
+import fs = require('fs');
+import * as utils from '../utils/tools';
+import { renderTemplate } from '../utils/template_engine';
+import { getLayerRules } from '../utils/layer_rules';
+import {
+  getClickedFeature,
+  getFeatureFolders,
+  getFeatures,
+  pickFeatureArtifact,
+} from '../utils/feature_artifacts';
+import {
+  buildRenameEdit,
+  getFileMoves,
+  getMovedPath,
+  RenameRefactoring,
+  saveEditedFiles,
+} from '../utils/rename_refactoring';
+
+/**
+ * 🎯 MAIN FUNCTION: Renames a feature
+ *
+ * Moves lib/src/{feature}/ and test/src/{feature}/, renames the injection
+ * file with its `init{Feature}Feature()` and the public barrel of the feature,
+ * and updates every import of lib/ and test/.
+ *
+ * @param uri - URI of the feature folder (or a folder inside it), or of the app to pick the feature
+ */
+export async function renameFeature(uri: Uri) {
+  const title = 'Rename Feature';
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+
+  // 🔍 STEP 1: Feature to rename
+  let featureName = getClickedFeature(rootFolder, uri);
+  if (!featureName) {
+    featureName = await window.showQuickPick(getFeatures(rootFolder), {
+      title,
+      placeHolder: 'Select the feature to rename',
+    });
+  }
+  if (!featureName) {
+    return;
+  }
+
+  // 📝 STEP 2: New name
+  const newName = await askNewName(title, 'Feature', featureName);
+  if (!newName) {
+    return;
+  }
+
+  // 🧩 STEP 3: Folders, then the injection file and the barrel inside them
+  const folderMoves = ['lib', 'test']
+    .map((folder) => ({
+      from: `${rootFolder}/${folder}/src/${featureName}`,
+      to: `${rootFolder}/${folder}/src/${newName}`,
+    }))
+    .filter((move) => fs.existsSync(move.from));
+  const names = [
+    { from: `${featureName}_feature`, to: `${newName}_feature` },
+    { from: `${featureName}_injection`, to: `${newName}_injection` },
+  ];
+  const fileMoves = getFileMoves([`${rootFolder}/lib/src/${featureName}/config`], names);
+
+  const { featureBarrel } = getLayerRules();
+  if (featureBarrel) {
+    const barrel = `${rootFolder}/lib/src/${featureName}/${renderTemplate(featureBarrel, { feature_name: featureName })}`;
+    if (fs.existsSync(barrel)) {
+      fileMoves.push({
+        from: barrel,
+        to: `${rootFolder}/lib/src/${featureName}/${renderTemplate(featureBarrel, { feature_name: newName })}`,
+      });
+    }
+  }
+
+  await applyRename(uri, rootFolder, {
+    label: `Rename feature ${featureName} → ${newName}`,
+    moves: [
+      ...folderMoves,
+      ...fileMoves.map((move) => ({
+        from: getMovedPath(move.from, folderMoves),
+        to: getMovedPath(move.to, folderMoves),
+      })),
+    ],
+    names,
+  });
+}
+
+/**
+ * 🎯 MAIN FUNCTION: Renames a use case
+ *
+ * Renames the use case file and its test, the `{Name}Usecase` class in all
+ * its case variants (ex: the mocks and the fields of the blocs) and its
+ * registration, and updates every import of lib/ and test/.
+ *
+ * @param uri - URI of the use case file, or of a feature or the app to pick the use case
+ */
+export async function renameUsecase(uri: Uri) {
+  const title = 'Rename Use Case';
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+
+  // 🔍 STEP 1: Use case to rename
+  const picked = await pickFeatureArtifact(
+    rootFolder,
+    uri,
+    ['usecase'],
+    title,
+    'Select the use case to rename',
+  );
+  if (!picked) {
+    return;
+  }
+  const usecaseName = picked.artifact.name.replace(/_usecase$/, '');
+
+  // 📝 STEP 2: New name
+  const newName = await askNewName(title, 'Use case', usecaseName);
+  if (!newName) {
+    return;
+  }
+
+  // 🧩 STEP 3: Files of the use case in the feature
+  const names = [{ from: `${usecaseName}_usecase`, to: `${newName}_usecase` }];
+  await applyRename(uri, rootFolder, {
+    label: `Rename use case ${usecaseName} → ${newName}`,
+    moves: getFileMoves(getFeatureFolders(rootFolder, picked.featureName), names),
+    names,
+  });
+}
+
+/**
+ * 🎯 MAIN FUNCTION: Renames a repository
+ *
+ * Renames the interface, the implementation, the datasources and their tests,
+ * the `I{Name}Repository`, `{Name}RepositoryImpl`, `{Name}RemoteDataSource`
+ * and `{Name}LocalDataSource` classes in all their case variants and their
+ * registrations, and updates every import of lib/ and test/.
+ *
+ * @param uri - URI of a file of the repository, or of a feature or the app to pick the repository
+ */
+export async function renameRepository(uri: Uri) {
+  const title = 'Rename Repository';
+  let rootFolder = utils.getRootFolder(uri);
+  rootFolder = rootFolder.replaceAll('\\', '/');
+
+  // 🔍 STEP 1: Repository to rename, from any of its files
+  const picked = await pickFeatureArtifact(
+    rootFolder,
+    uri,
+    ['repository', 'repositoryImpl', 'datasource'],
+    title,
+    'Select the repository to rename',
+  );
+  if (!picked) {
+    return;
+  }
+  const repositoryName = picked.artifact.name.replace(
+    /^i_|_(repository|repository_impl|remote_data_source|local_data_source)$/g,
+    '',
+  );
+
+  // 📝 STEP 2: New name
+  const newName = await askNewName(title, 'Repository', repositoryName);
+  if (!newName) {
+    return;
+  }
+
+  // 🧩 STEP 3: Files of the repository in the feature
+  const names = ['repository', 'remote_data_source', 'local_data_source'].map((suffix) => ({
+    from: `${repositoryName}_${suffix}`,
+    to: `${newName}_${suffix}`,
+  }));
+  await applyRename(uri, rootFolder, {
+    label: `Rename repository ${repositoryName} → ${newName}`,
+    moves: getFileMoves(getFeatureFolders(rootFolder, picked.featureName), names),
+    names,
+  });
+}
+
+/**
+ * 🚚 FUNCTION: Build, apply and save a rename refactoring
+ *
+ * The edit is shown in the refactor preview first, it can be undone in one step.
+ */
+async function applyRename(uri: Uri, rootFolder: string, refactoring: RenameRefactoring) {
+  try {
+    let packageName = await utils.getPackageName(uri);
+    packageName = packageName.replaceAll('\\', '/');
+
+    const edit = buildRenameEdit(rootFolder, packageName, refactoring);
+    if (!(await workspace.applyEdit(edit))) {
+      return; // User cancelled the refactor preview
+    }
+    await saveEditedFiles(edit, refactoring.moves);
+
+    window.showInformationMessage(
+      `🎉 ${refactoring.label}: ${refactoring.moves.length} files moved, ${edit.entries().length} files updated.`,
+    );
+  } catch (error: any) {
+    console.error('Error renaming:', error);
+    window.showErrorMessage(`❌ ${refactoring.label} failed: ${error.message ?? error}`);
+  }
+}
+
+/**
+ * 📝 HELPER FUNCTION: Ask the new snake_case name
+ */
+async function askNewName(
+  title: string,
+  kind: string,
+  currentName: string,
+): Promise<string | undefined> {
+  return window.showInputBox({
+    title,
+    prompt: `New name of the ${kind.toLowerCase()} '${currentName}'? (snake_case format)`,
+    value: currentName,
+    validateInput: function (value: string) {
+      if (!/^[a-z][a-z0-9_]*$/.test(value)) {
+        return 'Name is required, use lowercase letters, digits and underscores!';
+      }
+      if (value === currentName) {
+        return `${kind} is already named '${currentName}'`;
+      }
+      return null;
+    },
+  });
+}
@@ -5,28 +5,54 @@ import { createFolders } from './commands/create_folders';
 import { createUsecase } from './commands/create_usecase';
 import { createInitials } from './commands/create_initials';
 import { createRepository } from './commands/create_repository';
-import { getTemplatesFile, getUsecaseName } from './utils/tools';
+import { addRepositoryMethod } from './commands/add_repository_method';
+import { createBloc } from './commands/create_bloc';
+import { createPage } from './commands/create_page';
+import { createEntityFromJson } from './commands/create_entity_from_json';
+import { createFeatureFromSpec } from './commands/create_feature_from_spec';
+import { getRootFolder, getTemplatesFile } from './utils/tools';
 import { createUsecaseWithoutParams } from './commands/create_usecase_without_params';
 import {
   addCleanArchDependencies,
   checkCleanArchDependencies,
   previewCleanArchDependencies,
 } from './commands/create_dependencies_pubspec_last_avaible';
+import { registerFilePreviewProvider } from './utils/file_preview';
+import { setPubCacheFolder } from './utils/pub_client';
+import { checkLayers } from './commands/check_layers';
+import { createMissingTests } from './commands/create_missing_tests';
+import { renameFeature, renameRepository, renameUsecase } from './commands/rename_artifacts';
+import { removeFeature, removeRepository, removeUsecase } from './commands/remove_artifacts';
+import { checkTemplateUpdates } from './commands/check_template_updates';
+import { registerLayerDiagnostics } from './utils/layer_diagnostics';
+import { registerFeaturesView, withCommandUri } from './utils/features_view';
 
 export function activate(context: vscode.ExtensionContext) {
+  // 📦 Latest package versions cached for the offline mode
+  setPubCacheFolder(context.globalStorageUri.fsPath);
+
+  // 👀 Generated content shown in the diff view before writing
+  context.subscriptions.push(registerFilePreviewProvider());
+
+  // 🧱 Imports that break the Clean Architecture layers, shown in the Problems panel
+  context.subscriptions.push(registerLayerDiagnostics());
+
+  // 🌳 Features, layers and generated classes, with the generators as inline actions
+  context.subscriptions.push(registerFeaturesView());
+
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.createFolders',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         await createFolders(uri);
-      },
+      }),
     ),
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.createUsecase',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         // Check if specific use case templates exist
         if (await usecaseTemplatesOk(uri)) {
           await createUsecase(uri); // Pass the use case name
@@ -49,14 +75,14 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showErrorMessage(`Cannot continue without templates!`);
           }
         }
-      },
+      }),
     ),
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.createUsecaseNoParams',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         // Check if specific use case templates exist
         if (await usecaseTemplatesOk(uri)) {
           await createUsecaseWithoutParams(uri); // Pass the use case name
@@ -79,27 +105,72 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showErrorMessage(`Cannot continue without templates!`);
           }
         }
-      },
+      }),
     ),
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.createInitials',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         // Use the new createInitials function that handles all template files
         await createInitials(uri);
-      },
+      }),
     ),
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.createRepository',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         // Use the new createInitials function that handles all template files
         await createRepository(uri);
-      },
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.addRepositoryMethod',
+      withCommandUri(async (uri) => {
+        await addRepositoryMethod(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.createBloc',
+      withCommandUri(async (uri) => {
+        await createBloc(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.createPage',
+      withCommandUri(async (uri) => {
+        await createPage(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.createEntityFromJson',
+      withCommandUri(async (uri) => {
+        await createEntityFromJson(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.createFeatureFromSpec',
+      withCommandUri(async (uri) => {
+        await createFeatureFromSpec(uri);
+      }),
     ),
   );
 
@@ -107,9 +178,9 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.addDependencies',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         await addCleanArchDependencies(uri);
-      },
+      }),
     ),
   );
 
@@ -117,9 +188,9 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.previewDependencies',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         await previewCleanArchDependencies(uri);
-      },
+      }),
     ),
   );
 
@@ -127,16 +198,97 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       'tdd-clean-architecture.checkDependencies',
-      async (uri: vscode.Uri) => {
+      withCommandUri(async (uri) => {
         await checkCleanArchDependencies(uri);
-      },
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.checkLayers',
+      withCommandUri(async (uri) => {
+        await checkLayers(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.createMissingTests',
+      withCommandUri(async (uri) => {
+        await createMissingTests(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.renameFeature',
+      withCommandUri(async (uri) => {
+        await renameFeature(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.renameUsecase',
+      withCommandUri(async (uri) => {
+        await renameUsecase(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.renameRepository',
+      withCommandUri(async (uri) => {
+        await renameRepository(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.removeFeature',
+      withCommandUri(async (uri) => {
+        await removeFeature(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.removeUsecase',
+      withCommandUri(async (uri) => {
+        await removeUsecase(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.removeRepository',
+      withCommandUri(async (uri) => {
+        await removeRepository(uri);
+      }),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'tdd-clean-architecture.checkTemplateUpdates',
+      withCommandUri(async (uri) => {
+        await checkTemplateUpdates(uri);
+      }),
     ),
   );
 
   async function usecaseTemplatesOk(uri: vscode.Uri): Promise<boolean> {
     try {
-      // Get the root folder path
-      const rootFolder = uri.path.substring(1, uri.path.indexOf('/lib'));
+      // Get the root folder path (folder of the nearest pubspec.yaml)
+      const rootFolder = getRootFolder(uri).replaceAll('\\', '/');
       const templateBaseFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
 
       // Define the specific template paths for use cases
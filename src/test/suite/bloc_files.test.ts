@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import path = require('path');
+import { buildUsecasesContext, getBlocTemplates, UsecaseInfo } from '../../utils/bloc_files';
+
+const TEMPLATES = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  '.my_templates',
+  'flutter_tdd_clean_templates',
+);
+
+const GET_USERS: UsecaseInfo = {
+  name: 'get_users',
+  fileName: 'get_users_usecase.dart',
+  className: 'GetUsersUsecase',
+  hasParams: false,
+  returnType: 'List<User>',
+};
+
+const LOGIN: UsecaseInfo = {
+  name: 'login',
+  fileName: 'login_usecase.dart',
+  className: 'LoginUsecase',
+  hasParams: true,
+  returnType: 'Token',
+};
+
+const LOGOUT: UsecaseInfo = {
+  name: 'logout',
+  fileName: 'logout_usecase.dart',
+  className: 'LogoutUsecase',
+  hasParams: false,
+  returnType: 'void',
+};
+
+suite('Bloc Files', () => {
+  test('Imports the entities returned by the use cases', () => {
+    const context = buildUsecasesContext([GET_USERS, LOGIN, LOGOUT]);
+
+    assert.deepStrictEqual(context.entity_imports, ['user', 'token']);
+    assert.deepStrictEqual(buildUsecasesContext([LOGOUT]).entity_imports, []);
+  });
+
+  test('Builds a test value for every result that is not void, with one fake per type', () => {
+    const context = buildUsecasesContext([GET_USERS, LOGIN, LOGOUT, { ...LOGIN, name: 'refresh' }]);
+
+    assert.deepStrictEqual(
+      context.usecases.map((usecase: any) => [usecase.test_data, usecase.has_test_values]),
+      [
+        ['final tData = <User>[];', true],
+        ['final tData = FakeToken();', true],
+        [null, false],
+        ['final tData = FakeToken();', true],
+      ],
+    );
+    assert.deepStrictEqual(context.fake_classes, [
+      'class FakeToken extends Fake implements Token {}',
+    ]);
+  });
+
+  test('Resolves the files of a Bloc or a Cubit from the manifest, the holder first', () => {
+    const destinations = (isCubit: boolean) =>
+      getBlocTemplates(TEMPLATES, '/app', 'auth', 'UserSession', isCubit).map((template) => [
+        template.type,
+        template.destinationPath,
+      ]);
+
+    assert.deepStrictEqual(destinations(false), [
+      ['bloc', '/app/lib/src/auth/presentation/blocs/user_session_bloc.dart'],
+      ['event', '/app/lib/src/auth/presentation/blocs/user_session_event.dart'],
+      ['state', '/app/lib/src/auth/presentation/blocs/user_session_state.dart'],
+      ['test', '/app/test/src/auth/presentation/blocs/user_session_bloc_test.dart'],
+    ]);
+    assert.deepStrictEqual(destinations(true), [
+      ['cubit', '/app/lib/src/auth/presentation/blocs/user_session_cubit.dart'],
+      ['state', '/app/lib/src/auth/presentation/blocs/user_session_state.dart'],
+      ['test', '/app/test/src/auth/presentation/blocs/user_session_cubit_test.dart'],
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import {
+  buildFieldsContext,
+  buildParamsContext,
+  getEntityImports,
+  getFakeClasses,
+  parseDartParameters,
+} from '../../utils/dart_fields';
+
+suite('Dart Fields', () => {
+  test('Builds the constructor parameter and the test value of each field', () => {
+    const context = buildFieldsContext([
+      { name: 'email', type: 'String', nullable: false },
+      { name: 'page', type: 'int', nullable: false, defaultValue: '1' },
+      { name: 'owner', type: 'User', nullable: true },
+    ]);
+
+    assert.deepStrictEqual(
+      context.map((field) => [field.type, field.constructor_param, field.test_value]),
+      [
+        ['String', 'required this.email', "'test_email'"],
+        ['int', 'this.page = 1', '1'],
+        ['User?', 'this.owner', 'FakeUser()'],
+      ],
+    );
+  });
+
+  test('Adds the fakes and imports of the custom types', () => {
+    const context = buildParamsContext(
+      [{ name: 'tags', type: 'List<String>', nullable: false }],
+      'List<UserAddress>',
+    );
+
+    assert.strictEqual(context.is_void, false);
+    assert.strictEqual(context.test_result, '<UserAddress>[]');
+    assert.deepStrictEqual(context.entity_imports, ['user_address']);
+    assert.deepStrictEqual(context.fake_classes, []);
+    assert.deepStrictEqual(getFakeClasses(['User?', 'User', 'Stream<User>']), [
+      'class FakeUser extends Fake implements User {}',
+      'class FakeStreamUser extends Fake implements Stream<User> {}',
+    ]);
+    assert.deepStrictEqual(getEntityImports(['Map<String, Product>', 'void', 'int']), ['product']);
+  });
+
+  test('Returns nothing to test for void', () => {
+    const context = buildParamsContext([], 'void');
+
+    assert.strictEqual(context.is_void, true);
+    assert.strictEqual(context.test_result, null);
+    assert.deepStrictEqual(context.entity_imports, []);
+  });
+
+  test('Parses positional, named and optional parameters', () => {
+    assert.deepStrictEqual(
+      parseDartParameters('{required String email, int page = 1, Map<String, int>? filters}'),
+      [
+        { name: 'email', type: 'String', nullable: false, defaultValue: undefined },
+        { name: 'page', type: 'int', nullable: false, defaultValue: '1' },
+        { name: 'filters', type: 'Map<String, int>', nullable: true, defaultValue: undefined },
+      ],
+    );
+    assert.deepStrictEqual(
+      parseDartParameters('String id, [List<String> tags = const []]').map((field) => [
+        field.name,
+        field.defaultValue,
+      ]),
+      [
+        ['id', undefined],
+        ['tags', 'const []'],
+      ],
+    );
+    assert.deepStrictEqual(parseDartParameters('this.email'), []);
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import {
+  addImport,
+  addMemberToBlock,
+  findClosingBrace,
+  getBlockMembers,
+  getConstructorParameters,
+  getImports,
+  getTopLevelBlocks,
+  maskDartCode,
+} from '../../utils/dart_source';
+
+const REPOSITORY = `import 'package:dartz/dartz.dart';
+
+import '../entities/user.dart';
+
+/// Uses { and } in its doc comment.
+abstract class IAuthRepository {
+  const IAuthRepository();
+
+  /// Logs the user in.
+  ResultFuture<User> login({required String email});
+}
+
+const defaults = {'a': 1};
+
+void main() {
+  print('} \${'{'} "}"');
+}
+`;
+
+suite('Dart Source', () => {
+  test('Masks comments and strings without moving the code', () => {
+    const source = "final a = '{'; // }\nfinal b = r'\\'; /* { */ final c = 1;";
+    const masked = maskDartCode(source);
+
+    assert.strictEqual(masked.length, source.length);
+    assert.strictEqual(masked.split('\n').length, 2);
+    assert.ok(!/[{}'\\]/.test(masked));
+    assert.ok(masked.includes('final c = 1;'));
+  });
+
+  test('Matches braces outside of strings, interpolations and comments', () => {
+    const open = REPOSITORY.indexOf('{', REPOSITORY.indexOf('void main'));
+
+    assert.strictEqual(findClosingBrace(REPOSITORY, open), REPOSITORY.lastIndexOf('}'));
+  });
+
+  test('Finds the top level classes and functions, not the literals', () => {
+    assert.deepStrictEqual(
+      getTopLevelBlocks(REPOSITORY).map((block) => block.name),
+      ['IAuthRepository', 'main'],
+    );
+  });
+
+  test('Splits a block into members and adds one at its end', () => {
+    const block = getTopLevelBlocks(REPOSITORY)[0];
+    assert.deepStrictEqual(getBlockMembers(REPOSITORY, block), [
+      '  const IAuthRepository();',
+      '  /// Logs the user in.\n  ResultFuture<User> login({required String email});',
+    ]);
+
+    const updated = addMemberToBlock(
+      REPOSITORY,
+      'IAuthRepository',
+      '  ResultFuture<void> logout();',
+    );
+    assert.ok(
+      updated!.includes(
+        'login({required String email});\n\n  ResultFuture<void> logout();\n}\n\nconst defaults',
+      ),
+    );
+    assert.strictEqual(addMemberToBlock(REPOSITORY, 'Missing', '  void a();'), undefined);
+  });
+
+  test('Adds an import after the imports of its kind, once', () => {
+    const withPackage = addImport(REPOSITORY, 'package:equatable/equatable.dart');
+    assert.deepStrictEqual(getImports(withPackage), [
+      'package:dartz/dartz.dart',
+      'package:equatable/equatable.dart',
+      '../entities/user.dart',
+    ]);
+    assert.strictEqual(addImport(withPackage, '../entities/user.dart'), withPackage);
+    assert.strictEqual(
+      addImport('void main() {}\n', 'a.dart'),
+      "import 'a.dart';\n\nvoid main() {}\n",
+    );
+  });
+
+  test('Reads the parameters of the constructor, with the type of their field', () => {
+    const source = `class AuthRepositoryImpl implements IAuthRepository {
+  /// Builds it with {the} datasources.
+  const AuthRepositoryImpl(
+    this._remoteDataSource,
+    Map<String, int> counts, {
+    required this._client,
+    Duration timeout = const Duration(seconds: 1),
+  });
+
+  final IAuthRemoteDataSource _remoteDataSource;
+  final Dio? _client;
+}
+
+class Empty {
+  final int a = 1;
+}
+`;
+
+    assert.deepStrictEqual(getConstructorParameters(source, 'AuthRepositoryImpl'), [
+      { name: '_remoteDataSource', type: 'IAuthRemoteDataSource', named: false },
+      { name: 'counts', type: 'Map<String, int>', named: false },
+      { name: '_client', type: 'Dio?', named: true },
+      { name: 'timeout', type: 'Duration', named: true },
+    ]);
+    assert.deepStrictEqual(getConstructorParameters(source, 'Empty'), []);
+    assert.strictEqual(getConstructorParameters(source, 'Missing'), undefined);
+  });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { planDependency } from '../../utils/dependency_plan';
+
+/** Plans a package of `dependencies` found in `dependencies` */
+const plan = (constraint: any, target: string | object = '^9.1.1') =>
+  planDependency('bloc', 'dependencies', { constraint, section: 'dependencies' }, target);
+
+suite('Dependency Plan', () => {
+  test('Adds the missing packages to the section of the profile', () => {
+    assert.deepStrictEqual(planDependency('mocktail', 'dev_dependencies', undefined, '^1.0.4'), {
+      name: 'mocktail',
+      section: 'dev_dependencies',
+      action: 'add',
+      target: '^1.0.4',
+      reason: 'missing',
+    });
+  });
+
+  test('Keeps the constraints that allow the target or are newer', () => {
+    assert.deepStrictEqual(
+      [plan('^9.0.0'), plan('>=10.0.0'), plan(null), plan('^8.0.0', { sdk: 'flutter' })].map(
+        (item) => [item.action, item.reason],
+      ),
+      [
+        ['keep', 'allows 9.1.1'],
+        ['keep', 'newer than 9.1.1'],
+        ['keep', 'allows 9.1.1'],
+        ['keep', 'present'],
+      ],
+    );
+    assert.strictEqual(plan(null).current, 'any');
+    assert.strictEqual(plan('latest').reason, 'constraint not understood, check it manually');
+  });
+
+  test('Keeps the packages of the other sources', () => {
+    assert.deepStrictEqual(
+      [
+        { git: { url: 'https://github.com/org/bloc.git', ref: 'main', path: 'packages/bloc' } },
+        { git: 'https://github.com/org/bloc.git' },
+        { path: '../bloc' },
+        { sdk: 'flutter' },
+        { hosted: 'https://pub.company.com', version: '^9.0.0' },
+      ].map((constraint) => [plan(constraint).action, plan(constraint).reason]),
+      [
+        ['keep', 'pinned to git https://github.com/org/bloc.git@main (packages/bloc)'],
+        ['keep', 'pinned to git https://github.com/org/bloc.git'],
+        ['keep', 'local path ../bloc'],
+        ['keep', 'flutter SDK'],
+        ['keep', 'hosted on https://pub.company.com ^9.0.0'],
+      ],
+    );
+  });
+
+  test('Upgrades the other constraints, the breaking upgrades apart', () => {
+    const minor = plan('9.0.0', '^9.2.0');
+    const major = plan('^8.1.0');
+
+    assert.deepStrictEqual(
+      [minor.action, minor.target, minor.reason],
+      ['minor', '^9.2.0', 'compatible upgrade to 9.2.0'],
+    );
+    assert.deepStrictEqual(
+      [major.action, major.current, major.target],
+      ['major', '^8.1.0', '^9.1.1'],
+    );
+    assert.strictEqual(plan('<9.0.0').action, 'major');
+    assert.strictEqual(
+      planDependency(
+        'bloc',
+        'dev_dependencies',
+        { constraint: '^8.1.0', section: 'dependencies' },
+        '^9.1.1',
+      ).section,
+      'dependencies',
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import { ConfigurationTarget, workspace } from 'vscode';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { getDependencyProfiles } from '../../utils/dependency_profiles';
+
+const TEMPLATE_PROFILES = `
+profiles:
+  bloc:
+    description: The bloc packages of the company
+    dependencies:
+      flutter_bloc: ^9.0.0
+  riverpod:
+    dependencies:
+      flutter_riverpod: ~
+`;
+
+suite('Dependency Profiles', () => {
+  let root: string;
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+    fs.mkdirSync(`${root}/.my_templates/flutter_tdd_clean_templates`, { recursive: true });
+  });
+
+  teardown(async () => {
+    await setProfilesSetting(undefined);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  /** Changes the `scaffolding.dependencies.profiles` setting, like the user would */
+  const setProfilesSetting = (profiles: any) =>
+    workspace
+      .getConfiguration('scaffolding')
+      .update('dependencies.profiles', profiles, ConfigurationTarget.Global);
+
+  /** Writes the dependencies.yaml of the templates folder */
+  const writeTemplateProfiles = (content: string) =>
+    fs.writeFileSync(
+      `${root}/.my_templates/flutter_tdd_clean_templates/dependencies.yaml`,
+      content,
+    );
+
+  test('Uses the built-in bloc profile when no other is defined', () => {
+    const [profile, ...others] = getDependencyProfiles(root);
+
+    assert.deepStrictEqual(others, []);
+    assert.strictEqual(profile.name, 'bloc');
+    assert.strictEqual(profile.origin, 'built-in');
+    assert.ok(profile.dependencies.every((item) => item.constraint === undefined));
+    assert.deepStrictEqual(profile.devDependencies[2], {
+      name: 'flutter_test',
+      constraint: { sdk: 'flutter' },
+    });
+  });
+
+  test('Replaces the built-in profiles with the templates file, then with the setting', async () => {
+    writeTemplateProfiles(TEMPLATE_PROFILES);
+    await setProfilesSetting({
+      riverpod: { dependencies: { flutter_riverpod: '^2.6.0', http: '' } },
+      minimal: { dev_dependencies: { mocktail: null } },
+    });
+
+    assert.deepStrictEqual(
+      getDependencyProfiles(root).map((profile) => [
+        profile.name,
+        profile.origin,
+        profile.description,
+        profile.dependencies.map((item) => item.name),
+      ]),
+      [
+        ['bloc', 'dependencies.yaml', 'The bloc packages of the company', ['flutter_bloc']],
+        ['riverpod', 'scaffolding.dependencies.profiles', undefined, ['flutter_riverpod', 'http']],
+        ['minimal', 'scaffolding.dependencies.profiles', undefined, []],
+      ],
+    );
+  });
+
+  test('Reads an empty constraint as the latest version and keeps the others as written', () => {
+    writeTemplateProfiles(`
+profiles:
+  custom:
+    dependencies:
+      latest_null: ~
+      latest_empty: ""
+      pinned: ^2.5.1
+      from_git:
+        git:
+          url: https://github.com/company/package.git
+          ref: main
+    dev_dependencies:
+      flutter_test:
+        sdk: flutter
+`);
+    const custom = getDependencyProfiles(root).find((profile) => profile.name === 'custom')!;
+
+    assert.deepStrictEqual(custom.dependencies, [
+      { name: 'latest_null', constraint: undefined },
+      { name: 'latest_empty', constraint: undefined },
+      { name: 'pinned', constraint: '^2.5.1' },
+      {
+        name: 'from_git',
+        constraint: { git: { url: 'https://github.com/company/package.git', ref: 'main' } },
+      },
+    ]);
+    assert.deepStrictEqual(custom.devDependencies, [
+      { name: 'flutter_test', constraint: { sdk: 'flutter' } },
+    ]);
+  });
+
+  test('Names the file or the setting of an invalid profile', async () => {
+    const invalidFiles: [string, RegExp][] = [
+      ['profiles: [a', /^Error: dependencies\.yaml: /],
+      [
+        'profiles:\n  - bloc',
+        /^Error: dependencies\.yaml: profiles must be an object keyed by profile name$/,
+      ],
+      [
+        'profiles:\n  a:\n    dependencies:\n      - dio',
+        /^Error: dependencies\.yaml: 'dependencies' of profile 'a' must map package names to constraints$/,
+      ],
+      [
+        'profiles:\n  a:\n    dependencies:\n      dio: 5',
+        /^Error: dependencies\.yaml: invalid constraint of 'dio' in profile 'a'$/,
+      ],
+      [
+        'profiles:\n  a:\n    description: nothing',
+        /^Error: dependencies\.yaml: profile 'a' has no package$/,
+      ],
+    ];
+    for (const [content, message] of invalidFiles) {
+      writeTemplateProfiles(content);
+      assert.throws(() => getDependencyProfiles(root), message, content);
+    }
+
+    writeTemplateProfiles('profiles: ~');
+    await setProfilesSetting({ a: { dev_dependencies: 'mocktail' } });
+    assert.throws(
+      () => getDependencyProfiles(root),
+      /^Error: scaffolding\.dependencies\.profiles: 'dev_dependencies' of profile 'a' must map/,
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { loadFeatureSpec } from '../../utils/feature_spec';
+
+const SPEC = `
+feature: shop
+entities:
+  product:
+    id: int
+    display_name: String
+    tags: List<String>
+    category: Category
+  category:
+    title: String
+repository:
+  name: catalog
+  strategy: offline_fallback
+  methods:
+    get_products:
+      params:
+        page: int = 1
+        query: String?
+      returns: List<Product>
+    clear_cache:
+      returns: void
+usecases:
+  - get_products
+  - clear_cache
+bloc:
+  name: catalog
+  kind: cubit
+  usecases: [get_products]
+`;
+
+suite('Feature Spec', () => {
+  let folder: string;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  /** Writes a spec file in the temp folder and loads it */
+  const load = (content: string, file = 'feature.yaml') => {
+    fs.writeFileSync(`${folder}/${file}`, content);
+    return loadFeatureSpec(`${folder}/${file}`);
+  };
+
+  test('Loads the entities with their fields and fixture', () => {
+    const spec = load(SPEC);
+
+    assert.strictEqual(spec.feature, 'shop');
+    assert.deepStrictEqual(
+      spec.entities[0].fields.map((field) => [field.name, field.kind, field.type]),
+      [
+        ['id', 'primitive', 'int'],
+        ['displayName', 'primitive', 'String'],
+        ['tags', 'primitiveList', 'String'],
+        ['category', 'object', 'Category'],
+      ],
+    );
+    assert.deepStrictEqual(spec.entities[0].sample, {
+      id: 1,
+      display_name: 'test_display_name',
+      tags: ['test_tags'],
+      category: { title: 'test_title' },
+    });
+  });
+
+  test('Loads the repository, the use cases and the bloc', () => {
+    const spec = load(SPEC);
+
+    assert.strictEqual(spec.repository!.strategy, 'offline_fallback');
+    assert.deepStrictEqual(spec.repository!.methods, [
+      {
+        name: 'getProducts',
+        fields: [
+          { name: 'page', type: 'int', nullable: false, defaultValue: '1' },
+          { name: 'query', type: 'String', nullable: true, defaultValue: undefined },
+        ],
+        returnType: 'List<Product>',
+      },
+      { name: 'clearCache', fields: [], returnType: 'void' },
+    ]);
+    assert.deepStrictEqual(spec.usecases, ['getProducts', 'clearCache']);
+    assert.deepStrictEqual(spec.bloc, {
+      name: 'catalog',
+      isCubit: true,
+      usecases: ['getProducts'],
+    });
+  });
+
+  test('Reads JSON specs and fills the defaults', () => {
+    const spec = load(
+      JSON.stringify({
+        feature: 'auth',
+        repository: { name: 'auth', methods: { logout: null } },
+        usecases: ['logout'],
+        bloc: { name: 'auth' },
+      }),
+      'feature.json',
+    );
+
+    assert.strictEqual(spec.repository!.strategy, 'remote_only');
+    assert.strictEqual(spec.repository!.methods[0].returnType, 'void');
+    assert.deepStrictEqual(spec.bloc, { name: 'auth', isCubit: false, usecases: ['logout'] });
+  });
+
+  test('Stops a nested entity that references its parent', () => {
+    const spec = load(`
+feature: tree
+entities:
+  node:
+    children: List<Leaf>
+  leaf:
+    parent: Node
+`);
+
+    assert.deepStrictEqual(spec.entities[0].sample, { children: [{ parent: {} }] });
+  });
+
+  test('Reports the file and the entry at fault', () => {
+    const specPath = `${folder}/feature.yaml`;
+    const cases: [string, RegExp][] = [
+      ['entities: {}', /missing 'feature' name/],
+      ['feature: a\nentities:\n  user:\n    id: Uuid', /entity 'user', field 'id': unknown type/],
+      ['feature: a\nentities:\n  user:\n    id: int?', /nullable entity fields are not supported/],
+      [
+        'feature: a\nentities:\n  user:\n    user_id: int\n    userId: int',
+        /fields 'user_id' and 'userId' are both named userId/,
+      ],
+      ['feature: a\nrepository:\n  name: b\n  strategy: live\n  methods: {x: {}}', /strategy/],
+      ['feature: a\nusecases: [login]', /use case 'login' needs a repository method/],
+      [
+        'feature: a\nrepository:\n  name: b\n  methods: {login: {}}\nusecases: [login]\nbloc:\n  name: b\n  usecases: [logout]',
+        /bloc use case 'logout' is not declared/,
+      ],
+      ['feature: a\n  b: : c', /feature\.yaml/],
+    ];
+
+    cases.forEach(([content, error]) => {
+      assert.throws(() => load(content), error);
+      assert.throws(
+        () => load(content),
+        (thrown: Error) => thrown.message.startsWith(specPath),
+      );
+    });
+  });
+});
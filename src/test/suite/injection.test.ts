@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { PlannedFile } from '../../utils/file_preview';
+import { InjectionRegistration, planFeatureInjection } from '../../utils/injection';
+
+const TEMPLATES = path.resolve(
+  __dirname,
+  '..',
+  '..',
+  '..',
+  '.my_templates',
+  'flutter_tdd_clean_templates',
+);
+
+const DATASOURCE: InjectionRegistration = {
+  section: 'Datasources',
+  className: 'AuthRemoteDataSourceImpl',
+  statement:
+    'sl.registerLazySingleton<IAuthRemoteDataSource>(() => AuthRemoteDataSourceImpl(sl()));',
+  importPaths: ['../data/datasources/auth_remote_data_source.dart'],
+};
+
+const LOGIN: InjectionRegistration = {
+  section: 'Usecases',
+  className: 'LoginUsecase',
+  statement: 'sl.registerLazySingleton(() => LoginUsecase(sl()));',
+  importPaths: ['../domain/usecases/login_usecase.dart'],
+};
+
+const LOGOUT: InjectionRegistration = {
+  section: 'Usecases',
+  className: 'LogoutUsecase',
+  statement: 'sl.registerLazySingleton(() => LogoutUsecase(sl()));',
+  importPaths: ['../domain/usecases/logout_usecase.dart'],
+};
+
+suite('Injection', () => {
+  let root: string;
+  let featurePath: string;
+  let containerPath: string;
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'injection-'));
+    fs.cpSync(
+      `${TEMPLATES}/feature/config`,
+      `${root}/.my_templates/flutter_tdd_clean_templates/feature/config`,
+      { recursive: true },
+    );
+    featurePath = `${root}/lib/src/auth/config/auth_injection.dart`;
+    containerPath = `${root}/lib/config/injection_container.dart`;
+    fs.mkdirSync(path.dirname(containerPath), { recursive: true });
+    fs.copyFileSync(`${TEMPLATES}/config/injection_container.template`, containerPath);
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  /** Writes the planned files, like the preview does once confirmed */
+  const write = (files: PlannedFile[]) => {
+    files.forEach((file) => {
+      fs.mkdirSync(path.dirname(file.path), { recursive: true });
+      fs.writeFileSync(file.path, file.content);
+    });
+    return files;
+  };
+
+  /** Content of a planned file */
+  const contentOf = (files: PlannedFile[], filePath: string) =>
+    files.find((file) => file.path === filePath)?.content;
+
+  test('Adds the registrations at the end of their section, with their imports', () => {
+    const files = planFeatureInjection(root, 'auth', [LOGIN, DATASOURCE, LOGOUT]);
+    const content = contentOf(files, featurePath)!;
+
+    assert.deepStrictEqual(
+      content.split('\n').filter((line) => /^import|^ {2}(\/\/|sl\.)/.test(line)),
+      [
+        "import 'package:get_it/get_it.dart';",
+        "import '../domain/usecases/login_usecase.dart';",
+        "import '../data/datasources/auth_remote_data_source.dart';",
+        "import '../domain/usecases/logout_usecase.dart';",
+        '  // Datasources',
+        `  ${DATASOURCE.statement}`,
+        '  // Repositories',
+        '  // Usecases',
+        `  ${LOGIN.statement}`,
+        `  ${LOGOUT.statement}`,
+        '  // Blocs',
+      ],
+    );
+  });
+
+  test('Plans the same registrations twice without changing the files', () => {
+    const first = write(planFeatureInjection(root, 'auth', [DATASOURCE, LOGIN]));
+    const second = planFeatureInjection(root, 'auth', [
+      {
+        ...DATASOURCE,
+        statement: 'sl.registerLazySingleton(() => AuthRemoteDataSourceImpl(sl()));',
+      },
+      LOGIN,
+    ]);
+
+    assert.deepStrictEqual(
+      first.map((file) => file.path),
+      [featurePath, containerPath],
+    );
+    assert.deepStrictEqual(second, [first[0]]);
+    assert.strictEqual(fs.readFileSync(containerPath, 'utf8'), first[1].content);
+  });
+
+  test("Adds the feature init call to init() once, with the feature's import", () => {
+    write(planFeatureInjection(root, 'auth', [LOGIN]));
+    write(planFeatureInjection(root, 'auth', [LOGOUT]));
+    write(planFeatureInjection(root, 'user_profile', []));
+    const content = fs.readFileSync(containerPath, 'utf8');
+
+    assert.strictEqual(content.match(/^ {2}await initAuthFeature\(\);$/gm)?.length, 1);
+    assert.ok(
+      content.endsWith(
+        '  // await initAuthFeature();\n  await initAuthFeature();\n  await initUserProfileFeature();\n}\n',
+      ),
+    );
+    assert.ok(content.includes("import '../src/auth/config/auth_injection.dart';"));
+    assert.ok(content.includes("import '../src/user_profile/config/user_profile_injection.dart';"));
+  });
+
+  test('Leaves init() alone when the container has none, and the sections when there is no init function', () => {
+    fs.writeFileSync(containerPath, 'void main() {}\n');
+    fs.mkdirSync(path.dirname(featurePath), { recursive: true });
+    fs.writeFileSync(featurePath, 'void setup() {}\n');
+
+    assert.deepStrictEqual(planFeatureInjection(root, 'auth', [LOGIN]), [
+      { path: featurePath, content: 'void setup() {}\n', type: 'injection', isEdit: true },
+    ]);
+  });
+
+  test('Adds the registrations before the end of an init function without sections', () => {
+    fs.mkdirSync(path.dirname(featurePath), { recursive: true });
+    fs.writeFileSync(
+      featurePath,
+      'Future<void> initAuthFeature() async {\n  final sl = GetIt.instance;\n}\n',
+    );
+    const content = contentOf(planFeatureInjection(root, 'auth', [LOGIN]), featurePath);
+
+    assert.strictEqual(
+      content,
+      [
+        "import '../domain/usecases/login_usecase.dart';",
+        '',
+        'Future<void> initAuthFeature() async {',
+        '  final sl = GetIt.instance;',
+        `  ${LOGIN.statement}`,
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+});
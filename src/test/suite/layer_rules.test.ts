@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { findLayerViolations, LayerRules } from '../../utils/layer_rules';
+
+const RULES: LayerRules = {
+  forbidden: {
+    domain: ['data', 'presentation', 'package:flutter/'],
+    data: ['presentation'],
+    presentation: ['data'],
+  },
+  featureBarrel: '{{feature_name}}.dart',
+};
+
+const USECASE = 'lib/src/auth/domain/usecases/login_usecase.dart';
+
+suite('Layer Rules', () => {
+  /** Violations of a file as [line, imported URI, message] */
+  const check = (filePath: string, content: string, rules = RULES) =>
+    findLayerViolations(filePath, content, 'app', rules).map((violation) => [
+      violation.line,
+      violation.importUri,
+      violation.message,
+    ]);
+
+  test('Reports the imports of a forbidden layer, relative or through the package', () => {
+    assert.deepStrictEqual(
+      check(
+        USECASE,
+        [
+          "import '../entities/user.dart';",
+          "import '../../data/models/user_model.dart';",
+          "export 'package:app/src/auth/presentation/blocs/auth_bloc.dart';",
+          "import 'package:app/core/utils/typedef.dart';",
+        ].join('\n'),
+      ),
+      [
+        [1, '../../data/models/user_model.dart', 'The domain layer must not import the data layer'],
+        [
+          2,
+          'package:app/src/auth/presentation/blocs/auth_bloc.dart',
+          'The domain layer must not import the presentation layer',
+        ],
+      ],
+    );
+  });
+
+  test('Reports the forbidden packages by the start of their URI', () => {
+    assert.deepStrictEqual(
+      check(
+        USECASE,
+        [
+          "import 'package:flutter/material.dart';",
+          "import 'package:flutter_bloc/flutter_bloc.dart';",
+          "import 'dart:async';",
+        ].join('\n'),
+      ),
+      [[0, 'package:flutter/material.dart', "The domain layer must not import 'package:flutter/'"]],
+    );
+  });
+
+  test('Points at the imported URI, quotes excluded', () => {
+    const [violation] = findLayerViolations(
+      USECASE,
+      'import \'package:app/core/a.dart\';\n  import   "../../data/b.dart" show B;',
+      'app',
+      RULES,
+    );
+
+    assert.deepStrictEqual([violation.line, violation.start, violation.end], [1, 12, 29]);
+  });
+
+  test('Only lets other features import their public barrel', () => {
+    const page = 'lib/src/home/presentation/pages/home_page.dart';
+
+    assert.deepStrictEqual(
+      check(
+        page,
+        [
+          "import 'package:app/src/auth/auth.dart';",
+          "import '../../../auth/domain/entities/user.dart';",
+          "import '../widgets/home_header.dart';",
+        ].join('\n'),
+      ),
+      [
+        [
+          1,
+          '../../../auth/domain/entities/user.dart',
+          "Import the feature 'auth' through its public barrel (package:app/src/auth/auth.dart)",
+        ],
+      ],
+    );
+    assert.deepStrictEqual(
+      check(page, "import '../../../auth/domain/entities/user.dart';", {
+        ...RULES,
+        featureBarrel: '',
+      }),
+      [],
+    );
+  });
+
+  test('Ignores the directives in comments and strings, and the files outside of a feature', () => {
+    const content = [
+      '/*',
+      "import '../../data/models/user_model.dart';",
+      '*/',
+      "// import 'package:flutter/material.dart';",
+      "const example = '''",
+      "import '../../data/models/user_model.dart';",
+      "''';",
+    ].join('\n');
+
+    assert.deepStrictEqual(check(USECASE, content), []);
+    assert.deepStrictEqual(
+      check('lib/core/utils/typedef.dart', "import 'package:flutter/material.dart';"),
+      [],
+    );
+  });
+});
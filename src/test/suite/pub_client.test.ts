@@ -0,0 +1,241 @@
+import * as assert from 'assert';
+import { ConfigurationTarget, workspace } from 'vscode';
+import fs = require('fs');
+import http = require('http');
+import os = require('os');
+import path = require('path');
+import { AddressInfo } from 'net';
+import {
+  describeVersionOrigin,
+  describeVersionSources,
+  getLatestPackageVersions,
+  getPackageDependencies,
+  getPubHostedUrl,
+  setPubCacheFolder,
+} from '../../utils/pub_client';
+
+/** Environment variables changed by the tests */
+const ENV_KEYS = ['HOME', 'XDG_CONFIG_HOME', 'APPDATA', 'PUB_HOSTED_URL', 'COMPANY_PUB_TOKEN'];
+
+/** Settings changed by the tests, reset after each of them */
+const SETTINGS = ['pub.hostedUrl', 'pub.offline', 'pub.cacheHours'];
+
+/** Response of the pub API for flutter_bloc */
+const FLUTTER_BLOC = {
+  latest: { version: '9.1.1' },
+  versions: [
+    { version: '9.0.0', pubspec: { dependencies: { bloc: '^9.0.0' } } },
+    { version: '9.1.0', retracted: true, pubspec: {} },
+    {
+      version: '9.1.1',
+      pubspec: { dependencies: { bloc: '^9.0.0', flutter: { sdk: 'flutter' } } },
+    },
+  ],
+};
+
+suite('Pub Client', () => {
+  const originalEnv = ENV_KEYS.map((key) => [key, process.env[key]]);
+  let folder: string;
+  let server: http.Server;
+  /** URL of the local package repository, ex: http://127.0.0.1:40123 */
+  let hostedUrl: string;
+  let requests: { url: string; headers: http.IncomingHttpHeaders }[];
+  /** Responses of the local repository by path, the other paths answer 404 */
+  let packages: { [path: string]: object };
+
+  /** Changes a setting of the extension, like the user would */
+  const setSetting = (key: string, value: any) =>
+    workspace.getConfiguration('scaffolding').update(key, value, ConfigurationTarget.Global);
+
+  setup(async () => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'pub-client-'));
+    setPubCacheFolder(folder);
+    requests = [];
+    packages = {};
+    // The tokens of `dart pub token add` are looked for in the temp folder
+    process.env.HOME = folder;
+    process.env.XDG_CONFIG_HOME = folder;
+    process.env.APPDATA = folder;
+    delete process.env.PUB_HOSTED_URL;
+
+    server = http.createServer((request, response) => {
+      requests.push({ url: request.url!, headers: request.headers });
+      const body = packages[request.url!];
+      response.writeHead(body ? 200 : 404, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(body ?? { error: { code: 'NotFound' } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    hostedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    await setSetting('pub.hostedUrl', hostedUrl);
+  });
+
+  teardown(async () => {
+    server.close();
+    for (const key of SETTINGS) {
+      await setSetting(key, undefined);
+    }
+    originalEnv.forEach(([key, value]) =>
+      value === undefined ? delete process.env[key!] : (process.env[key!] = value),
+    );
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  /** Writes a cached response of the local repository, fetched some hours ago */
+  const writeCache = (hoursAgo: number) => {
+    const host = hostedUrl.replace(/^https?:\/\//, '').replace(/[^\w.-]+/g, '_');
+    fs.mkdirSync(`${folder}/pub-cache`, { recursive: true });
+    fs.writeFileSync(
+      `${folder}/pub-cache/${host}.json`,
+      JSON.stringify({
+        flutter_bloc: {
+          latest: '9.0.0',
+          versions: ['9.0.0'],
+          dependencies: { '9.0.0': {} },
+          fetchedAt: new Date(Date.now() - hoursAgo * 3600 * 1000).toISOString(),
+        },
+      }),
+    );
+  };
+
+  /** Writes the tokens of `dart pub token add` for every platform */
+  const writeTokens = (hosted: any[]) =>
+    [`${folder}/dart`, `${folder}/Library/Application Support/dart`].forEach((tokensFolder) => {
+      fs.mkdirSync(tokensFolder, { recursive: true });
+      fs.writeFileSync(`${tokensFolder}/pub-tokens.json`, JSON.stringify({ hosted }));
+    });
+
+  test('Fetches the latest versions and serves them from the cache until they expire', async () => {
+    packages['/api/packages/flutter_bloc'] = FLUTTER_BLOC;
+    const host = hostedUrl.replace('http://', '');
+
+    const fetched = await getLatestPackageVersions(['flutter_bloc']);
+    const cached = await getLatestPackageVersions(['flutter_bloc']);
+
+    assert.deepStrictEqual(fetched, [
+      { name: 'flutter_bloc', version: '9.1.1', source: 'network' },
+    ]);
+    assert.strictEqual(describeVersionOrigin(fetched), `Versions fetched from ${host}`);
+    assert.strictEqual(cached[0].source, 'cache');
+    assert.strictEqual(describeVersionOrigin(cached), `Versions of ${host} from the cache`);
+    assert.strictEqual(requests.length, 1);
+    assert.strictEqual(requests[0].headers.accept, 'application/vnd.pub.v2+json');
+
+    packages['/api/packages/bloc'] = { ...FLUTTER_BLOC, latest: { version: '9.0.0' } };
+    assert.strictEqual(
+      describeVersionOrigin(await getLatestPackageVersions(['flutter_bloc', 'bloc'])),
+      `Versions fetched from ${host} (1 of 2 from the cache)`,
+    );
+    assert.strictEqual(requests.length, 2);
+
+    writeCache(25);
+    assert.strictEqual((await getLatestPackageVersions(['flutter_bloc']))[0].source, 'network');
+    assert.strictEqual(requests.length, 3);
+
+    await setSetting('pub.cacheHours', 0);
+    const results = await getLatestPackageVersions(['flutter_bloc', 'dio']);
+    assert.strictEqual(requests.length, 5);
+    assert.strictEqual(
+      describeVersionOrigin(results),
+      `no version for dio (not found on ${hostedUrl})`,
+    );
+  });
+
+  test('Keeps the versions and the dependencies that are not retracted', async () => {
+    packages['/api/packages/flutter_bloc'] = FLUTTER_BLOC;
+
+    const dependencies = await getPackageDependencies(['flutter_bloc', 'missing_package']);
+
+    assert.deepStrictEqual([...dependencies.keys()], ['flutter_bloc']);
+    assert.deepStrictEqual(dependencies.get('flutter_bloc')!.versions, ['9.0.0', '9.1.1']);
+    assert.deepStrictEqual(dependencies.get('flutter_bloc')!.dependencies['9.0.0'], {
+      bloc: '^9.0.0',
+    });
+  });
+
+  test('Falls back to the stale cache, then to the built-in table, when the repository is down', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    writeCache(72);
+    const host = hostedUrl.replace('http://', '');
+
+    const results = await getLatestPackageVersions(['flutter_bloc', 'dio', 'my_package']);
+
+    assert.deepStrictEqual(
+      results.map((result) => [result.name, result.version, result.source]),
+      [
+        ['flutter_bloc', '9.0.0', 'stale'],
+        ['dio', '5.9.0', 'fallback'],
+        ['my_package', undefined, 'unknown'],
+      ],
+    );
+    assert.strictEqual(
+      describeVersionSources(results),
+      `${host} unreachable (connect ECONNREFUSED ${host}): flutter_bloc 9.0.0 (3 days ago) from the cache; dio 5.9.0 from the fallback table; no version for my_package (connect ECONNREFUSED ${host})`,
+    );
+    assert.strictEqual(describeVersionOrigin(results), describeVersionSources(results));
+  });
+
+  test('Never takes a package the repository does not know from the fallback table', async () => {
+    const results = await getLatestPackageVersions(['dio']);
+
+    assert.deepStrictEqual(results, [
+      { name: 'dio', source: 'unknown', error: `not found on ${hostedUrl}` },
+    ]);
+    assert.deepStrictEqual(
+      requests.map((request) => request.url),
+      ['/api/packages/dio'],
+    );
+  });
+
+  test('Skips the repository in offline mode', async () => {
+    await setSetting('pub.offline', true);
+
+    const results = await getLatestPackageVersions(['bloc']);
+
+    assert.strictEqual(requests.length, 0);
+    assert.deepStrictEqual(results, [
+      { name: 'bloc', version: '9.0.0', source: 'fallback', error: 'offline mode' },
+    ]);
+    assert.strictEqual(
+      describeVersionSources(results),
+      'Offline mode: bloc 9.0.0 from the fallback table',
+    );
+  });
+
+  test('Uses the hosted URL of the setting, else of PUB_HOSTED_URL', async () => {
+    process.env.PUB_HOSTED_URL = 'https://pub.company.com/';
+    assert.strictEqual(getPubHostedUrl(), hostedUrl);
+
+    await setSetting('pub.hostedUrl', `${hostedUrl}//`);
+    assert.strictEqual(getPubHostedUrl(), hostedUrl);
+
+    await setSetting('pub.hostedUrl', undefined);
+    assert.strictEqual(getPubHostedUrl(), 'https://pub.company.com');
+
+    delete process.env.PUB_HOSTED_URL;
+    assert.strictEqual(getPubHostedUrl(), 'https://pub.dev');
+  });
+
+  test('Sends the token of the repository only', async () => {
+    process.env.COMPANY_PUB_TOKEN = 'from-env';
+    writeTokens([
+      { url: `${hostedUrl}/company/`, env: 'COMPANY_PUB_TOKEN' },
+      { url: `${hostedUrl}/other`, token: 'other' },
+    ]);
+    packages['/company/api/packages/flutter_bloc'] = FLUTTER_BLOC;
+    packages['/public/api/packages/flutter_bloc'] = FLUTTER_BLOC;
+
+    await setSetting('pub.hostedUrl', `${hostedUrl}/company`);
+    await getLatestPackageVersions(['flutter_bloc']);
+    await setSetting('pub.hostedUrl', `${hostedUrl}/public`);
+    await getLatestPackageVersions(['flutter_bloc']);
+
+    assert.deepStrictEqual(
+      requests.map((request) => [request.url, request.headers.authorization]),
+      [
+        ['/company/api/packages/flutter_bloc', 'Bearer from-env'],
+        ['/public/api/packages/flutter_bloc', undefined],
+      ],
+    );
+    assert.deepStrictEqual(fs.readdirSync(`${folder}/pub-cache`).length, 2);
+  });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import {
+  allowsVersion,
+  compareVersions,
+  isBreakingUpgrade,
+  parseConstraint,
+  parseVersion,
+  Version,
+} from '../../utils/pub_semver';
+
+/** Parses a version known to be valid */
+const v = (text: string): Version => parseVersion(text)!;
+
+/** Whether a constraint allows a version */
+const allows = (constraint: string, version: string) =>
+  allowsVersion(parseConstraint(constraint)!, v(version));
+
+suite('Pub Semver', () => {
+  test('Parses versions without their build metadata', () => {
+    assert.deepStrictEqual(parseVersion(' 2.0.0-dev.1+42 '), {
+      major: 2,
+      minor: 0,
+      patch: 0,
+      preRelease: ['dev', '1'],
+      text: '2.0.0-dev.1',
+    });
+    assert.strictEqual(parseVersion('1.2'), undefined);
+    assert.strictEqual(parseVersion('latest'), undefined);
+  });
+
+  test('Orders the pre-releases before their release', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0',
+      '1.0.1',
+      '1.10.0',
+    ];
+
+    ordered
+      .slice(1)
+      .forEach((text, i) => assert.ok(compareVersions(v(ordered[i]), v(text)) < 0, text));
+    assert.strictEqual(compareVersions(v('1.0.0+1'), v('1.0.0+2')), 0);
+  });
+
+  test('Reads the caret constraints like pub', () => {
+    assert.ok(allows('^1.2.3', '1.9.0'));
+    assert.ok(!allows('^1.2.3', '2.0.0'));
+    assert.ok(allows('^0.2.3', '0.2.9'));
+    assert.ok(!allows('^0.2.3', '0.3.0'));
+    assert.ok(!allows('^0.0.2', '0.0.3'));
+  });
+
+  test('Reads the comparison, exact and open constraints', () => {
+    assert.ok(allows('>=1.0.0 <3.0.0', '2.5.0'));
+    assert.ok(!allows('>=1.0.0 <3.0.0', '3.0.0'));
+    assert.ok(allows('>1.0.0 <=2.0.0', '2.0.0'));
+    assert.ok(!allows('>1.0.0', '1.0.0'));
+    assert.ok(allows('1.2.3', '1.2.3'));
+    assert.ok(!allows('1.2.3', '1.2.4'));
+    assert.ok(allows('any', '99.0.0'));
+    assert.deepStrictEqual(parseConstraint(null), { includeMin: true, includeMax: false });
+    assert.strictEqual(parseConstraint('~1.2.0'), undefined);
+    assert.strictEqual(parseConstraint('>=1.0'), undefined);
+  });
+
+  test('Finds the breaking upgrades from the first non-zero number', () => {
+    assert.ok(isBreakingUpgrade(v('1.2.0'), v('2.0.0')));
+    assert.ok(!isBreakingUpgrade(v('1.2.0'), v('1.9.9')));
+    assert.ok(isBreakingUpgrade(v('0.2.0'), v('0.3.0')));
+    assert.ok(!isBreakingUpgrade(v('0.2.0'), v('0.2.5')));
+    assert.ok(isBreakingUpgrade(v('0.0.2'), v('0.0.3')));
+  });
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { planPubspecEdits, PubspecChange } from '../../utils/pubspec_editor';
+
+const PUBSPEC = `name: app
+description: "A new Flutter project."
+
+dependencies:
+  flutter:
+    sdk: flutter
+  # State management
+  bloc: '^8.1.0' # pinned for the CI
+  dio: ^5.0.0
+
+# The tools of the tests
+dev_dependencies:
+  flutter_test:
+    sdk: flutter
+
+flutter:
+  uses-material-design: true
+`;
+
+/** Content of pubspec.yaml once the line edits are applied */
+const apply = (content: string, changes: PubspecChange[]) => {
+  const lines = content.split('\n');
+  [...planPubspecEdits(content, changes)]
+    .reverse()
+    .forEach((edit) => lines.splice(edit.start, edit.end - edit.start, ...edit.lines));
+  return lines.join('\n');
+};
+
+suite('Pubspec Editor', () => {
+  test('Adds packages after the last one of their section', () => {
+    assert.strictEqual(
+      apply(PUBSPEC, [
+        { section: 'dependencies', name: 'get_it', constraint: '^8.0.0' },
+        { section: 'dev_dependencies', name: 'mocktail', constraint: '^1.0.4' },
+      ]),
+      PUBSPEC.replace('  dio: ^5.0.0\n', '  dio: ^5.0.0\n  get_it: ^8.0.0\n').replace(
+        '    sdk: flutter\n\nflutter:',
+        '    sdk: flutter\n  mocktail: ^1.0.4\n\nflutter:',
+      ),
+    );
+  });
+
+  test('Changes a constraint and keeps its quotes and its comment', () => {
+    assert.strictEqual(
+      apply(PUBSPEC, [
+        { section: 'dependencies', name: 'bloc', constraint: '^9.0.0' },
+        { section: 'dependencies', name: 'dio', constraint: '>=5.0.0 <7.0.0' },
+      ]),
+      PUBSPEC.replace("bloc: '^8.1.0' # pinned", "bloc: '^9.0.0' # pinned").replace(
+        'dio: ^5.0.0',
+        "dio: '>=5.0.0 <7.0.0'",
+      ),
+    );
+  });
+
+  test('Rewrites the block constraints and leaves the unchanged packages alone', () => {
+    assert.deepStrictEqual(
+      planPubspecEdits(PUBSPEC, [
+        { section: 'dependencies', name: 'flutter', constraint: { sdk: 'flutter' } },
+        { section: 'dependencies', name: 'dio', constraint: '^5.0.0' },
+      ]),
+      [],
+    );
+    assert.deepStrictEqual(
+      planPubspecEdits(PUBSPEC, [
+        { section: 'dependencies', name: 'dio', constraint: { git: { url: 'https://x/dio.git' } } },
+      ]),
+      [{ start: 8, end: 9, lines: ['  dio:', '    git:', '      url: https://x/dio.git'] }],
+    );
+  });
+
+  test('Creates the missing sections where flutter create puts them', () => {
+    const content = 'name: app\n\ndependencies:\n    http: any\n';
+
+    assert.strictEqual(
+      apply(content, [{ section: 'dev_dependencies', name: 'lints', constraint: '^5.0.0' }]),
+      'name: app\n\ndependencies:\n    http: any\n\ndev_dependencies:\n    lints: ^5.0.0\n',
+    );
+    assert.strictEqual(
+      apply('name: app\ndependencies: {} # none yet\n', [
+        { section: 'dependencies', name: 'http', constraint: '^1.2.0' },
+      ]),
+      'name: app\ndependencies: # none yet\n  http: ^1.2.0\n',
+    );
+  });
+
+  test('Refuses the sections written inline', () => {
+    assert.throws(
+      () =>
+        planPubspecEdits('dependencies: { http: any }\n', [
+          { section: 'dependencies', name: 'dio', constraint: '^5.0.0' },
+        ]),
+      /'dependencies' is written inline/,
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { PackageDependencies } from '../../utils/pub_client';
+import { findPackageHold, findStaleLockEntries, readPubspecLock } from '../../utils/pubspec_lock';
+
+const LOCK = `packages:
+  bloc:
+    dependency: "direct main"
+    description:
+      name: bloc
+      url: "https://pub.dev"
+    source: hosted
+    version: "8.1.4"
+  bloc_test:
+    dependency: "direct dev"
+    source: hosted
+    version: "9.1.7"
+  flutter:
+    dependency: "direct main"
+    description: flutter
+    source: sdk
+    version: "0.0.0"
+  meta:
+    dependency: transitive
+    source: hosted
+    version: "1.15.0"
+sdks:
+  dart: ">=3.5.0 <4.0.0"
+`;
+
+/** Versions of bloc_test and what each one requires of bloc */
+const BLOC_TEST: PackageDependencies = {
+  versions: ['9.1.7', '10.0.0'],
+  dependencies: { '9.1.7': { bloc: '^8.1.0' }, '10.0.0': { bloc: '^9.0.0' } },
+};
+
+suite('Pubspec Lock', () => {
+  let folder: string;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'lock-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  /** Writes a pubspec.lock in the temp folder and reads it */
+  const readLock = (content = LOCK) => {
+    fs.writeFileSync(`${folder}/pubspec.lock`, content);
+    return readPubspecLock(folder)!;
+  };
+
+  test('Reads the version, the source and the kind of every package', () => {
+    const lock = readLock();
+
+    assert.deepStrictEqual(lock.get('bloc'), {
+      version: '8.1.4',
+      source: 'hosted',
+      dependency: 'direct main',
+    });
+    assert.deepStrictEqual([...lock.keys()], ['bloc', 'bloc_test', 'flutter', 'meta']);
+    assert.strictEqual(readPubspecLock(`${folder}/missing`), undefined);
+    assert.throws(() => readLock('packages: [a'), /^Error: pubspec\.lock: /);
+  });
+
+  test('Finds nothing to change when the lock matches pubspec.yaml', () => {
+    const pubspec = {
+      dependencies: { bloc: '^8.1.0', flutter: { sdk: 'flutter' } },
+      dev_dependencies: { bloc_test: '^9.1.0' },
+    };
+
+    assert.deepStrictEqual(findStaleLockEntries(readLock(), pubspec), []);
+  });
+
+  test('Finds the lock entries flutter pub get would change', () => {
+    const pubspec = {
+      dependencies: { bloc: '^9.0.0', dio: '^5.9.0', bloc_test: { git: 'https://a/b.git' } },
+      dev_dependencies: {},
+    };
+
+    assert.deepStrictEqual(findStaleLockEntries(readLock(), pubspec), [
+      { name: 'bloc', reason: 'locked 8.1.4 is outside ^9.0.0' },
+      { name: 'dio', reason: 'missing from pubspec.lock' },
+      { name: 'bloc_test', reason: 'direct dev in pubspec.lock, dependencies in pubspec.yaml' },
+      { name: 'bloc_test', reason: 'hosted in pubspec.lock, git in pubspec.yaml' },
+      { name: 'flutter', reason: 'direct main in pubspec.lock, removed from pubspec.yaml' },
+    ]);
+  });
+
+  test('Only checks that the overridden packages are locked', () => {
+    const pubspec = {
+      dependencies: { bloc: '^9.0.0', flutter: { sdk: 'flutter' } },
+      dependency_overrides: { bloc: '8.1.4', bloc_test: '9.1.7' },
+    };
+
+    assert.deepStrictEqual(findStaleLockEntries(readLock(), pubspec), []);
+  });
+
+  test('Explains which dependency holds a package back and which version releases it', () => {
+    const lock = readLock();
+
+    assert.deepStrictEqual(
+      findPackageHold('bloc', '9.0.0', lock, new Map([['bloc_test', BLOC_TEST]])),
+      {
+        name: 'bloc',
+        locked: '8.1.4',
+        latest: '9.0.0',
+        holders: [
+          { name: 'bloc_test', version: '9.1.7', constraint: '^8.1.0', releasedBy: '10.0.0' },
+        ],
+      },
+    );
+  });
+
+  test('Finds no hold for a package at its latest version, and no holder without metadata', () => {
+    const lock = readLock();
+
+    assert.strictEqual(findPackageHold('bloc', '8.1.4', lock, new Map()), undefined);
+    assert.strictEqual(findPackageHold('dio', '5.9.0', lock, new Map()), undefined);
+    assert.deepStrictEqual(findPackageHold('bloc', '9.0.0', lock, new Map())!.holders, []);
+  });
+});
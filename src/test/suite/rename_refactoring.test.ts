@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import {
+  buildRenameEdit,
+  getMovedPath,
+  renameDartFile,
+  renameIdentifiers,
+} from '../../utils/rename_refactoring';
+
+const NAMES = [{ from: 'login_user_usecase', to: 'sign_in_usecase' }];
+
+suite('Rename Refactoring', () => {
+  let folder: string;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'rename-')).replaceAll('\\', '/');
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  /** Writes the files of an app in the temp folder */
+  const writeFiles = (files: { [file: string]: string }) =>
+    Object.entries(files).forEach(([file, content]) => {
+      fs.mkdirSync(path.dirname(`${folder}/${file}`), { recursive: true });
+      fs.writeFileSync(`${folder}/${file}`, content);
+    });
+
+  test('Renames every case variant of a name, after the allowed prefixes only', () => {
+    assert.strictEqual(
+      renameIdentifiers(
+        'LoginUserUsecase loginUserUsecase MockLoginUserUsecase _loginUserUsecase LOGIN_USER_USECASE login_user_usecase_test GetLoginUserUsecase',
+        NAMES,
+      ),
+      'SignInUsecase signInUsecase MockSignInUsecase _signInUsecase SIGN_IN_USECASE sign_in_usecase_test GetLoginUserUsecase',
+    );
+    assert.strictEqual(
+      renameIdentifiers('IAuthRepository i_auth_repository', [
+        { from: 'auth_repository', to: 'session_repository' },
+      ]),
+      'ISessionRepository i_session_repository',
+    );
+  });
+
+  test('Renames the code and the comments, not the text of the strings', () => {
+    assert.strictEqual(
+      renameIdentifiers(
+        "/// Uses [LoginUserUsecase].\nfinal a = 'LoginUserUsecase ${loginUserUsecase.name} $loginUserUsecase';",
+        NAMES,
+      ),
+      "/// Uses [SignInUsecase].\nfinal a = 'LoginUserUsecase ${signInUsecase.name} $signInUsecase';",
+    );
+    assert.strictEqual(
+      renameIdentifiers('r\'$loginUserUsecase\' """LoginUserUsecase"""', NAMES),
+      'r\'$loginUserUsecase\' """LoginUserUsecase"""',
+    );
+  });
+
+  test('Follows the moves of the folders, then of the files inside them', () => {
+    const moves = [
+      { from: '/app/lib/src/auth', to: '/app/lib/src/session' },
+      { from: '/app/lib/src/session/auth.dart', to: '/app/lib/src/session/session.dart' },
+    ];
+
+    assert.strictEqual(
+      getMovedPath('/app/lib/src/auth/auth.dart', moves),
+      '/app/lib/src/session/session.dart',
+    );
+    assert.strictEqual(
+      getMovedPath('/app/lib/src/auth/a/b.dart', moves),
+      '/app/lib/src/session/a/b.dart',
+    );
+    assert.strictEqual(
+      getMovedPath('/app/lib/src/authentication/b.dart', moves),
+      '/app/lib/src/authentication/b.dart',
+    );
+  });
+
+  test('Updates the relative and package imports of a moved file', () => {
+    const content = [
+      "import 'package:app/src/auth/domain/usecases/login_user_usecase.dart';",
+      "import '../../domain/usecases/login_user_usecase.dart';",
+      "import 'package:bloc/bloc.dart';",
+      '',
+      "final usecase = LoginUserUsecase(); // LoginUserUsecase of 'LoginUserUsecase'",
+      '',
+    ].join('\n');
+    const moves = [
+      {
+        from: '/app/lib/src/auth/domain/usecases/login_user_usecase.dart',
+        to: '/app/lib/src/auth/domain/usecases/sign_in_usecase.dart',
+      },
+      { from: '/app/lib/src/auth/presentation/bloc', to: '/app/lib/src/auth/presentation/cubit' },
+    ];
+
+    assert.strictEqual(
+      renameDartFile('/app', 'app', '/app/lib/src/auth/presentation/bloc/auth_bloc.dart', content, {
+        moves,
+        names: NAMES,
+      }),
+      [
+        "import 'package:app/src/auth/domain/usecases/sign_in_usecase.dart';",
+        "import '../../domain/usecases/sign_in_usecase.dart';",
+        "import 'package:bloc/bloc.dart';",
+        '',
+        "final usecase = SignInUsecase(); // SignInUsecase of 'SignInUsecase'",
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('Only renames the files that use a moved file, directly or through a barrel', () => {
+    writeFiles({
+      'lib/src/auth/domain/usecases/login_user_usecase.dart': 'class LoginUserUsecase {}\n',
+      'lib/src/auth/auth.dart': "export 'domain/usecases/login_user_usecase.dart';\n",
+      'lib/src/home/home_page.dart':
+        "import 'package:app/src/auth/auth.dart';\n\nfinal a = LoginUserUsecase();\n",
+      'lib/src/profile/profile_page.dart': '// LoginUserUsecase is not imported here\n',
+    });
+    const refactoring = {
+      label: 'Rename use case login_user → sign_in',
+      moves: [
+        {
+          from: `${folder}/lib/src/auth/domain/usecases/login_user_usecase.dart`,
+          to: `${folder}/lib/src/auth/domain/usecases/sign_in_usecase.dart`,
+        },
+      ],
+      names: NAMES,
+    };
+
+    const edited = buildRenameEdit(folder, 'app', refactoring)
+      .entries()
+      .map(([uri]) => path.posix.relative(folder, uri.fsPath.replaceAll('\\', '/')));
+
+    assert.deepStrictEqual(edited.sort(), [
+      'lib/src/auth/auth.dart',
+      'lib/src/auth/domain/usecases/login_user_usecase.dart',
+      'lib/src/home/home_page.dart',
+    ]);
+  });
+});
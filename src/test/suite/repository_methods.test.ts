@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import {
+  buildMethodContext,
+  buildRepositoryMethodsContext,
+  isCacheable,
+  RepositoryMethod,
+} from '../../utils/repository_methods';
+
+const LOGIN: RepositoryMethod = {
+  name: 'login',
+  fields: [
+    { name: 'email', type: 'String', nullable: false },
+    { name: 'remember', type: 'bool', nullable: true },
+  ],
+  returnType: 'User',
+};
+
+const GET_TAGS: RepositoryMethod = { name: 'getTags', fields: [], returnType: 'List<String>' };
+
+const SEARCH: RepositoryMethod = {
+  name: 'search',
+  fields: [{ name: 'owner', type: 'User', nullable: false }],
+  returnType: 'List<Product>',
+};
+
+const LOGOUT: RepositoryMethod = { name: 'logout', fields: [], returnType: 'void' };
+
+suite('Repository Methods', () => {
+  test('Builds the signature and the request of a method', () => {
+    const context = buildMethodContext(LOGIN);
+
+    assert.strictEqual(context.parameters, '{required String email, bool? remember}');
+    assert.strictEqual(context.arguments, 'email: email, remember: remember');
+    assert.strictEqual(context.test_arguments, 'email: tEmail, remember: tRemember');
+    assert.strictEqual(context.form_data, "'email': email, 'remember': remember");
+    assert.strictEqual(context.http_method, 'post');
+    assert.strictEqual(context.endpoint, '/login');
+  });
+
+  test('Parses an entity with its model and fixture', () => {
+    const context = buildMethodContext(LOGIN);
+
+    assert.strictEqual(context.model_type, 'UserModel');
+    assert.strictEqual(context.parse_response, 'UserModel.fromJson(response.data)');
+    assert.strictEqual(context.fixture_name, 'user.json');
+    assert.strictEqual(context.cache_encode, 'model.toJson()');
+  });
+
+  test('Casts Dart values and skips the parsing of void', () => {
+    const tags = buildMethodContext(GET_TAGS);
+    assert.strictEqual(tags.http_method, 'get');
+    assert.strictEqual(tags.parameters, '');
+    assert.strictEqual(tags.parse_response, 'List<String>.from(response.data as List)');
+    assert.strictEqual(tags.fixture_name, null);
+
+    const logout = buildMethodContext(LOGOUT);
+    assert.strictEqual(logout.is_void, true);
+    assert.strictEqual(logout.parse_response, null);
+    assert.strictEqual(logout.cache_encode, null);
+  });
+
+  test('Collects the imports and the data strategy of a repository', () => {
+    const remote = buildRepositoryMethodsContext([LOGIN, GET_TAGS, LOGOUT]);
+    assert.deepStrictEqual(remote.entity_imports, ['user']);
+    assert.deepStrictEqual(remote.model_imports, ['user_model']);
+    assert.strictEqual(remote.any_fixture, true);
+    assert.strictEqual(remote.has_local_datasource, false);
+    assert.deepStrictEqual(
+      remote.methods.map((method: any) => method.is_cached),
+      [false, false, false],
+    );
+
+    const cached = buildRepositoryMethodsContext([LOGIN, LOGOUT], 'offline_fallback');
+    assert.strictEqual(cached.has_local_datasource, true);
+    assert.strictEqual(cached.is_offline_fallback, true);
+    assert.deepStrictEqual(
+      cached.methods.map((method: any) => method.is_cached),
+      [true, false],
+    );
+  });
+
+  test('Caches the methods whose arguments can build a cache key', () => {
+    assert.strictEqual(isCacheable(LOGIN), true);
+    assert.strictEqual(
+      isCacheable({ ...GET_TAGS, fields: [{ name: 'ids', type: 'List<int>', nullable: false }] }),
+      true,
+    );
+    assert.strictEqual(isCacheable(SEARCH), false);
+    assert.strictEqual(
+      buildMethodContext(LOGIN).cache_key_arguments,
+      "?${Uri(queryParameters: {'email': '$email', 'remember': '$remember'}).query}",
+    );
+    assert.strictEqual(buildMethodContext(GET_TAGS).cache_key_arguments, '');
+
+    const cached = buildRepositoryMethodsContext([LOGIN, SEARCH], 'cache_then_network');
+    assert.deepStrictEqual(
+      cached.methods.map((method: any) => method.is_cached),
+      [true, false],
+    );
+    assert.strictEqual(cached.any_cached, true);
+    assert.strictEqual(
+      buildRepositoryMethodsContext([SEARCH], 'offline_fallback').any_cached,
+      false,
+    );
+  });
+});
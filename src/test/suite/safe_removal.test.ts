@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { planRemoval } from '../../utils/safe_removal';
+
+const USECASE = 'lib/src/auth/domain/usecases/login_user_usecase.dart';
+
+const INJECTION = `import 'package:get_it/get_it.dart';
+
+import '../domain/usecases/login_user_usecase.dart';
+import '../domain/usecases/logout_usecase.dart';
+
+final sl = GetIt.instance;
+
+Future<void> initAuthFeature() async {
+  sl.registerLazySingleton(() => LoginUserUsecase(sl()));
+  sl.registerLazySingleton<LoginUserUsecase>(
+    () => LoginUserUsecase(sl()),
+  );
+  sl.registerLazySingleton(() => LogoutUsecase(sl()));
+}
+`;
+
+suite('Safe Removal', () => {
+  let folder: string;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'removal-')).replaceAll('\\', '/');
+    writeFiles({
+      [USECASE]: 'class LoginUserUsecase {}\n',
+      'lib/src/auth/domain/usecases/logout_usecase.dart': 'class LogoutUsecase {}\n',
+    });
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  /** Writes the files of an app in the temp folder */
+  const writeFiles = (files: { [file: string]: string }) =>
+    Object.entries(files).forEach(([file, content]) => {
+      fs.mkdirSync(path.dirname(`${folder}/${file}`), { recursive: true });
+      fs.writeFileSync(`${folder}/${file}`, content);
+    });
+
+  /** Plans the removal of the login use case */
+  const plan = () =>
+    planRemoval(
+      folder,
+      'app',
+      'Remove use case login_user',
+      [`${folder}/${USECASE}`],
+      '{{feature_name}}.dart',
+    );
+
+  /** Cleaned up content of a file of the app */
+  const cleanup = (removal: ReturnType<typeof plan>, file: string) =>
+    removal.cleanups.find((item) => item.filePath === `${folder}/${file}`)?.content;
+
+  test('Removes the one-line and the wrapped registrations with their import', () => {
+    writeFiles({ 'lib/src/auth/config/auth_injection.dart': INJECTION });
+
+    const removal = plan();
+
+    assert.strictEqual(
+      cleanup(removal, 'lib/src/auth/config/auth_injection.dart'),
+      `import 'package:get_it/get_it.dart';
+
+import '../domain/usecases/logout_usecase.dart';
+
+final sl = GetIt.instance;
+
+Future<void> initAuthFeature() async {
+  sl.registerLazySingleton(() => LogoutUsecase(sl()));
+}
+`,
+    );
+    assert.deepStrictEqual(removal.usages, []);
+  });
+
+  test('Removes the exports of the barrels, with their show and hide clauses', () => {
+    writeFiles({
+      'lib/src/auth/auth.dart': [
+        "export 'domain/usecases/login_user_usecase.dart'",
+        '    show LoginUserUsecase;',
+        "export 'domain/usecases/logout_usecase.dart' hide LogoutParams;",
+        '',
+      ].join('\n'),
+    });
+
+    assert.strictEqual(
+      cleanup(plan(), 'lib/src/auth/auth.dart'),
+      "export 'domain/usecases/logout_usecase.dart' hide LogoutParams;\n",
+    );
+  });
+
+  test('Reports the usages of the other files without changing them', () => {
+    writeFiles({
+      'lib/src/home/home_page.dart': [
+        "import 'package:app/src/auth/auth.dart' show LoginUserUsecase;",
+        '',
+        '// LoginUserUsecase in a comment is not a usage',
+        'final usecase = LoginUserUsecase();',
+        '',
+      ].join('\n'),
+      'lib/src/auth/auth.dart': "export 'domain/usecases/login_user_usecase.dart';\n",
+      'lib/src/profile/profile_page.dart': 'final usecase = LoginUserUsecase();\n',
+    });
+
+    const removal = plan();
+
+    assert.deepStrictEqual(
+      removal.usages.map((usage) => [
+        path.posix.relative(folder, usage.filePath),
+        usage.line,
+        usage.text,
+      ]),
+      [['lib/src/home/home_page.dart', 3, 'final usecase = LoginUserUsecase();']],
+    );
+    assert.strictEqual(cleanup(removal, 'lib/src/home/home_page.dart'), undefined);
+  });
+
+  test('Reports the statements it cannot remove alone', () => {
+    writeFiles({
+      'lib/src/auth/config/auth_injection.dart': [
+        "import '../domain/usecases/login_user_usecase.dart';",
+        '',
+        'void initAuthFeature() {',
+        '  sl',
+        '    ..registerLazySingleton(() => LogoutUsecase(sl()))',
+        '    ..registerLazySingleton(() => LoginUserUsecase(sl()));',
+        '}',
+        '',
+      ].join('\n'),
+    });
+
+    const removal = plan();
+
+    assert.deepStrictEqual(
+      removal.usages.map((usage) => [usage.line, usage.text]),
+      [[4, '..registerLazySingleton(() => LoginUserUsecase(sl()));']],
+    );
+    assert.ok(
+      cleanup(removal, 'lib/src/auth/config/auth_injection.dart')!.startsWith(
+        '\nvoid initAuthFeature',
+      ),
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { renderTemplate, TemplateError } from '../../utils/template_engine';
+
+suite('Template Engine', () => {
+  test('Renders placeholders with legacy and chained filters', () => {
+    const context = { feature_name: 'user profile' };
+
+    assert.strictEqual(renderTemplate('{{feature_name.snakeCase}}', context), 'user_profile');
+    assert.strictEqual(
+      renderTemplate('{{feature_name | pascalCase | plural}}', context),
+      'UserProfiles',
+    );
+    assert.strictEqual(renderTemplate("'{{key | dartString}}'", { key: "$it's" }), "'\\$it\\'s'");
+  });
+
+  test('Renders conditionals and loops with the loop variables', () => {
+    const template = [
+      '{{#each fields}}',
+      '{{@index}}:{{name}}{{#unless @last}},{{/unless}}',
+      '{{else}}',
+      'none',
+      '{{/each}}',
+      '{{#if is_async}}async{{else}}sync{{/if}}',
+    ].join('\n');
+
+    assert.strictEqual(
+      renderTemplate(template, { fields: [{ name: 'id' }, { name: 'email' }], is_async: true }),
+      '0:id,\n1:email\nasync',
+    );
+    assert.strictEqual(renderTemplate(template, { fields: [], is_async: false }), 'none\nsync');
+  });
+
+  test('Keeps outer values available inside loops', () => {
+    assert.strictEqual(
+      renderTemplate('{{#each items}}{{prefix}}{{this}} {{/each}}', {
+        prefix: '-',
+        items: ['a', 'b'],
+      }),
+      '-a -b ',
+    );
+  });
+
+  test('Writes escaped tags, literal braces and drops comments', () => {
+    assert.strictEqual(renderTemplate('\\{{name}}', {}), '{{name}}');
+    assert.strictEqual(renderTemplate('({{{name}}})', { name: 'id' }), '({id})');
+    assert.strictEqual(renderTemplate('a{{! note }}b', {}), 'ab');
+  });
+
+  test('Reports errors with the template path, line and column', () => {
+    assert.throws(
+      () => renderTemplate('line\n  {{usecase}}', {}, 'bloc.template'),
+      (error: TemplateError) =>
+        error instanceof TemplateError &&
+        error.message === "bloc.template:2:3: Unknown placeholder 'usecase'",
+    );
+    assert.throws(
+      () => renderTemplate('{{name | shout}}', { name: 'a' }),
+      /Unknown filter 'shout'/,
+    );
+    assert.throws(() => renderTemplate('{{#if a}}', { a: true }), /Block '#if' is never closed/);
+    assert.throws(
+      () => renderTemplate('{{#if a}}{{/each}}', { a: true }),
+      /Expected '{{\/if}}' to close the block opened at line 1/,
+    );
+  });
+});
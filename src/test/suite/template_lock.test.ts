@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import {
+  getTemplateLockPath,
+  hashContent,
+  readBaseTemplate,
+  readTemplateFiles,
+  readTemplateLock,
+  writeTemplateLock,
+} from '../../utils/template_lock';
+
+const SOURCE = { kind: 'git' as const, url: 'https://git.company.com/templates.git', ref: 'v2' };
+
+suite('Template Lock', () => {
+  let folder: string;
+  let templates: string;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'lock-')).replaceAll('\\', '/');
+    templates = `${folder}/flutter_tdd_clean_templates`;
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test('Writes the hashes and keeps the installed version of every file', () => {
+    const files = { 'manifest.yaml': 'version: 1\n', 'feature/page.template': 'class A {}\n' };
+
+    const lock = writeTemplateLock(templates, SOURCE, 'abc123', files);
+
+    assert.strictEqual(lock.revision, 'abc123');
+    assert.deepStrictEqual(Object.keys(lock.files), ['feature/page.template', 'manifest.yaml']);
+    assert.strictEqual(lock.files['manifest.yaml'], hashContent('version: 1\n'));
+    assert.deepStrictEqual(readTemplateLock(templates), lock);
+    assert.strictEqual(readBaseTemplate(templates, lock, 'feature/page.template'), 'class A {}\n');
+    assert.deepStrictEqual(readTemplateFiles(`${folder}/.flutter_tdd_clean_templates.base`), files);
+  });
+
+  test('Uses a hash of the files as the revision without a commit', () => {
+    const files = { 'manifest.yaml': 'version: 1\n' };
+
+    const first = writeTemplateLock(templates, SOURCE, undefined, files);
+    const again = writeTemplateLock(templates, SOURCE, undefined, files);
+    const changed = writeTemplateLock(templates, SOURCE, undefined, { 'manifest.yaml': '' });
+
+    assert.match(first.revision, /^sha256:[0-9a-f]{12}$/);
+    assert.strictEqual(again.revision, first.revision);
+    assert.notStrictEqual(changed.revision, first.revision);
+  });
+
+  test('Ignores an installed version that was changed or is not in the lock', () => {
+    const lock = writeTemplateLock(templates, SOURCE, 'abc123', { 'a.template': 'a' });
+    fs.writeFileSync(`${folder}/.flutter_tdd_clean_templates.base/a.template`, 'edited');
+
+    assert.strictEqual(readBaseTemplate(templates, lock, 'a.template'), undefined);
+    assert.strictEqual(readBaseTemplate(templates, lock, 'b.template'), undefined);
+  });
+
+  test('Reads no lock without a lockfile and rejects the invalid ones', () => {
+    assert.strictEqual(readTemplateLock(templates), undefined);
+
+    fs.writeFileSync(getTemplateLockPath(templates), '{');
+    assert.throws(() => readTemplateLock(templates), /flutter_tdd_clean_templates\.lock\.json: /);
+
+    fs.writeFileSync(getTemplateLockPath(templates), '{"version": 2, "files": {}}');
+    assert.throws(() => readTemplateLock(templates), /unsupported lockfile/);
+  });
+});
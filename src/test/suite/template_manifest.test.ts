@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import {
+  checkTemplateManifest,
+  getGeneratorRegistrations,
+  loadGenerator,
+  resolveGeneratorFiles,
+} from '../../utils/template_manifest';
+
+const MANIFEST = `
+version: 1
+generators:
+  usecase:
+    prompts:
+      - name: usecase_name
+        prompt: Use case name?
+    files:
+      - template: usecase.template
+        destination: 'lib/src/{{feature_name}}/{{usecase_name | snakeCase}}_usecase.dart'
+      - template: local.template
+        destination: 'lib/src/{{feature_name}}/local.dart'
+        type: datasource
+        when: has_local_datasource
+    injection:
+      - section: Usecases
+        class: '{{usecase_name | pascalCase}}Usecase'
+        statement: 'sl.registerLazySingleton(() => {{usecase_name | pascalCase}}Usecase(sl()));'
+        imports:
+          - '../domain/usecases/{{usecase_name | snakeCase}}_usecase.dart'
+`;
+
+suite('Template Manifest', () => {
+  let folder: string;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test('Loads a generator and fills the defaults', () => {
+    fs.writeFileSync(`${folder}/manifest.yaml`, MANIFEST);
+
+    const generator = loadGenerator(folder, 'usecase');
+
+    assert.strictEqual(generator.title, 'usecase');
+    assert.strictEqual(generator.prompts[0].name, 'usecase_name');
+    assert.deepStrictEqual(
+      generator.files.map((file) => file.type),
+      ['file', 'datasource'],
+    );
+    assert.throws(() => loadGenerator(folder, 'bloc'), /generator 'bloc' is not declared/);
+  });
+
+  test('Resolves the files whose condition is truthy', () => {
+    fs.writeFileSync(`${folder}/manifest.yaml`, MANIFEST);
+    const generator = loadGenerator(folder, 'usecase');
+    const context = { feature_name: 'auth', usecase_name: 'LoginUser' };
+
+    assert.deepStrictEqual(resolveGeneratorFiles(generator, folder, '/app', context), [
+      {
+        templatePath: `${folder}/usecase.template`,
+        destinationPath: '/app/lib/src/auth/login_user_usecase.dart',
+        type: 'file',
+      },
+    ]);
+    assert.strictEqual(
+      resolveGeneratorFiles(generator, folder, '/app', {
+        ...context,
+        has_local_datasource: true,
+      }).length,
+      2,
+    );
+  });
+
+  test('Renders the registrations', () => {
+    fs.writeFileSync(`${folder}/manifest.yaml`, MANIFEST);
+    const generator = loadGenerator(folder, 'usecase');
+
+    assert.deepStrictEqual(getGeneratorRegistrations(generator, { usecase_name: 'login_user' }), [
+      {
+        section: 'Usecases',
+        className: 'LoginUserUsecase',
+        statement: 'sl.registerLazySingleton(() => LoginUserUsecase(sl()));',
+        importPaths: ['../domain/usecases/login_user_usecase.dart'],
+      },
+    ]);
+  });
+
+  test('Rejects invalid manifests', () => {
+    fs.writeFileSync(`${folder}/manifest.json`, '{"generators": {"page": {"files": []}}}');
+    assert.throws(
+      () => loadGenerator(folder, 'page'),
+      /generator 'page' needs at least one entry in 'files'/,
+    );
+
+    fs.writeFileSync(
+      `${folder}/manifest.json`,
+      JSON.stringify({
+        generators: {
+          page: {
+            files: [{ template: 'a', destination: 'b' }],
+            injection: [{ section: 'Pages', class: 'A', statement: 'a' }],
+          },
+        },
+      }),
+    );
+    assert.throws(() => loadGenerator(folder, 'page'), /injection 1 of generator 'page' needs/);
+  });
+
+  test('Reports templates missing from the folder', () => {
+    fs.writeFileSync(`${folder}/manifest.yaml`, MANIFEST);
+    fs.writeFileSync(`${folder}/usecase.template`, '');
+
+    assert.throws(
+      () => checkTemplateManifest(folder),
+      /template 'local.template' of generator 'usecase' not found/,
+    );
+  });
+
+  test('Bundled manifest only references existing templates', () => {
+    const bundled = path.resolve(
+      __dirname,
+      '..',
+      '..',
+      '..',
+      '.my_templates',
+      'flutter_tdd_clean_templates',
+    );
+
+    assert.ok(fs.existsSync(`${bundled}/manifest.yaml`));
+    assert.doesNotThrow(() => checkTemplateManifest(bundled));
+  });
+});
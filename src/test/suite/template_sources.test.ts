@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import fs = require('fs');
+import http = require('http');
+import os = require('os');
+import path = require('path');
+import { AddressInfo } from 'net';
+import { TemplateSource, withStagedTemplates } from '../../utils/template_sources';
+
+/** An entry of a tar archive, `link` makes it a symbolic link */
+interface TarEntry {
+  name: string;
+  content?: string;
+  link?: string;
+}
+
+/**
+ * Builds a ustar archive, the entries are written as is (ex: `../a`)
+ */
+function tar(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const content = Buffer.from(entry.content ?? '');
+    const header = Buffer.alloc(512);
+    header.write(entry.name, 0);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(`${content.length.toString(8).padStart(11, '0')}\0`, 124);
+    header.write('00000000000\0', 136);
+    header.write(' '.repeat(8), 148);
+    header.write(entry.link === undefined ? '0' : '2', 156);
+    header.write(entry.link ?? '', 157);
+    header.write('ustar\u000000', 257);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+    blocks.push(header, content, Buffer.alloc((512 - (content.length % 512)) % 512));
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+suite('Template Sources', () => {
+  let folder: string;
+  let templateBaseFolder: string;
+  let server: http.Server | undefined;
+
+  setup(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'sources-'));
+    templateBaseFolder = `${folder}/app/.my_templates/flutter_tdd_clean_templates`;
+    fs.mkdirSync(path.dirname(templateBaseFolder), { recursive: true });
+  });
+
+  teardown(() => {
+    server?.close();
+    server = undefined;
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  /** Stages a source and returns its template count, or the message of its error */
+  const stage = (source: TemplateSource) =>
+    withStagedTemplates(
+      templateBaseFolder,
+      source,
+      '',
+      async (staged) => staged.templateCount,
+    ).catch((error: Error) => error.message);
+
+  /** Stages an archive of the given entries */
+  const stageArchive = (entries: TarEntry[]) => {
+    fs.writeFileSync(`${folder}/templates.tar`, tar(entries));
+    return stage({ kind: 'archive', location: `${folder}/templates.tar` });
+  };
+
+  /** Serves the files of an HTTP source on 127.0.0.1 and stages it */
+  const stageHttp = async (files: { [file: string]: string }) => {
+    server = http.createServer((request, response) => {
+      const file = decodeURIComponent(request.url!.slice(1));
+      response.writeHead(file in files ? 200 : 404);
+      response.end(files[file] ?? '');
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return stage({ kind: 'http', baseUrl: `http://127.0.0.1:${port}` });
+  };
+
+  test('Extracts the archive entries inside its folder, links included', async () => {
+    const count = await stageArchive([
+      { name: 'templates/feature/a.template', content: 'a' },
+      { name: 'templates/feature/b.template', link: 'a.template' },
+    ]);
+
+    assert.strictEqual(count, 2);
+  });
+
+  test('Rejects the archive entries outside of its folder', async () => {
+    const entries: TarEntry[] = [
+      { name: '../escaped.template', content: 'a' },
+      { name: 'feature/../../escaped.template', content: 'a' },
+      { name: `${folder}/absolute.template`, content: 'a' },
+      { name: 'C:/drive.template', content: 'a' },
+      { name: '..\\windows.template', content: 'a' },
+      { name: 'link.template', link: '../../escaped.template' },
+      { name: 'absolute_link.template', link: '/etc/passwd' },
+    ];
+
+    for (const entry of entries) {
+      const message = await stageArchive([{ name: 'feature/a.template', content: 'a' }, entry]);
+
+      assert.strictEqual(
+        message,
+        `the archive has entries outside of its folder: ${entry.name}`,
+        entry.name,
+      );
+    }
+    assert.deepStrictEqual(fs.readdirSync(folder).sort(), ['app', 'templates.tar']);
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(templateBaseFolder)), []);
+  });
+
+  test('Downloads the templates listed in the index of an HTTP source', async () => {
+    const count = await stageHttp({
+      'index.txt': '# templates\nfeature/a.template\n\nfeature/b c.template\n',
+      'feature/a.template': 'a',
+      'feature/b c.template': 'b',
+    });
+
+    assert.strictEqual(count, 2);
+  });
+
+  test('Rejects an index that lists paths outside of the HTTP source', async () => {
+    for (const file of ['../escaped.template', '/etc/passwd', 'C:\\drive.template']) {
+      const message = await stageHttp({ 'index.txt': `feature/a.template\n${file}\n` });
+      server!.close();
+
+      assert.match(
+        String(message),
+        /^index\.txt must only list paths inside http:\/\/127\.0\.0\.1:/,
+      );
+    }
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(templateBaseFolder)), []);
+  });
+
+  test('Passes the URL of a git source to git clone as a repository, never as an option', async () => {
+    const message = await stage({
+      kind: 'git',
+      url: `--upload-pack=touch ${folder}/pwned`,
+      ref: '',
+    });
+
+    assert.match(String(message), /--upload-pack=touch/);
+    assert.ok(!fs.existsSync(`${folder}/pwned`));
+  });
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { mergeThreeWay } from '../../utils/three_way_merge';
+
+const LABELS = { local: 'local', base: 'installed', upstream: 'upstream' };
+const BASE = ['import a;', '', 'class A {', '  void a();', '}', ''].join('\n');
+
+suite('Three Way Merge', () => {
+  test('Keeps the changes made on one side only', () => {
+    const local = BASE.replace('import a;', 'import a;\nimport b;');
+    const upstream = BASE.replace('  void a();', '  void a();\n  void c();');
+
+    assert.deepStrictEqual(mergeThreeWay(BASE, local, upstream, LABELS), {
+      content: [
+        'import a;',
+        'import b;',
+        '',
+        'class A {',
+        '  void a();',
+        '  void c();',
+        '}',
+        '',
+      ].join('\n'),
+      conflicts: 0,
+    });
+    assert.deepStrictEqual(mergeThreeWay(BASE, BASE, BASE, LABELS), {
+      content: BASE,
+      conflicts: 0,
+    });
+  });
+
+  test('Applies the same change made on both sides once', () => {
+    const changed = BASE.replace('void a();', 'Future<void> a();');
+
+    assert.deepStrictEqual(mergeThreeWay(BASE, changed, changed, LABELS), {
+      content: changed,
+      conflicts: 0,
+    });
+  });
+
+  test('Writes the different changes of the same lines with diff3 markers', () => {
+    const local = BASE.replace('void a();', 'void b();');
+    const upstream = BASE.replace('void a();', 'int a();');
+
+    const result = mergeThreeWay(BASE, local, upstream, LABELS);
+
+    assert.strictEqual(result.conflicts, 1);
+    assert.strictEqual(
+      result.content,
+      [
+        'import a;',
+        '',
+        'class A {',
+        '<<<<<<< local',
+        '  void b();',
+        '||||||| installed',
+        '  void a();',
+        '=======',
+        '  int a();',
+        '>>>>>>> upstream',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('Counts a conflict for the changes of adjacent lines', () => {
+    const local = BASE.replace('class A {', 'class B {');
+    const upstream = BASE.replace('  void a();', '  void c();');
+
+    assert.strictEqual(mergeThreeWay(BASE, local, upstream, LABELS).conflicts, 1);
+  });
+});
@@ -0,0 +1,195 @@
+import { readFileSync } from 'fs';
+import { camelCase, pascalCase, snakeCase } from 'change-case';
+import fs = require('fs');
+import { TemplateContext } from './template_engine';
+import { InjectionRegistration } from './injection';
+import { loadGenerator, ResolvedTemplateFile, resolveGeneratorFiles } from './template_manifest';
+import { getEntityImports, getFakeClasses, getTestValue } from './dart_fields';
+
+/**
+ * 📋 INTERFACE: Information extracted from an existing use case file
+ */
+export interface UsecaseInfo {
+  /** Use case name in snake_case without the `_usecase` suffix (ex: login_user) */
+  name: string;
+  /** File name inside domain/usecases/ (ex: login_user_usecase.dart) */
+  fileName: string;
+  /** Dart class name (ex: LoginUserUsecase) */
+  className: string;
+  /** Whether the use case extends UsecaseBaseWithParams */
+  hasParams: boolean;
+  /** Type returned inside the ResultFuture (ex: Token, void, List<User>) */
+  returnType: string;
+}
+
+/**
+ * 📂 FUNCTION: Templates of a Bloc (bloc, events, states, test) or a Cubit (cubit, states, test)
+ *
+ * Resolved from the 'bloc' or 'cubit' generator of the manifest, the bloc
+ * or the cubit itself comes first.
+ *
+ * @param blocName - Bloc name as entered (ex: authentication)
+ */
+export function getBlocTemplates(
+  templateBaseFolder: string,
+  rootFolder: string,
+  featureName: string,
+  blocName: string,
+  isCubit: boolean,
+): ResolvedTemplateFile[] {
+  return resolveGeneratorFiles(
+    loadGenerator(templateBaseFolder, isCubit ? 'cubit' : 'bloc'),
+    templateBaseFolder,
+    rootFolder,
+    { feature_name: featureName, bloc_name: blocName },
+  );
+}
+
+/**
+ * 💉 FUNCTION: Registration of a Bloc or Cubit as a factory, with its use cases
+ */
+export function getBlocRegistration(
+  blocName: string,
+  isCubit: boolean,
+  usecases: UsecaseInfo[],
+): InjectionRegistration {
+  const kind = isCubit ? 'Cubit' : 'Bloc';
+  const holder = `${pascalCase(blocName)}${kind}`;
+  const dependencies = usecases
+    .map((usecase) => `${camelCase(usecase.className)}: sl()`)
+    .join(', ');
+
+  return {
+    section: 'Blocs',
+    className: holder,
+    statement: `sl.registerFactory(() => ${holder}(${dependencies}));`,
+    importPaths: [`../presentation/blocs/${snakeCase(blocName)}_${kind.toLowerCase()}.dart`],
+  };
+}
+
+/**
+ * 🧩 FUNCTION: Build the template values of the selected use cases
+ *
+ * The bloc templates loop over `usecases`, the values that need to
+ * inspect the Dart types (test data, fakes, entity imports of the
+ * results) are built with the helpers of dart_fields.
+ *
+ * @param usecases - Use cases to inject
+ */
+export function buildUsecasesContext(usecases: UsecaseInfo[]): TemplateContext {
+  const returnTypes = usecases
+    .map((usecase) => usecase.returnType.replace(/\?$/, ''))
+    .filter((type) => type !== 'void');
+
+  return {
+    any_params: usecases.some((usecase) => usecase.hasParams),
+    entity_imports: getEntityImports(returnTypes),
+    fake_classes: getFakeClasses(returnTypes),
+    usecases: usecases.map((usecase) => {
+      const isVoid = usecase.returnType === 'void';
+
+      return {
+        name: usecase.name,
+        file_name: usecase.fileName,
+        class_name: usecase.className,
+        return_type: usecase.returnType,
+        has_params: usecase.hasParams,
+        is_void: isVoid,
+        test_data: isVoid
+          ? null
+          : `final tData = ${getTestValue(usecase.returnType.replace(/\?$/, ''), 'data')};`,
+        has_test_values: usecase.hasParams || !isVoid,
+      };
+    }),
+  };
+}
+
+/**
+ * 🔍 FUNCTION: Read the top-level generic arguments starting at `<`
+ *
+ * Ex: `<List<User>, Params>` → ['List<User>', 'Params']
+ */
+export function readGenericArguments(content: string, openIndex: number): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = openIndex; i < content.length; i++) {
+    const char = content[i];
+    if (char === '<') {
+      depth++;
+      if (depth === 1) {
+        continue;
+      }
+    } else if (char === '>') {
+      depth--;
+      if (depth === 0) {
+        args.push(current.trim());
+        break;
+      }
+    } else if (char === ',' && depth === 1) {
+      args.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  return args;
+}
+
+/**
+ * 🔍 FUNCTION: List the use cases of a feature
+ *
+ * Reads every `*_usecase.dart` file in the given folder and extracts
+ * the information needed to inject it in a bloc.
+ *
+ * @param usecasesFolder - Path to lib/src/{feature}/domain/usecases
+ * @returns Array with the information of each use case found
+ */
+export function getFeatureUsecases(usecasesFolder: string): UsecaseInfo[] {
+  if (!fs.existsSync(usecasesFolder)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(usecasesFolder)
+    .filter((file) => file.endsWith('_usecase.dart'))
+    .map((file) => parseUsecaseFile(`${usecasesFolder}/${file}`, file))
+    .filter((usecase): usecase is UsecaseInfo => usecase !== undefined);
+}
+
+/**
+ * 🔍 FUNCTION: Parse a use case file
+ *
+ * Looks for the class that extends `UsecaseBaseWithParams` or
+ * `UsecaseBaseWithoutParams` and for the type returned by `call`.
+ */
+export function parseUsecaseFile(filePath: string, fileName: string): UsecaseInfo | undefined {
+  const content = readFileSync(filePath, 'utf8');
+  const classMatch = content.match(
+    /class\s+(\w+)\s+extends\s+UsecaseBase(WithParams|WithoutParams)\s*</,
+  );
+  if (!classMatch) {
+    console.log(`⚠️ No use case class found in: ${filePath}`);
+    return undefined;
+  }
+
+  // Prefer the type declared in `ResultFuture<T> call(`, fallback to the first generic argument
+  let returnType = 'void';
+  const callIndex = content.search(/ResultFuture\s*<[^;{]*>\s+call\s*\(/);
+  if (callIndex !== -1) {
+    returnType = readGenericArguments(content, content.indexOf('<', callIndex))[0] ?? 'void';
+  } else {
+    returnType =
+      readGenericArguments(content, content.indexOf('<', classMatch.index!))[0] ?? 'void';
+  }
+
+  return {
+    name: fileName.replace(/_usecase\.dart$/, ''),
+    fileName,
+    className: classMatch[1],
+    hasParams: classMatch[2] === 'WithParams',
+    returnType,
+  };
+}
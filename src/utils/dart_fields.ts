@@ -0,0 +1,338 @@
+import { window } from 'vscode';
+import { camelCase, pascalCase, snakeCase } from 'change-case';
+import { TemplateContext } from './template_engine';
+
+/**
+ * 📋 INTERFACE: A field of a generated Dart class (ex: the fields of `Params`)
+ */
+export interface DartField {
+  /** Field name in camelCase */
+  name: string;
+  /** Dart type without the nullable mark (ex: String, List<int>, User) */
+  type: string;
+  nullable: boolean;
+  /** Dart expression used as default value in the constructor */
+  defaultValue?: string;
+}
+
+const COMMON_TYPES = ['String', 'int', 'double', 'bool', 'DateTime', 'List<String>'];
+const OTHER_TYPE = 'Other type...';
+
+/** Types that never need an import from domain/entities/ */
+const DART_TYPES = [
+  'String',
+  'int',
+  'double',
+  'num',
+  'bool',
+  'DateTime',
+  'Duration',
+  'Uri',
+  'BigInt',
+  'Object',
+  'dynamic',
+  'void',
+  'List',
+  'Map',
+  'Set',
+  'Iterable',
+  'Future',
+  'Stream',
+];
+
+/**
+ * 🧙 FUNCTION: Ask the fields of a class one by one
+ *
+ * For each field asks its name, Dart type, whether it is nullable and its
+ * default value. An empty name finishes the list.
+ *
+ * @param title - Title shown in every input
+ * @returns The fields, or undefined when the user cancels
+ */
+export async function askDartFields(title: string): Promise<DartField[] | undefined> {
+  const fields: DartField[] = [];
+
+  while (true) {
+    const rawName = await window.showInputBox({
+      title,
+      prompt: `Field ${fields.length + 1} name? Leave it empty to finish`,
+      placeHolder: 'Ex: email, user_id, page',
+      validateInput: function (value: string) {
+        if (!value) {
+          return null;
+        }
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(value)) {
+          return 'Only letters, numbers and _ are allowed!';
+        }
+        if (fields.some((field) => field.name === camelCase(value))) {
+          return 'This field already exists!';
+        }
+        return null;
+      },
+    });
+    if (rawName === undefined) {
+      return undefined;
+    }
+    if (!rawName) {
+      return fields;
+    }
+    const name = camelCase(rawName);
+
+    const type = await askDartType(title, `Type of '${name}'?`);
+    if (!type) {
+      return undefined;
+    }
+
+    const nullable = await window.showQuickPick(['No', 'Yes'], {
+      title,
+      placeHolder: `Is '${name}' nullable (${type}?)`,
+    });
+    if (!nullable) {
+      return undefined;
+    }
+
+    const defaultValue = await window.showInputBox({
+      title,
+      prompt: `Default value of '${name}'? Leave it empty for none`,
+      placeHolder: "A Dart expression, ex: 'guest', 20, false, const []",
+    });
+    if (defaultValue === undefined) {
+      return undefined;
+    }
+
+    fields.push({
+      name,
+      type,
+      nullable: nullable === 'Yes',
+      defaultValue: defaultValue.trim() || undefined,
+    });
+  }
+}
+
+/**
+ * 🎯 FUNCTION: Ask the entity returned inside the `ResultFuture`
+ *
+ * @returns The Dart type (`void` when nothing is returned), or undefined when the user cancels
+ */
+export async function askReturnType(title: string): Promise<string | undefined> {
+  const returnType = await window.showInputBox({
+    title,
+    prompt: 'Returned entity type? (void when nothing is returned)',
+    value: 'void',
+    placeHolder: 'Ex: void, User, List<Product>, bool',
+    validateInput: function (value: string) {
+      if (!value || value.includes(' ')) {
+        return 'Type is required and spaces are not allowed!';
+      }
+      return null;
+    },
+  });
+
+  return returnType;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Ask a Dart type among the common ones or a custom one
+ */
+async function askDartType(title: string, placeHolder: string): Promise<string | undefined> {
+  const picked = await window.showQuickPick([...COMMON_TYPES, OTHER_TYPE], { title, placeHolder });
+  if (picked !== OTHER_TYPE) {
+    return picked;
+  }
+
+  return window.showInputBox({
+    title,
+    prompt: placeHolder,
+    placeHolder: 'Ex: User, List<Product>, Map<String, int>',
+    validateInput: function (value: string) {
+      if (!value || value.includes(' ')) {
+        return 'Type is required and spaces are not allowed!';
+      }
+      return null;
+    },
+  });
+}
+
+/**
+ * 🧩 FUNCTION: Template values of a list of fields
+ *
+ * Every item has: name, type (with `?` when nullable), is_nullable,
+ * default_value, constructor_param (ex: `required this.email`) and
+ * test_value (a Dart expression to use in the tests).
+ */
+export function buildFieldsContext(fields: DartField[]): TemplateContext[] {
+  return fields.map((field) => {
+    let constructorParam = `required this.${field.name}`;
+    if (field.defaultValue) {
+      constructorParam = `this.${field.name} = ${field.defaultValue}`;
+    } else if (field.nullable) {
+      constructorParam = `this.${field.name}`;
+    }
+
+    return {
+      name: field.name,
+      type: `${field.type}${field.nullable ? '?' : ''}`,
+      is_nullable: field.nullable,
+      default_value: field.defaultValue ?? null,
+      constructor_param: constructorParam,
+      test_value: getTestValue(field.type, field.name),
+    };
+  });
+}
+
+/**
+ * 🧩 FUNCTION: Template values of the returned entity
+ *
+ * - return_type: the Dart type (ex: User)
+ * - is_void: whether nothing is returned
+ * - test_result: a Dart expression of that type to use in the tests
+ */
+export function buildReturnContext(returnType: string): TemplateContext {
+  const isVoid = returnType === 'void';
+  return {
+    return_type: returnType,
+    is_void: isVoid,
+    test_result: isVoid ? null : getTestValue(returnType.replace(/\?$/, ''), 'result'),
+  };
+}
+
+/**
+ * 🧩 FUNCTION: Template values of the Params fields and the returned entity
+ *
+ * - fields: the `Params` fields (see buildFieldsContext)
+ * - return_type, is_void, test_result: the returned entity
+ * - fake_classes: fakes used by the test values of custom types
+ * - entity_imports: entity files used by the fields and the returned entity
+ */
+export function buildParamsContext(fields: DartField[], returnType: string): TemplateContext {
+  const types = fields.map((field) => field.type);
+  if (returnType !== 'void') {
+    types.push(returnType);
+  }
+
+  return {
+    fields: buildFieldsContext(fields),
+    ...buildReturnContext(returnType),
+    fake_classes: getFakeClasses(types),
+    entity_imports: getEntityImports(types),
+  };
+}
+
+/**
+ * 🎭 FUNCTION: Fake classes needed by the test values of custom types
+ *
+ * Ex: `class FakeUser extends Fake implements User {}`
+ */
+export function getFakeClasses(types: string[]): string[] {
+  const fakes = types
+    .map((type) => type.replace(/\?$/, ''))
+    .filter((type) => getTestLiteral(type) === undefined)
+    .map((type) => `class ${getFakeName(type)} extends Fake implements ${type} {}`);
+  return [...new Set(fakes)];
+}
+
+/**
+ * 📦 FUNCTION: Entity files used by some types
+ *
+ * Every class name that is not a Dart type is expected in
+ * domain/entities/{snake_case}.dart (ex: List<UserAddress> → user_address).
+ *
+ * @returns File names without extension, without duplicates
+ */
+export function getEntityImports(types: string[]): string[] {
+  const names = types.flatMap((type) => type.match(/[A-Za-z_]\w*/g) ?? []);
+  return [
+    ...new Set(names.filter((name) => !DART_TYPES.includes(name)).map((name) => snakeCase(name))),
+  ];
+}
+
+/**
+ * 🧪 FUNCTION: A Dart expression of the given type to use in the tests
+ *
+ * Core types get a literal, custom types the fake of getFakeClasses.
+ */
+export function getTestValue(type: string, name: string): string {
+  return getTestLiteral(type, name) ?? `${getFakeName(type)}()`;
+}
+
+/**
+ * 🧪 FUNCTION: Literal of a Dart core type, undefined for custom types
+ */
+function getTestLiteral(type: string, name = 'value'): string | undefined {
+  const literals: { [key: string]: string } = {
+    String: `'test_${snakeCase(name)}'`,
+    int: '1',
+    double: '1.0',
+    num: '1',
+    bool: 'true',
+    DateTime: 'DateTime(2024)',
+    Object: `'test_${snakeCase(name)}'`,
+    dynamic: `'test_${snakeCase(name)}'`,
+  };
+
+  if (literals[type]) {
+    return literals[type];
+  }
+  const generic = type.match(/^(List|Iterable|Set|Map)<(.+)>$/);
+  if (generic) {
+    return ['Set', 'Map'].includes(generic[1]) ? `<${generic[2]}>{}` : `<${generic[2]}>[]`;
+  }
+  return undefined;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Name of the fake class of a custom type (ex: Stream<User> → FakeStreamUser)
+ */
+function getFakeName(type: string): string {
+  return `Fake${pascalCase(type.replace(/\W+/g, ' '))}`;
+}
+
+/**
+ * 📖 FUNCTION: Read the fields of a Dart parameter list
+ *
+ * Ex: `{required String email, int page = 1, User? owner}` → email, page (default 1), owner (nullable).
+ * Parameters without a type (ex: `this.email`) are skipped.
+ *
+ * @param parameters - Text between the parentheses of a declaration
+ */
+export function parseDartParameters(parameters: string): DartField[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of parameters) {
+    // The braces of the named parameters and the brackets of the optional ones are not kept
+    if ('{['.includes(char) && depth === 0 && current.trim() === '') {
+      continue;
+    }
+    if ('}]'.includes(char) && depth === 0) {
+      continue;
+    }
+    if ('<([{'.includes(char)) {
+      depth++;
+    } else if ('>)]}'.includes(char)) {
+      depth--;
+    }
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items
+    .map((item) =>
+      item
+        .replace(/^\s*required\s+/, '')
+        .trim()
+        .match(/^(.+?)\s+(\w+)(?:\s*=\s*(.+))?$/s),
+    )
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, type, name, defaultValue]) => ({
+      name,
+      type: type.replace(/\?$/, ''),
+      nullable: type.endsWith('?'),
+      defaultValue: defaultValue?.trim(),
+    }));
+}
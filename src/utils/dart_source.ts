@@ -0,0 +1,491 @@
+import fs = require('fs');
+import path = require('path');
+
+/**
+ * 📋 INTERFACE: A top level declaration of a Dart file that has a body
+ */
+export interface DartBlock {
+  /** Class or function name (ex: IAuthenticationRepository, main) */
+  name: string;
+  /** Index of the opening brace of the body */
+  openIndex: number;
+  /** Index of the closing brace of the body */
+  closeIndex: number;
+}
+
+/**
+ * 📋 INTERFACE: A parameter of a constructor
+ */
+export interface DartParameter {
+  name: string;
+  /** Declared type, or the type of the field for `this.field` (ex: IApiRequestHandler) */
+  type: string;
+  /** Whether the parameter is inside `{}` */
+  named: boolean;
+}
+
+/**
+ * 🙈 FUNCTION: Hide the comments and the strings of a Dart source
+ *
+ * Every character of a comment or a string (interpolations included) is
+ * replaced by a space, new lines are kept. The result has the same length
+ * and the same line numbers, so indexes found in it are valid in the source.
+ */
+export function maskDartCode(content: string): string {
+  const chars = content.split('');
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (chars[i] !== '\n') {
+        chars[i] = ' ';
+      }
+    }
+  };
+
+  let index = 0;
+  while (index < content.length) {
+    let end = index + 1;
+    if (content.startsWith('//', index)) {
+      end = content.indexOf('\n', index);
+      end = end === -1 ? content.length : end;
+      blank(index, end);
+    } else if (content.startsWith('/*', index)) {
+      end = content.indexOf('*/', index + 2);
+      end = end === -1 ? content.length : end + 2;
+      blank(index, end);
+    } else if (content[index] === "'" || content[index] === '"') {
+      end = skipDartString(content, index);
+      blank(index, end);
+    }
+    index = end;
+  }
+
+  return chars.join('');
+}
+
+/**
+ * 🔍 FUNCTION: Find the closing brace that matches the one at `openIndex`
+ *
+ * Braces inside comments and strings are ignored.
+ *
+ * @returns Index of the closing brace or -1 when not found
+ */
+export function findClosingBrace(content: string, openIndex: number): number {
+  const code = maskDartCode(content);
+  let depth = 0;
+  for (let i = openIndex; i < code.length; i++) {
+    if (code[i] === '{') {
+      depth++;
+    } else if (code[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * 🧱 FUNCTION: Classes, mixins, extensions, enums and functions declared at the top level
+ *
+ * Top level variables initialized with a map or a set literal are ignored.
+ */
+export function getTopLevelBlocks(content: string): DartBlock[] {
+  const code = maskDartCode(content);
+  const blocks: DartBlock[] = [];
+  let depth = 0;
+  let headerStart = 0;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ';' && depth === 0) {
+      headerStart = i + 1;
+    } else if (char === '{' && depth === 0) {
+      const closeIndex = findClosingBrace(content, i);
+      if (closeIndex === -1) {
+        break;
+      }
+      const header = code.slice(headerStart, i);
+      const name =
+        header.match(/\b(?:class|mixin|extension|enum)\s+(\w+)/)?.[1] ??
+        header.match(/(\w+)\s*(?:<[^>]*>)?\s*\([^]*\)\s*(?:async\*?|sync\*)?\s*$/)?.[1];
+      if (name && !/=/.test(header.replace(/\([^]*\)/, ''))) {
+        blocks.push({ name, openIndex: i, closeIndex });
+      }
+      i = closeIndex;
+      headerStart = closeIndex + 1;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * 🧩 FUNCTION: Members of a block, as written in the source
+ *
+ * Members are separated by blank lines at the first level of the block,
+ * so a member keeps its doc comment, its annotations and its own blank lines.
+ * Ex: the constructor, a field or a method of a class, a `group(...)` of a `main()`.
+ */
+export function getBlockMembers(content: string, block: DartBlock): string[] {
+  const code = maskDartCode(content);
+  const members: string[] = [];
+  let current: string[] = [];
+  let depth = 0;
+  let lineStart = block.openIndex + 1;
+
+  while (lineStart < block.closeIndex) {
+    let lineEnd = content.indexOf('\n', lineStart);
+    lineEnd = lineEnd === -1 || lineEnd > block.closeIndex ? block.closeIndex : lineEnd;
+    const line = content.slice(lineStart, lineEnd);
+
+    if (line.trim() === '' && depth === 0) {
+      if (current.length > 0) {
+        members.push(current.join('\n'));
+        current = [];
+      }
+    } else {
+      current.push(line);
+    }
+    for (const char of code.slice(lineStart, lineEnd)) {
+      if ('{(['.includes(char)) {
+        depth++;
+      } else if ('})]'.includes(char)) {
+        depth--;
+      }
+    }
+    lineStart = lineEnd + 1;
+  }
+  if (current.length > 0) {
+    members.push(current.join('\n'));
+  }
+
+  return members;
+}
+
+/**
+ * 🏗️ FUNCTION: Parameters of the unnamed constructor of a class
+ *
+ * Read from the members of the class: `this.field` parameters take the
+ * type of their field, default values are ignored.
+ * Ex: `const AuthRepositoryImpl(this._remote, {Dio? client})`
+ * → _remote (IAuthRemoteDataSource), client (Dio?, named)
+ *
+ * @returns The parameters in the order of the source ([] without constructor),
+ *          or undefined when the class is not declared
+ */
+export function getConstructorParameters(
+  content: string,
+  className: string,
+): DartParameter[] | undefined {
+  const block = getTopLevelBlocks(content).find((item) => item.name === className);
+  if (!block) {
+    return undefined;
+  }
+
+  const members = getBlockMembers(content, block).map((member) => maskDartCode(member));
+  const fieldTypes = new Map<string, string>();
+  members.forEach((member) => {
+    for (const field of member.matchAll(/^\s*(?:late\s+)?final\s+(.+?)\s+(\w+)\s*(?:=[^;]*)?;/gm)) {
+      fieldTypes.set(field[2], field[1].trim());
+    }
+  });
+
+  const constructorPattern = new RegExp(`^\\s*(?:const\\s+)?${className}\\s*\\(`, 'm');
+  const member = members.find((item) => constructorPattern.test(item));
+  if (!member) {
+    return [];
+  }
+
+  const parameters: DartParameter[] = [];
+  let current = '';
+  let named = false;
+  let depth = 0;
+  const pushParameter = () => {
+    const text = current
+      .replace(/^\s*required\s+/, '')
+      .replace(/=[\s\S]*$/, '')
+      .trim();
+    current = '';
+    if (!text) {
+      return;
+    }
+    const field = text.match(/^(?:this|super)\.(\w+)$/);
+    const typed = text.match(/^([\s\S]*\S)\s+(\w+)$/);
+    if (field) {
+      parameters.push({ name: field[1], type: fieldTypes.get(field[1]) ?? 'dynamic', named });
+    } else {
+      parameters.push({
+        name: typed ? typed[2] : text,
+        type: typed ? typed[1].replace(/\s+/g, ' ') : 'dynamic',
+        named,
+      });
+    }
+  };
+
+  for (const char of member.slice(member.search(constructorPattern)).replace(/^[^(]*\(/, '')) {
+    if (depth === 0 && (char === ',' || char === ')')) {
+      pushParameter();
+      if (char === ')') {
+        break;
+      }
+    } else if (depth === 0 && '{['.includes(char) && !current.trim()) {
+      named = char === '{';
+    } else if (depth === 0 && '}]'.includes(char)) {
+      continue;
+    } else {
+      if ('<([{'.includes(char)) {
+        depth++;
+      } else if ('>)]}'.includes(char)) {
+        depth--;
+      }
+      current += char;
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * ➕ FUNCTION: Add a member at the end of a block, after a blank line
+ *
+ * @param content - Dart source
+ * @param blockName - Name of the class or the function (see getTopLevelBlocks)
+ * @param member - Member text with its indentation
+ * @returns The new source, or undefined when the block does not exist
+ */
+export function addMemberToBlock(
+  content: string,
+  blockName: string,
+  member: string,
+): string | undefined {
+  const block = getTopLevelBlocks(content).find((item) => item.name === blockName);
+  if (!block) {
+    return undefined;
+  }
+
+  const before = content.slice(0, block.closeIndex).trimEnd();
+  const separator = before.endsWith('{') ? '\n' : '\n\n';
+  return `${before}${separator}${member}\n${content.slice(block.closeIndex)}`;
+}
+
+/**
+ * ➕ FUNCTION: Add an import unless it already exists
+ *
+ * The import goes after the last one of the same kind (`dart:`, `package:`
+ * or relative), or after the last import when there is none of its kind.
+ */
+export function addImport(content: string, importPath: string): string {
+  const importLine = `import '${importPath}';`;
+  const imports = [...content.matchAll(/^import\s+['"]([^'"]+)['"][^;]*;[ \t]*$/gm)];
+  if (imports.some((item) => item[1] === importPath)) {
+    return content;
+  }
+  if (imports.length === 0) {
+    return `${importLine}\n\n${content}`;
+  }
+
+  const sameKind = imports.filter((item) => getImportKind(item[1]) === getImportKind(importPath));
+  const last = sameKind.length > 0 ? sameKind[sameKind.length - 1] : imports[imports.length - 1];
+  const insertAt = last.index! + last[0].length;
+  return `${content.slice(0, insertAt)}\n${importLine}${content.slice(insertAt)}`;
+}
+
+/**
+ * 📦 FUNCTION: Paths of the imports of a Dart source
+ */
+export function getImports(content: string): string[] {
+  return [...content.matchAll(/^import\s+['"]([^'"]+)['"][^;]*;[ \t]*$/gm)].map((item) => item[1]);
+}
+
+/**
+ * 🔗 FUNCTION: Absolute path of the file of an import, export or part
+ *
+ * @returns The path, or undefined for `dart:` imports and other packages
+ */
+export function resolveImport(
+  rootFolder: string,
+  packageName: string,
+  filePath: string,
+  importUri: string,
+): string | undefined {
+  const packagePrefix = `package:${packageName}/`;
+  if (importUri.startsWith(packagePrefix)) {
+    return `${rootFolder}/lib/${importUri.slice(packagePrefix.length)}`;
+  }
+  if (/^[a-z]+:/.test(importUri)) {
+    return undefined;
+  }
+  return path.posix.join(path.posix.dirname(filePath), importUri);
+}
+
+/**
+ * 📂 FUNCTION: Every .dart file of a folder, recursively
+ */
+export function getDartFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = `${dir}/${entry.name}`;
+    if (entry.isDirectory()) {
+      return getDartFiles(fullPath);
+    }
+    return entry.name.endsWith('.dart') ? [fullPath] : [];
+  });
+}
+
+/**
+ * 🔍 FUNCTION: Ranges of the text of the string literals of a Dart source
+ *
+ * Quotes included, comments skipped. The code of the interpolations
+ * (`${user.name}`, `$name`) is not part of the ranges.
+ */
+export function getStringRanges(content: string): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  scanStrings(content, 0, ranges, false);
+  return ranges;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Index after the end of the string that starts at `start`
+ *
+ * Handles raw strings, triple quotes, escapes and `${...}` interpolations.
+ */
+function skipDartString(content: string, start: number): number {
+  const quote = content[start];
+  const delimiter = content.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote;
+  const raw = content[start - 1] === 'r' && !/\w/.test(content[start - 2] ?? '');
+
+  let index = start + delimiter.length;
+  while (index < content.length) {
+    if (content.startsWith(delimiter, index)) {
+      return index + delimiter.length;
+    }
+    if (delimiter.length === 1 && content[index] === '\n') {
+      return index; // Unterminated string, stop at the end of the line
+    }
+    if (!raw && content[index] === '\\') {
+      index += 2;
+    } else if (!raw && content.startsWith('${', index)) {
+      index = skipInterpolation(content, index + 2);
+    } else {
+      index++;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Index after the closing brace of a `${...}` interpolation
+ */
+function skipInterpolation(content: string, start: number): number {
+  let depth = 1;
+  let index = start;
+  while (index < content.length) {
+    const char = content[index];
+    if (char === "'" || char === '"') {
+      index = skipDartString(content, index);
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return index + 1;
+      }
+    }
+    index++;
+  }
+  return content.length;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Collect the string ranges of some code (see getStringRanges)
+ *
+ * @param inInterpolation - Stop after the brace that closes a `${...}`
+ * @returns Index after the scanned code
+ */
+function scanStrings(
+  content: string,
+  start: number,
+  ranges: { start: number; end: number }[],
+  inInterpolation: boolean,
+): number {
+  let depth = 0;
+  let index = start;
+  while (index < content.length) {
+    if (content.startsWith('//', index)) {
+      const end = content.indexOf('\n', index);
+      index = end === -1 ? content.length : end;
+    } else if (content.startsWith('/*', index)) {
+      const end = content.indexOf('*/', index + 2);
+      index = end === -1 ? content.length : end + 2;
+    } else if (content[index] === "'" || content[index] === '"') {
+      index = scanString(content, index, ranges);
+    } else {
+      if (content[index] === '{') {
+        depth++;
+      } else if (content[index] === '}' && inInterpolation && depth-- === 0) {
+        return index + 1;
+      }
+      index++;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Collect the ranges of the string that starts at `start`
+ *
+ * Same rules as skipDartString, the interpolations split the string in several ranges.
+ *
+ * @returns Index after the end of the string
+ */
+function scanString(
+  content: string,
+  start: number,
+  ranges: { start: number; end: number }[],
+): number {
+  const quote = content[start];
+  const delimiter = content.startsWith(quote.repeat(3), start) ? quote.repeat(3) : quote;
+  const raw = content[start - 1] === 'r' && !/\w/.test(content[start - 2] ?? '');
+
+  let rangeStart = raw ? start - 1 : start;
+  let index = start + delimiter.length;
+  while (index < content.length) {
+    if (content.startsWith(delimiter, index)) {
+      ranges.push({ start: rangeStart, end: index + delimiter.length });
+      return index + delimiter.length;
+    }
+    if (delimiter.length === 1 && content[index] === '\n') {
+      break; // Unterminated string, stop at the end of the line
+    }
+    if (!raw && content[index] === '\\') {
+      index += 2;
+    } else if (!raw && content.startsWith('${', index)) {
+      ranges.push({ start: rangeStart, end: index + 2 });
+      index = scanStrings(content, index + 2, ranges, true);
+      rangeStart = index - 1;
+    } else if (!raw && /^\$[A-Za-z_]/.test(content.slice(index, index + 2))) {
+      ranges.push({ start: rangeStart, end: index });
+      index = rangeStart = index + content.slice(index + 1).match(/^\w+/)![0].length + 1;
+    } else {
+      index++;
+    }
+  }
+  ranges.push({ start: rangeStart, end: index });
+  return index;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Kind of an import path, used to group the imports
+ */
+function getImportKind(importPath: string): 'dart' | 'package' | 'relative' {
+  if (importPath.startsWith('dart:')) {
+    return 'dart';
+  }
+  return importPath.startsWith('package:') ? 'package' : 'relative';
+}
@@ -0,0 +1,107 @@
+import { DependencySection } from './pubspec_editor';
+import {
+  allowsVersion,
+  compareVersions,
+  isBreakingUpgrade,
+  parseConstraint,
+  parseVersion,
+} from './pub_semver';
+
+export type PlanAction = 'keep' | 'add' | 'minor' | 'major';
+
+/**
+ * 📋 INTERFACE: What to do with a package of a dependency profile
+ */
+export interface DependencyPlanItem {
+  name: string;
+  /** Section of pubspec.yaml the package is in, or is added to */
+  section: DependencySection;
+  action: PlanAction;
+  /** Constraint in pubspec.yaml, undefined when the package is missing */
+  current?: string | object;
+  /** Constraint to write, for the add and upgrade actions */
+  target?: string | object;
+  /** Why, shown to the user (ex: ^9.1.0 allows 9.1.1, pinned to git …@main) */
+  reason: string;
+}
+
+/**
+ * 🧭 FUNCTION: Plan the upgrade of a package
+ *
+ * - A missing package is added
+ * - A git, path, hosted or SDK package is kept, whatever its version
+ * - A version constraint that already allows the target version is kept
+ * - Else the constraint is replaced by the target: a minor upgrade when the
+ *   change is compatible with the current lower bound, a major upgrade to
+ *   review when it may break the code (ex: ^8.1.0 → ^9.1.1)
+ *
+ * @param section - Section of the package in the profile, used to add it
+ * @param current - Constraint in pubspec.yaml and its section, undefined when missing
+ * @param target - Constraint of the profile, or `^latest` from pub.dev
+ */
+export function planDependency(
+  name: string,
+  section: DependencySection,
+  current: { constraint: any; section: DependencySection } | undefined,
+  target: string | object,
+): DependencyPlanItem {
+  if (!current) {
+    return { name, section, action: 'add', target, reason: 'missing' };
+  }
+
+  const item = { name, section: current.section, current: current.constraint ?? 'any' };
+  if (typeof current.constraint === 'object' && current.constraint !== null) {
+    return { ...item, action: 'keep', reason: describeSource(current.constraint) };
+  }
+  const targetVersion = typeof target === 'string' ? parseConstraint(target)?.min : undefined;
+  if (!targetVersion) {
+    return { ...item, action: 'keep', reason: 'present' };
+  }
+
+  const range = parseConstraint(String(current.constraint ?? ''));
+  if (!range) {
+    return { ...item, action: 'keep', reason: 'constraint not understood, check it manually' };
+  }
+  if (allowsVersion(range, targetVersion)) {
+    return { ...item, action: 'keep', reason: `allows ${targetVersion.text}` };
+  }
+  if (range.min && compareVersions(range.min, targetVersion) > 0) {
+    return { ...item, action: 'keep', reason: `newer than ${targetVersion.text}` };
+  }
+
+  const isMajor = !range.min || isBreakingUpgrade(range.min, targetVersion);
+  return {
+    ...item,
+    action: isMajor ? 'major' : 'minor',
+    target,
+    reason: isMajor
+      ? `major upgrade to ${targetVersion.text}, review the breaking changes`
+      : `compatible upgrade to ${targetVersion.text}`,
+  };
+}
+
+/**
+ * 📝 HELPER FUNCTION: Where a map-form package comes from
+ *
+ * Ex: pinned to git https://github.com/org/repo.git@main, local path ../core
+ */
+function describeSource(constraint: any): string {
+  if (constraint.git !== undefined) {
+    const git = typeof constraint.git === 'string' ? { url: constraint.git } : constraint.git;
+    const ref = git.ref ? `@${git.ref}` : '';
+    const folder = git.path ? ` (${git.path})` : '';
+    return `pinned to git ${git.url}${ref}${folder}`;
+  }
+  if (constraint.path !== undefined) {
+    return `local path ${constraint.path}`;
+  }
+  if (constraint.sdk !== undefined) {
+    return `${constraint.sdk} SDK`;
+  }
+  if (constraint.hosted !== undefined) {
+    const url = typeof constraint.hosted === 'string' ? constraint.hosted : constraint.hosted.url;
+    const version = constraint.version ? ` ${constraint.version}` : '';
+    return `hosted on ${url ?? constraint.hosted.name}${version}`;
+  }
+  return 'custom source';
+}
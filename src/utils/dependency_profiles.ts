@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import { QuickPickItem, window, workspace } from 'vscode';
+import * as yaml from 'js-yaml';
+import fs = require('fs');
+
+/**
+ * 📋 INTERFACE: A package of a dependency profile
+ */
+export interface ProfilePackage {
+  name: string;
+  /**
+   * Pinned constraint written as is in pubspec.yaml (ex: ^2.5.1, or
+   * `{ sdk: flutter }`), undefined to use the latest version from pub.dev
+   */
+  constraint?: string | object;
+}
+
+/**
+ * 📋 INTERFACE: A named set of regular and dev packages
+ */
+export interface DependencyProfile {
+  name: string;
+  description?: string;
+  dependencies: ProfilePackage[];
+  devDependencies: ProfilePackage[];
+  /** Where the profile is defined, shown in the quick pick */
+  origin: string;
+}
+
+/** File of the templates folder that defines profiles */
+const TEMPLATE_PROFILES_FILE = 'dependencies.yaml';
+
+/**
+ * Profile used when no other is defined, the packages the Clean Architecture
+ * templates import. A profile with the same name in the templates or the
+ * settings replaces it.
+ */
+const DEFAULT_PROFILE: DependencyProfile = {
+  name: 'bloc',
+  description: 'flutter_bloc, get_it, dio and storage, the packages of the default templates',
+  dependencies: [
+    { name: 'flutter_bloc' },
+    { name: 'bloc' },
+    { name: 'get_it' },
+    { name: 'dio' },
+    { name: 'shared_preferences' },
+    { name: 'flutter_secure_storage' },
+    { name: 'equatable' },
+  ],
+  devDependencies: [
+    { name: 'mocktail' },
+    { name: 'bloc_test' },
+    { name: 'flutter_test', constraint: { sdk: 'flutter' } },
+  ],
+  origin: 'built-in',
+};
+
+/**
+ * ⚙️ FUNCTION: Every dependency profile, by name
+ *
+ * Profiles are read in this order, a later profile replaces an earlier one with the same name:
+ * 1. The built-in `bloc` profile
+ * 2. `profiles` of `.my_templates/flutter_tdd_clean_templates/dependencies.yaml`
+ * 3. The `scaffolding.dependencies.profiles` setting
+ *
+ * A profile lists its packages in `dependencies` and `dev_dependencies`, as
+ * in pubspec.yaml. An empty constraint (`~` or `""`) uses the latest version:
+ *
+ * ```yaml
+ * profiles:
+ *   riverpod:
+ *     description: Riverpod, http and hive
+ *     dependencies:
+ *       flutter_riverpod: ~
+ *       http: ^1.2.0
+ *       hive: ~
+ *     dev_dependencies:
+ *       mocktail: ~
+ *       flutter_test:
+ *         sdk: flutter
+ * ```
+ *
+ * @param rootFolder - Root directory of the Flutter project
+ * @throws Error naming the file or the setting of an invalid profile
+ */
+export function getDependencyProfiles(rootFolder: string): DependencyProfile[] {
+  const profiles = new Map<string, DependencyProfile>([[DEFAULT_PROFILE.name, DEFAULT_PROFILE]]);
+
+  const templatesFile = `${rootFolder}/.my_templates/flutter_tdd_clean_templates/${TEMPLATE_PROFILES_FILE}`;
+  if (fs.existsSync(templatesFile)) {
+    let content: any;
+    try {
+      content = yaml.load(readFileSync(templatesFile, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`${TEMPLATE_PROFILES_FILE}: ${error.message}`);
+    }
+    parseProfiles(content?.profiles, TEMPLATE_PROFILES_FILE).forEach((profile) =>
+      profiles.set(profile.name, profile),
+    );
+  }
+
+  const settings = workspace.getConfiguration('scaffolding').get('dependencies.profiles');
+  parseProfiles(settings, 'scaffolding.dependencies.profiles').forEach((profile) =>
+    profiles.set(profile.name, profile),
+  );
+
+  return [...profiles.values()];
+}
+
+/**
+ * 📝 FUNCTION: Let the user choose a dependency profile
+ *
+ * The only profile is used without asking.
+ *
+ * @returns The profile, or undefined when the user cancels
+ * @throws Error when a profile is invalid (see getDependencyProfiles)
+ */
+export async function pickDependencyProfile(
+  rootFolder: string,
+  title: string,
+): Promise<DependencyProfile | undefined> {
+  const profiles = getDependencyProfiles(rootFolder);
+  if (profiles.length === 1) {
+    return profiles[0];
+  }
+
+  const selected = await window.showQuickPick<QuickPickItem & { profile: DependencyProfile }>(
+    profiles.map((profile) => ({
+      label: profile.name,
+      description: `${profile.dependencies.length} packages, ${profile.devDependencies.length} dev packages (${profile.origin})`,
+      detail: profile.description,
+      profile,
+    })),
+    { title, placeHolder: 'Select the dependency profile' },
+  );
+  return selected?.profile;
+}
+
+/**
+ * 📖 FUNCTION: Read and validate the profiles of a file or a setting
+ *
+ * @param origin - File or setting of the profiles, used in the errors
+ */
+function parseProfiles(profiles: any, origin: string): DependencyProfile[] {
+  if (profiles === undefined || profiles === null) {
+    return [];
+  }
+  if (typeof profiles !== 'object' || Array.isArray(profiles)) {
+    throw new Error(`${origin}: profiles must be an object keyed by profile name`);
+  }
+
+  return Object.keys(profiles).map((name) => {
+    const profile = profiles[name] ?? {};
+    const readPackages = (key: string): ProfilePackage[] => {
+      const packages = profile[key] ?? {};
+      if (typeof packages !== 'object' || Array.isArray(packages)) {
+        throw new Error(
+          `${origin}: '${key}' of profile '${name}' must map package names to constraints`,
+        );
+      }
+      return Object.keys(packages).map((packageName) => {
+        const constraint = packages[packageName];
+        if (
+          constraint !== null &&
+          constraint !== undefined &&
+          !['string', 'object'].includes(typeof constraint)
+        ) {
+          throw new Error(`${origin}: invalid constraint of '${packageName}' in profile '${name}'`);
+        }
+        return {
+          name: packageName,
+          constraint: constraint === null || constraint === '' ? undefined : constraint,
+        };
+      });
+    };
+
+    const dependencies = readPackages('dependencies');
+    const devDependencies = readPackages('dev_dependencies');
+    if (dependencies.length === 0 && devDependencies.length === 0) {
+      throw new Error(`${origin}: profile '${name}' has no package`);
+    }
+    return { name, description: profile.description, dependencies, devDependencies, origin };
+  });
+}
@@ -0,0 +1,203 @@
+import { camelCase } from 'change-case';
+import { TemplateContext, templateFilters } from './template_engine';
+
+/**
+ * 📋 INTERFACE: A Dart class serialized to JSON
+ *
+ * Inferred from a JSON sample or declared in a feature spec.
+ */
+export interface JsonClass {
+  /** Class name in snake_case (ex: user_address) */
+  name: string;
+  /** Fields in the same order as the JSON keys */
+  fields: JsonField[];
+  /** Sample object, written as the fixture of the class */
+  sample: { [key: string]: any };
+}
+
+/**
+ * 📋 INTERFACE: A field of a Dart class and its JSON key
+ */
+export interface JsonField {
+  /** Original key in the JSON payload */
+  key: string;
+  /** Dart field name in camelCase */
+  name: string;
+  /** How the value is (de)serialized */
+  kind: 'primitive' | 'dynamic' | 'object' | 'primitiveList' | 'objectList';
+  /** Dart type of the value, or of the list items for lists */
+  type: string;
+  /** Nested class name in snake_case for objects and lists of objects */
+  nestedClass?: string;
+}
+
+/** Dart reserved words, they cannot name a field */
+const DART_RESERVED_WORDS = [
+  'assert',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'do',
+  'else',
+  'enum',
+  'extends',
+  'false',
+  'final',
+  'finally',
+  'for',
+  'if',
+  'in',
+  'is',
+  'new',
+  'null',
+  'rethrow',
+  'return',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'var',
+  'void',
+  'while',
+  'with',
+];
+
+/**
+ * 🔤 FUNCTION: Dart field name of a JSON key
+ *
+ * The key in camelCase, made a valid Dart identifier: a reserved word gets a
+ * `Value` suffix (class → classValue), a name starting with a digit a `field`
+ * prefix (2fa → field2fa).
+ *
+ * @param taken - Names of the other fields of the class, a taken name gets a
+ * number (user_id after userId → userId2)
+ */
+export function getDartFieldName(key: string, taken: string[] = []): string {
+  let name = camelCase(key) || 'field';
+  if (DART_RESERVED_WORDS.includes(name)) {
+    name = `${name}Value`;
+  } else if (/^\d/.test(name)) {
+    name = `field${name}`;
+  }
+
+  let candidate = name;
+  for (let index = 2; taken.includes(candidate); index++) {
+    candidate = `${name}${index}`;
+  }
+  return candidate;
+}
+
+/**
+ * 🧩 FUNCTION: Build the template values of an entity, its model and its test
+ *
+ * The templates loop over `fields` and `nested_classes`, the Dart
+ * expressions that depend on the type of each field are built here.
+ */
+export function buildClassContext(jsonClass: JsonClass): TemplateContext {
+  const nested = [
+    ...new Set(
+      jsonClass.fields.filter((field) => field.nestedClass).map((field) => field.nestedClass!),
+    ),
+  ];
+
+  const entityType = (field: JsonField) => {
+    if (field.kind === 'primitiveList' || field.kind === 'objectList') {
+      return `List<${field.type}>`;
+    }
+    return field.type;
+  };
+  const modelType = (field: JsonField) => {
+    if (field.kind === 'object') {
+      return `${field.type}Model`;
+    }
+    if (field.kind === 'objectList') {
+      return `List<${field.type}Model>`;
+    }
+    return entityType(field);
+  };
+
+  const fromMap = (field: JsonField) => {
+    const value = `map['${templateFilters.dartString(field.key)}']`;
+    switch (field.kind) {
+      case 'object':
+        return `${field.type}Model.fromMap(${value} as DataMap)`;
+      case 'objectList':
+        return `(${value} as List).map((item) => ${field.type}Model.fromMap(item as DataMap)).toList()`;
+      case 'primitiveList':
+        return `List<${field.type}>.from(${value} as List)`;
+      case 'dynamic':
+        return value;
+      default:
+        if (field.type === 'int') {
+          return `(${value} as num).toInt()`;
+        }
+        if (field.type === 'double') {
+          return `(${value} as num).toDouble()`;
+        }
+        return `${value} as ${field.type}`;
+    }
+  };
+
+  const toMap = (field: JsonField) => {
+    switch (field.kind) {
+      case 'object':
+        return `(${field.name} as ${field.type}Model).toMap()`;
+      case 'objectList':
+        return `${field.name}.map((item) => (item as ${field.type}Model).toMap()).toList()`;
+      default:
+        return field.name;
+    }
+  };
+
+  return {
+    nested_classes: nested,
+    fields: jsonClass.fields.map((field) => {
+      const isNested = field.kind === 'object' || field.kind === 'objectList';
+      return {
+        key: field.key,
+        name: field.name,
+        is_nested: isNested,
+        entity_type: entityType(field),
+        model_type: modelType(field),
+        from_map: fromMap(field),
+        to_map: toMap(field),
+        copy_with_type: field.kind === 'dynamic' ? 'dynamic' : `${modelType(field)}?`,
+        copy_with_fallback: isNested
+          ? `this.${field.name} as ${modelType(field)}`
+          : `this.${field.name}`,
+      };
+    }),
+    copy_with_test: getCopyWithTestValue(jsonClass),
+  };
+}
+
+/**
+ * 🧪 FUNCTION: Pick the field and the new value used by the copyWith test
+ *
+ * Uses the first String, int, double or bool field. When there is none,
+ * the test checks that an empty copyWith returns an equal model.
+ */
+function getCopyWithTestValue(jsonClass: JsonClass): { name: string; value: string } | null {
+  const field = jsonClass.fields.find(
+    (item) => item.kind === 'primitive' && ['String', 'int', 'double', 'bool'].includes(item.type),
+  );
+  if (!field) {
+    return null;
+  }
+
+  const current = jsonClass.sample[field.key];
+  const values: { [key: string]: string } = {
+    String: `'${templateFilters.dartString(current)}_updated'`,
+    int: `${current + 1}`,
+    double: `${current + 1.5}`,
+    bool: `${!current}`,
+  };
+
+  return { name: field.name, value: values[field.type] };
+}
@@ -0,0 +1,260 @@
+import { QuickPickItem, Uri, window } from 'vscode';
+import fs = require('fs');
+import path = require('path');
+import { getClickedFolder } from './tools';
+
+/**
+ * 📋 TYPE: Kinds of classes the generators create in a feature
+ */
+export type ArtifactKind =
+  | 'usecase'
+  | 'repository'
+  | 'entity'
+  | 'repositoryImpl'
+  | 'datasource'
+  | 'model'
+  | 'bloc'
+  | 'page'
+  | 'widget';
+
+/**
+ * 📋 INTERFACE: A generated class found in a feature
+ */
+export interface FeatureArtifact {
+  kind: ArtifactKind;
+  /** File name without `.dart` (ex: login_usecase, i_authentication_repository) */
+  name: string;
+  /** Absolute path of the Dart file */
+  filePath: string;
+  /**
+   * Where its test is expected, the first one is where the generators write it.
+   * Empty for the classes that have no test of their own (interfaces and entities).
+   */
+  testPaths: string[];
+}
+
+/**
+ * 📋 INTERFACE: Where the artifacts of a kind live and how their files are named
+ */
+export interface ArtifactFolder {
+  kind: ArtifactKind;
+  /** Name of the group in the Clean Architecture view (ex: Use cases) */
+  label: string;
+  /** Folder relative to lib/src/{feature}/ */
+  folder: string;
+  pattern: RegExp;
+  /** Test folder relative to test/src/{feature}/ when it does not mirror `folder` */
+  testFolder?: string;
+  hasTest: boolean;
+}
+
+/**
+ * 📂 Folders of each kind, in the order of the layers
+ */
+export const ARTIFACT_FOLDERS: ArtifactFolder[] = [
+  {
+    kind: 'usecase',
+    label: 'Use cases',
+    folder: 'domain/usecases',
+    pattern: /_usecase\.dart$/,
+    hasTest: true,
+  },
+  {
+    kind: 'repository',
+    label: 'Repositories',
+    folder: 'domain/repositories',
+    pattern: /^i_\w+_repository\.dart$/,
+    hasTest: false,
+  },
+  {
+    kind: 'entity',
+    label: 'Entities',
+    folder: 'domain/entities',
+    pattern: /\.dart$/,
+    hasTest: false,
+  },
+  {
+    kind: 'repositoryImpl',
+    label: 'Repositories',
+    folder: 'data/repositories',
+    pattern: /_repository_impl\.dart$/,
+    // The repository generator writes the implementation test next to the interface tests
+    testFolder: 'domain/repositories',
+    hasTest: true,
+  },
+  {
+    kind: 'datasource',
+    label: 'Datasources',
+    folder: 'data/datasources',
+    pattern: /_data_source\.dart$/,
+    hasTest: true,
+  },
+  {
+    kind: 'model',
+    label: 'Models',
+    folder: 'data/models',
+    pattern: /_model\.dart$/,
+    hasTest: true,
+  },
+  {
+    kind: 'bloc',
+    label: 'Blocs',
+    folder: 'presentation/blocs',
+    pattern: /_(bloc|cubit)\.dart$/,
+    hasTest: true,
+  },
+  {
+    kind: 'page',
+    label: 'Pages',
+    folder: 'presentation/pages',
+    pattern: /_page\.dart$/,
+    hasTest: true,
+  },
+  {
+    kind: 'widget',
+    label: 'Widgets',
+    folder: 'presentation/widgets',
+    pattern: /\.dart$/,
+    hasTest: true,
+  },
+];
+
+/**
+ * 🔍 FUNCTION: Names of the features of an app (folders of lib/src/)
+ */
+export function getFeatures(rootFolder: string): string[] {
+  const srcFolder = `${rootFolder}/lib/src`;
+  if (!fs.existsSync(srcFolder)) {
+    return [];
+  }
+  return fs
+    .readdirSync(srcFolder, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * 🔍 MAIN FUNCTION: Generated classes of a feature
+ *
+ * Files are recognized by the folders and names the generators use,
+ * ex: domain/usecases/login_usecase.dart or data/datasources/auth_remote_data_source.dart.
+ *
+ * @param rootFolder - Root directory of the Flutter project
+ * @param featureName - Name of the feature folder in lib/src/
+ * @param kinds - Kinds to look for, all of them by default
+ */
+export function getFeatureArtifacts(
+  rootFolder: string,
+  featureName: string,
+  kinds?: ArtifactKind[],
+): FeatureArtifact[] {
+  return ARTIFACT_FOLDERS.filter((item) => !kinds || kinds.includes(item.kind)).flatMap((item) => {
+    const folder = `${rootFolder}/lib/src/${featureName}/${item.folder}`;
+    if (!fs.existsSync(folder)) {
+      return [];
+    }
+    return fs
+      .readdirSync(folder)
+      .filter((file) => item.pattern.test(file))
+      .sort()
+      .map((file) => {
+        const name = file.replace(/\.dart$/, '');
+        const testFolders = [item.testFolder, item.folder].filter(
+          (testFolder): testFolder is string => !!testFolder,
+        );
+        return {
+          kind: item.kind,
+          name,
+          filePath: `${folder}/${file}`,
+          testPaths: item.hasTest
+            ? testFolders.map(
+                (testFolder) =>
+                  `${rootFolder}/test/src/${featureName}/${testFolder}/${name}_test.dart`,
+              )
+            : [],
+        };
+      });
+  });
+}
+
+/**
+ * 🧪 FUNCTION: Existing test of an artifact
+ *
+ * @returns The path of the test file, or undefined when it is missing or the artifact has none
+ */
+export function findTestFile(artifact: FeatureArtifact): string | undefined {
+  return artifact.testPaths.find((testPath) => fs.existsSync(testPath));
+}
+
+/**
+ * 🔍 FUNCTION: Whether an artifact should have a test that does not exist
+ */
+export function isMissingTest(artifact: FeatureArtifact): boolean {
+  return artifact.testPaths.length > 0 && !findTestFile(artifact);
+}
+
+/**
+ * 🔍 FUNCTION: Feature of the clicked path, undefined outside lib/src/ and test/src/
+ */
+export function getClickedFeature(rootFolder: string, uri: Uri): string | undefined {
+  const relativePath = path.posix.relative(rootFolder, getClickedFolder(uri));
+  return relativePath.match(/^(?:lib|test)\/src\/([^/]+)/)?.[1];
+}
+
+/**
+ * 📂 FUNCTION: Folders of a feature in lib/src/ and test/src/
+ */
+export function getFeatureFolders(rootFolder: string, featureName: string): string[] {
+  return [`${rootFolder}/lib/src/${featureName}`, `${rootFolder}/test/src/${featureName}`];
+}
+
+/**
+ * 🔍 FUNCTION: The clicked artifact, or the one picked in the clicked feature (or the whole app)
+ *
+ * @param kinds - Kinds of the files that can be clicked, the first one is the kind to pick from
+ * @returns The artifact and its feature, or undefined when there is none or the user cancels
+ */
+export async function pickFeatureArtifact(
+  rootFolder: string,
+  uri: Uri,
+  kinds: ArtifactKind[],
+  title: string,
+  placeHolder: string,
+): Promise<{ featureName: string; artifact: FeatureArtifact } | undefined> {
+  const clickedPath = getClickedFolder(uri);
+  const clickedFeature = getClickedFeature(rootFolder, uri);
+  const artifacts = (clickedFeature ? [clickedFeature] : getFeatures(rootFolder)).flatMap(
+    (featureName) =>
+      getFeatureArtifacts(rootFolder, featureName, kinds).map((artifact) => ({
+        featureName,
+        artifact,
+      })),
+  );
+
+  const clicked = artifacts.find((item) => item.artifact.filePath === clickedPath);
+  if (clicked) {
+    return clicked;
+  }
+  const candidates = artifacts.filter((item) => item.artifact.kind === kinds[0]);
+  if (candidates.length === 0) {
+    const label = ARTIFACT_FOLDERS.find((item) => item.kind === kinds[0])!.label.toLowerCase();
+    window.showErrorMessage(
+      `❌ No ${label} found in ${path.relative(rootFolder, clickedPath) || 'the app'}.`,
+    );
+    return undefined;
+  }
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  const selected = await window.showQuickPick<QuickPickItem & { index: number }>(
+    candidates.map((item, index) => ({
+      label: item.artifact.name,
+      description: item.featureName,
+      index,
+    })),
+    { title, placeHolder },
+  );
+  return selected && candidates[selected.index];
+}
@@ -0,0 +1,297 @@
+import { readFileSync } from 'fs';
+import * as yaml from 'js-yaml';
+import { camelCase, pascalCase, snakeCase } from 'change-case';
+import { DartField } from './dart_fields';
+import { getDartFieldName, JsonClass, JsonField } from './entity_classes';
+import { DataStrategy, RepositoryMethod } from './repository_methods';
+
+/**
+ * 📋 INTERFACE: A feature described by a `feature.yaml` (or `feature.json`) file
+ *
+ * ```yaml
+ * feature: shop
+ * entities:
+ *   product:
+ *     id: int
+ *     name: String
+ *     tags: List<String>
+ *     category: Category
+ *   category:
+ *     title: String
+ * repository:
+ *   name: catalog
+ *   strategy: remote_only        # remote_only, cache_then_network or offline_fallback
+ *   methods:
+ *     get_products:
+ *       params:
+ *         page: int = 1
+ *         query: String?
+ *       returns: List<Product>
+ *     clear_cache:
+ *       returns: void
+ * usecases:
+ *   - get_products
+ *   - clear_cache
+ * bloc:
+ *   name: catalog
+ *   kind: bloc                   # bloc or cubit
+ *   usecases: [get_products]     # every use case of the spec by default
+ * ```
+ */
+export interface FeatureSpec {
+  /** Feature folder name in snake_case (ex: shop) */
+  feature: string;
+  /** Entities in the order of the spec, with their models */
+  entities: JsonClass[];
+  repository?: {
+    /** Repository name in snake_case (ex: catalog) */
+    name: string;
+    strategy: DataStrategy;
+    methods: RepositoryMethod[];
+  };
+  /** Repository methods that get a use case, in camelCase */
+  usecases: string[];
+  bloc?: {
+    /** Bloc name in snake_case (ex: catalog) */
+    name: string;
+    isCubit: boolean;
+    /** Use cases injected in the bloc, in camelCase */
+    usecases: string[];
+  };
+}
+
+export const FEATURE_SPEC_FILES = ['feature.yaml', 'feature.yml', 'feature.json'];
+const DATA_STRATEGIES: DataStrategy[] = ['remote_only', 'cache_then_network', 'offline_fallback'];
+const PRIMITIVE_TYPES = ['String', 'int', 'double', 'num', 'bool'];
+
+/**
+ * 📖 FUNCTION: Read and validate a feature spec file
+ *
+ * Errors name the spec file and the entry at fault, YAML syntax
+ * errors already include the line.
+ *
+ * @param specPath - Path to feature.yaml, feature.yml or feature.json
+ * @throws Error when the spec is invalid
+ */
+export function loadFeatureSpec(specPath: string): FeatureSpec {
+  const fail = (reason: string): never => {
+    throw new Error(`${specPath}: ${reason}`);
+  };
+
+  let raw: any;
+  try {
+    const content = readFileSync(specPath, 'utf8');
+    raw = specPath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error: any) {
+    fail(error.message);
+  }
+  if (!raw || typeof raw !== 'object') {
+    fail('the spec must be an object');
+  }
+  if (typeof raw.feature !== 'string' || !isName(raw.feature)) {
+    fail("missing 'feature' name (ex: feature: authentication)");
+  }
+
+  // 🧱 Entities, their fields can reference each other by class name
+  const entityNames = Object.keys(raw.entities ?? {}).map((name) => snakeCase(name));
+  const entities = Object.entries<any>(raw.entities ?? {}).map(([name, fields]) => {
+    if (!isName(name) || !fields || typeof fields !== 'object') {
+      fail(`entity '${name}' needs a map of 'field: Type'`);
+    }
+    const entityFields = Object.entries<any>(fields).map(([key, type]) =>
+      parseEntityField(key, String(type), entityNames, (reason) =>
+        fail(`entity '${name}', field '${key}': ${reason}`),
+      ),
+    );
+    entityFields.forEach((field, index) => {
+      const other = entityFields.find((item, i) => i < index && item.name === field.name);
+      if (other) {
+        fail(
+          `entity '${name}', fields '${other.key}' and '${field.key}' are both named ${field.name}`,
+        );
+      }
+    });
+    return { name: snakeCase(name), fields: entityFields, sample: {} };
+  });
+  entities.forEach((entity) => (entity.sample = buildSample(entity, entities)));
+
+  // 🗄️ Repository and its methods
+  let repository: FeatureSpec['repository'];
+  if (raw.repository) {
+    const { name, strategy = 'remote_only', methods } = raw.repository;
+    if (typeof name !== 'string' || !isName(name)) {
+      fail("missing 'repository.name'");
+    }
+    if (!DATA_STRATEGIES.includes(strategy)) {
+      fail(`'repository.strategy' must be one of ${DATA_STRATEGIES.join(', ')}`);
+    }
+    if (!methods || typeof methods !== 'object' || Object.keys(methods).length === 0) {
+      fail("'repository.methods' needs at least one method");
+    }
+    repository = {
+      name: snakeCase(name),
+      strategy,
+      methods: Object.entries<any>(methods).map(([methodName, method]) => {
+        const at = (reason: string) => fail(`method '${methodName}': ${reason}`);
+        if (!isName(methodName)) {
+          at('only letters, numbers and _ are allowed');
+        }
+        return {
+          name: camelCase(methodName),
+          fields: Object.entries<any>(method?.params ?? {}).map(([field, type]) =>
+            parseParam(field, String(type), at),
+          ),
+          returnType: String(method?.returns ?? 'void').trim(),
+        };
+      }),
+    };
+  }
+
+  // 🧩 Use cases, each one calls the repository method with the same name
+  const methodNames = repository?.methods.map((method) => method.name) ?? [];
+  const usecases = toNames(raw.usecases, 'usecases', fail);
+  usecases
+    .filter((usecase) => !methodNames.includes(usecase))
+    .forEach((usecase) => fail(`use case '${usecase}' needs a repository method with its name`));
+
+  // 🧠 Optional bloc
+  let bloc: FeatureSpec['bloc'];
+  if (raw.bloc) {
+    const { name, kind = 'bloc' } = raw.bloc;
+    if (typeof name !== 'string' || !isName(name)) {
+      fail("missing 'bloc.name'");
+    }
+    if (!['bloc', 'cubit'].includes(String(kind).toLowerCase())) {
+      fail("'bloc.kind' must be bloc or cubit");
+    }
+    const blocUsecases = raw.bloc.usecases
+      ? toNames(raw.bloc.usecases, 'bloc.usecases', fail)
+      : usecases;
+    if (blocUsecases.length === 0) {
+      fail("'bloc' needs at least one use case");
+    }
+    blocUsecases
+      .filter((usecase) => !usecases.includes(usecase))
+      .forEach((usecase) => fail(`bloc use case '${usecase}' is not declared in 'usecases'`));
+    bloc = {
+      name: snakeCase(name),
+      isCubit: String(kind).toLowerCase() === 'cubit',
+      usecases: blocUsecases,
+    };
+  }
+
+  return { feature: snakeCase(raw.feature), entities, repository, usecases, bloc };
+}
+
+/**
+ * 📝 HELPER FUNCTION: Whether a spec key is a valid Dart name
+ */
+function isName(value: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(value);
+}
+
+/**
+ * 📝 HELPER FUNCTION: A list of names in camelCase (ex: [get_products] → [getProducts])
+ */
+function toNames(value: any, key: string, fail: (reason: string) => never): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !isName(item))) {
+    fail(`'${key}' must be a list of method names`);
+  }
+  return [...new Set<string>(value.map((item: string) => camelCase(item)))];
+}
+
+/**
+ * 🔍 FUNCTION: Parse an entity field (ex: `tags: List<String>`, `owner: User`)
+ *
+ * Other entities of the spec are referenced by their class name.
+ */
+function parseEntityField(
+  key: string,
+  type: string,
+  entityNames: string[],
+  fail: (reason: string) => never,
+): JsonField {
+  const field: JsonField = {
+    key,
+    name: getDartFieldName(key),
+    kind: 'primitive',
+    type: type.trim(),
+  };
+  const listItem = field.type.match(/^List<(\w+)>$/)?.[1];
+  const itemType = listItem ?? field.type;
+
+  if (field.type.endsWith('?')) {
+    fail('nullable entity fields are not supported');
+  }
+  if (itemType === 'dynamic') {
+    field.kind = listItem ? 'primitiveList' : 'dynamic';
+    field.type = 'dynamic';
+  } else if (PRIMITIVE_TYPES.includes(itemType)) {
+    field.kind = listItem ? 'primitiveList' : 'primitive';
+    field.type = itemType;
+  } else if (entityNames.includes(snakeCase(itemType))) {
+    field.kind = listItem ? 'objectList' : 'object';
+    field.nestedClass = snakeCase(itemType);
+    field.type = pascalCase(itemType);
+  } else {
+    fail(
+      `unknown type '${type}', use ${PRIMITIVE_TYPES.join(', ')}, dynamic, an entity of the spec or a List of them`,
+    );
+  }
+  return field;
+}
+
+/**
+ * 🔍 FUNCTION: Parse a method parameter (ex: `page: int = 1`, `query: String?`)
+ */
+function parseParam(name: string, value: string, fail: (reason: string) => never): DartField {
+  const match = value.match(/^\s*([^=]+?)\s*(?:=\s*(.+?))?\s*$/);
+  if (!isName(name) || !match) {
+    fail(`invalid parameter '${name}: ${value}'`);
+  }
+  const type = match![1];
+  return {
+    name: camelCase(name),
+    type: type.replace(/\?$/, ''),
+    nullable: type.endsWith('?'),
+    defaultValue: match![2],
+  };
+}
+
+/**
+ * 🧪 FUNCTION: JSON sample of an entity, used as its fixture
+ *
+ * Every field gets a value of its type, nested entities get their own sample.
+ */
+function buildSample(
+  entity: JsonClass,
+  entities: JsonClass[],
+  visited: string[] = [],
+): { [key: string]: any } {
+  const values: { [type: string]: any } = {
+    int: 1,
+    double: 1.5,
+    num: 1,
+    bool: true,
+    dynamic: null,
+  };
+
+  const sample: { [key: string]: any } = {};
+  entity.fields.forEach((field) => {
+    if (field.nestedClass) {
+      const nested = entities.find((item) => item.name === field.nestedClass)!;
+      // An entity that references one of its parents gets an empty value to stop the recursion
+      const value = visited.includes(nested.name)
+        ? undefined
+        : buildSample(nested, entities, [...visited, entity.name]);
+      sample[field.key] = field.kind === 'objectList' ? (value ? [value] : []) : (value ?? {});
+    } else {
+      const value = field.type === 'String' ? `test_${snakeCase(field.key)}` : values[field.type];
+      sample[field.key] = field.kind === 'primitiveList' ? [value] : value;
+    }
+  });
+  return sample;
+}
@@ -0,0 +1,227 @@
+import {
+  commands,
+  Disposable,
+  EventEmitter,
+  FileDecoration,
+  FileDecorationProvider,
+  ThemeColor,
+  ThemeIcon,
+  TreeDataProvider,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  window,
+  workspace,
+} from 'vscode';
+import path = require('path');
+import { getRootFolder } from './tools';
+import {
+  ARTIFACT_FOLDERS,
+  ArtifactKind,
+  FeatureArtifact,
+  getFeatureArtifacts,
+  getFeatures,
+  isMissingTest,
+} from './feature_artifacts';
+
+/**
+ * 📋 TYPE: A node of the Clean Architecture view
+ *
+ * Every node carries the URI the generator commands run on: the feature
+ * folder, the folder of a layer or of a group (even when it does not
+ * exist yet) or the file of an artifact.
+ */
+export type FeatureTreeNode =
+  | { type: 'feature'; rootFolder: string; feature: string; uri: Uri }
+  | { type: 'layer'; rootFolder: string; feature: string; layer: string; uri: Uri }
+  | { type: 'group'; rootFolder: string; feature: string; kind: ArtifactKind; uri: Uri }
+  | { type: 'artifact'; rootFolder: string; feature: string; artifact: FeatureArtifact; uri: Uri };
+
+export const FEATURES_VIEW_ID = 'tddCleanArchitecture.features';
+const MISSING_TEST_QUERY = 'tdd-clean-missing-test';
+
+const LAYERS = [
+  { layer: 'domain', label: 'Domain', icon: 'symbol-namespace' },
+  { layer: 'data', label: 'Data', icon: 'database' },
+  { layer: 'presentation', label: 'Presentation', icon: 'device-mobile' },
+];
+
+const GROUP_ICONS: { [kind in ArtifactKind]: string } = {
+  usecase: 'symbol-method',
+  repository: 'symbol-interface',
+  entity: 'symbol-class',
+  repositoryImpl: 'symbol-class',
+  datasource: 'cloud',
+  model: 'symbol-structure',
+  bloc: 'symbol-event',
+  page: 'browser',
+  widget: 'symbol-misc',
+};
+
+/**
+ * 🔌 FUNCTION: Register the Clean Architecture view and its refresh command
+ *
+ * Called once from `activate()`. The view is refreshed when files are
+ * created or deleted under lib/src/ or test/src/, or by its refresh button.
+ */
+export function registerFeaturesView(): Disposable {
+  const changed = new EventEmitter<FeatureTreeNode | undefined>();
+  const decorationsChanged = new EventEmitter<undefined>();
+  const refresh = () => {
+    changed.fire(undefined);
+    decorationsChanged.fire(undefined);
+  };
+
+  const provider: TreeDataProvider<FeatureTreeNode> = {
+    onDidChangeTreeData: changed.event,
+    getTreeItem: (node) => getTreeItem(node),
+    getChildren: (node) => getChildren(node),
+  };
+
+  // 🏷️ Badge of the artifacts without test, only on the URIs of this view
+  const decorations: FileDecorationProvider = {
+    onDidChangeFileDecorations: decorationsChanged.event,
+    provideFileDecoration: (uri) =>
+      uri.query === MISSING_TEST_QUERY
+        ? new FileDecoration('!', 'Test missing', new ThemeColor('list.warningForeground'))
+        : undefined,
+  };
+
+  const watcher = workspace.createFileSystemWatcher('**/{lib,test}/src/**');
+  return Disposable.from(
+    window.registerTreeDataProvider(FEATURES_VIEW_ID, provider),
+    window.registerFileDecorationProvider(decorations),
+    commands.registerCommand('tdd-clean-architecture.refreshFeatures', refresh),
+    watcher,
+    watcher.onDidCreate(refresh),
+    watcher.onDidDelete(refresh),
+    changed,
+    decorationsChanged,
+  );
+}
+
+/**
+ * 🔗 FUNCTION: Adapt a generator command to the explorer and to the Clean Architecture view
+ *
+ * The explorer passes the clicked URI, the view passes its node and the
+ * command palette or the view title pass nothing: the app of the first
+ * workspace folder is used then.
+ *
+ * @param run - Command that needs the URI of a folder or file of the app
+ */
+export function withCommandUri(
+  run: (uri: Uri) => Promise<void>,
+): (target?: Uri | FeatureTreeNode) => Promise<void> {
+  return async (target?: Uri | FeatureTreeNode) => {
+    let uri = target instanceof Uri ? target : target?.uri;
+    uri ??= workspace.workspaceFolders?.[0]?.uri;
+    if (!uri) {
+      window.showErrorMessage('❌ Open the folder of a Flutter app first.');
+      return;
+    }
+    await run(uri);
+  };
+}
+
+/**
+ * 🌳 FUNCTION: Children of a node, the features of every app at the top
+ */
+function getChildren(node?: FeatureTreeNode): FeatureTreeNode[] {
+  if (!node) {
+    const rootFolders = [
+      ...new Set(
+        (workspace.workspaceFolders ?? []).map((folder) =>
+          getRootFolder(folder.uri).replaceAll('\\', '/'),
+        ),
+      ),
+    ];
+    return rootFolders.flatMap((rootFolder) =>
+      getFeatures(rootFolder).map((feature) => ({
+        type: 'feature' as const,
+        rootFolder,
+        feature,
+        uri: Uri.file(`${rootFolder}/lib/src/${feature}`),
+      })),
+    );
+  }
+
+  const { rootFolder, feature } = node;
+  const featureFolder = `${rootFolder}/lib/src/${feature}`;
+  switch (node.type) {
+    case 'feature':
+      return LAYERS.map(({ layer }) => ({
+        type: 'layer',
+        rootFolder,
+        feature,
+        layer,
+        uri: Uri.file(`${featureFolder}/${layer}`),
+      }));
+    case 'layer':
+      return ARTIFACT_FOLDERS.filter((item) => item.folder.startsWith(`${node.layer}/`)).map(
+        (item) => ({
+          type: 'group',
+          rootFolder,
+          feature,
+          kind: item.kind,
+          uri: Uri.file(`${featureFolder}/${item.folder}`),
+        }),
+      );
+    case 'group':
+      return getFeatureArtifacts(rootFolder, feature, [node.kind]).map((artifact) => ({
+        type: 'artifact',
+        rootFolder,
+        feature,
+        artifact,
+        uri: Uri.file(artifact.filePath),
+      }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * 🎨 FUNCTION: How a node is shown
+ *
+ * The `contextValue` (feature, layer, group.{kind}, artifact.{kind}) selects
+ * the inline actions declared in package.json.
+ */
+function getTreeItem(node: FeatureTreeNode): TreeItem {
+  switch (node.type) {
+    case 'feature': {
+      const item = new TreeItem(node.feature, TreeItemCollapsibleState.Collapsed);
+      item.iconPath = new ThemeIcon('package');
+      item.contextValue = 'feature';
+      if ((workspace.workspaceFolders?.length ?? 0) > 1) {
+        item.description = path.basename(node.rootFolder);
+      }
+      return item;
+    }
+    case 'layer': {
+      const layer = LAYERS.find((item) => item.layer === node.layer)!;
+      const item = new TreeItem(layer.label, TreeItemCollapsibleState.Collapsed);
+      item.iconPath = new ThemeIcon(layer.icon);
+      item.contextValue = 'layer';
+      return item;
+    }
+    case 'group': {
+      const group = ARTIFACT_FOLDERS.find((item) => item.kind === node.kind)!;
+      const item = new TreeItem(group.label, TreeItemCollapsibleState.Collapsed);
+      item.iconPath = new ThemeIcon(GROUP_ICONS[node.kind]);
+      item.contextValue = `group.${node.kind}`;
+      return item;
+    }
+    case 'artifact': {
+      const { artifact } = node;
+      const missingTest = isMissingTest(artifact);
+      const item = new TreeItem(artifact.name, TreeItemCollapsibleState.None);
+      item.resourceUri = missingTest ? node.uri.with({ query: MISSING_TEST_QUERY }) : node.uri;
+      item.iconPath = new ThemeIcon(GROUP_ICONS[artifact.kind]);
+      item.contextValue = `artifact.${artifact.kind}`;
+      item.tooltip = missingTest
+        ? `${artifact.name}.dart\n⚠️ Test missing: ${path.relative(node.rootFolder, artifact.testPaths[0])}`
+        : `${artifact.name}.dart`;
+      item.command = { command: 'vscode.open', title: 'Open', arguments: [node.uri] };
+      return item;
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import { readFileSync } from 'fs';
+import {
+  commands,
+  Disposable,
+  EventEmitter,
+  QuickPickItem,
+  TextDocumentContentProvider,
+  Uri,
+  window,
+  workspace,
+} from 'vscode';
+import fs = require('fs');
+import path = require('path');
+
+/**
+ * 📋 INTERFACE: A file a generator wants to write
+ */
+export interface PlannedFile {
+  /** Absolute destination path */
+  path: string;
+  /** Final content of the file */
+  content: string;
+  /** Kind of file, only used in the preview (ex: usecase, test, injection) */
+  type: string;
+  /** Whether the content was computed from the existing file (ex: injection files) */
+  isEdit?: boolean;
+}
+
+/**
+ * 📋 INTERFACE: What was done with the planned files
+ */
+export interface FileWriteResult {
+  /** Files created or overwritten */
+  written: string[];
+  /** `.new` side files written next to an existing file */
+  sideFiles: string[];
+  /** Files the user skipped or whose content did not change */
+  skipped: string[];
+}
+
+type FileStatus = 'create' | 'modify' | 'unchanged';
+type FileResolution = 'write' | 'side' | 'skip';
+
+const PREVIEW_SCHEME = 'tdd-clean-preview';
+const previewContents = new Map<string, string>();
+const previewChanged = new EventEmitter<Uri>();
+
+const OVERWRITE = 'Overwrite';
+const SIDE_FILE = 'Write to .new file';
+const SKIP = 'Skip';
+
+/**
+ * 🔌 FUNCTION: Register the read-only documents used by the diff view
+ *
+ * Called once from `activate()`.
+ */
+export function registerFilePreviewProvider(): Disposable {
+  const provider: TextDocumentContentProvider = {
+    onDidChange: previewChanged.event,
+    provideTextDocumentContent: (uri: Uri) => previewContents.get(uri.toString()) ?? '',
+  };
+  return workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, provider);
+}
+
+/**
+ * 👀 FUNCTION: Read-only document showing a version of a file
+ *
+ * Ex: the original and the upstream version of a template in the merge editor.
+ *
+ * @param version - Name of the version, makes the URI unique (ex: upstream)
+ */
+export function getPreviewUri(filePath: string, version: string, content: string): Uri {
+  const previewUri = Uri.file(filePath).with({ scheme: PREVIEW_SCHEME, query: version });
+  previewContents.set(previewUri.toString(), content);
+  previewChanged.fire(previewUri);
+  return previewUri;
+}
+
+/**
+ * 👀 MAIN FUNCTION: Preview the planned files and write them
+ *
+ * Nothing touches disk until the user has confirmed every file:
+ * 1. Lists every file to create, modify or overwrite, the user unchecks the ones to skip
+ * 2. Opens a diff view for each checked file that already exists and asks to
+ *    overwrite it, write the generated content to `{file}.new` or skip it
+ * 3. Writes the result
+ *
+ * Files whose content would not change are skipped without asking.
+ *
+ * @param title - Title of the generator (ex: Create Use Case)
+ * @param files - Files computed by the generator
+ * @returns What was written, or undefined when the user cancels
+ */
+export async function previewAndWriteFiles(
+  title: string,
+  files: PlannedFile[],
+): Promise<FileWriteResult | undefined> {
+  const result: FileWriteResult = { written: [], sideFiles: [], skipped: [] };
+
+  // 🔍 STEP 1: Compare every planned file with the disk
+  const changedFiles = mergePlannedFiles(files).filter((file) => {
+    if (getFileStatus(file) === 'unchanged') {
+      console.log(`⚠️ Unchanged, skipped: ${file.path}`);
+      result.skipped.push(file.path);
+      return false;
+    }
+    return true;
+  });
+  if (changedFiles.length === 0) {
+    console.log('✅ Every file is already up to date, nothing to write');
+    return result;
+  }
+
+  // ☑️ STEP 2: Let the user uncheck the files to skip
+  const picked = await window.showQuickPick(
+    changedFiles.map((file) => toPreviewItem(file)),
+    {
+      title: `${title}: preview`,
+      placeHolder: 'Files to write (existing files are compared next)',
+      canPickMany: true,
+      ignoreFocusOut: true,
+    },
+  );
+  if (!picked) {
+    return undefined;
+  }
+
+  // 🔀 STEP 3: Ask what to do with every existing file
+  const resolutions = new Map<PlannedFile, FileResolution>();
+  for (const file of changedFiles) {
+    if (!picked.some((item) => item.file === file)) {
+      resolutions.set(file, 'skip');
+    } else if (getFileStatus(file) === 'create') {
+      resolutions.set(file, 'write');
+    } else {
+      const resolution = await resolveExistingFile(title, file);
+      if (!resolution) {
+        return undefined;
+      }
+      resolutions.set(file, resolution);
+    }
+  }
+
+  // 💾 STEP 4: Write the files
+  for (const [file, resolution] of resolutions) {
+    if (resolution === 'write') {
+      await writeFileExtPromise(file.path, file.content);
+      result.written.push(file.path);
+    } else if (resolution === 'side') {
+      await writeFileExtPromise(`${file.path}.new`, file.content);
+      result.sideFiles.push(`${file.path}.new`);
+    } else {
+      console.log(`⚠️ Skipped: ${file.path}`);
+      result.skipped.push(file.path);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Summary of a write result for the final message
+ *
+ * Ex: "3 files written, 1 .new file, 2 skipped"
+ */
+export function describeWriteResult(result: FileWriteResult): string {
+  const parts = [`${result.written.length} files written`];
+  if (result.sideFiles.length > 0) {
+    parts.push(`${result.sideFiles.length} .new files`);
+  }
+  if (result.skipped.length > 0) {
+    parts.push(`${result.skipped.length} skipped`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * 🔀 FUNCTION: Show the diff of an existing file and ask what to do
+ *
+ * @returns The choice of the user, or undefined when they cancel
+ */
+async function resolveExistingFile(
+  title: string,
+  file: PlannedFile,
+): Promise<FileResolution | undefined> {
+  const previewUri = Uri.file(file.path).with({ scheme: PREVIEW_SCHEME });
+  previewContents.set(previewUri.toString(), file.content);
+  previewChanged.fire(previewUri);
+
+  const fileName = path.basename(file.path);
+  await commands.executeCommand(
+    'vscode.diff',
+    Uri.file(file.path),
+    previewUri,
+    `${fileName} (current ↔ generated)`,
+    { preview: true },
+  );
+
+  const choice = await window.showQuickPick([OVERWRITE, SIDE_FILE, SKIP], {
+    title: `${title}: ${fileName} already exists`,
+    placeHolder: `Overwrite ${fileName}, write ${fileName}.new next to it or skip it?`,
+    ignoreFocusOut: true,
+  });
+  previewContents.delete(previewUri.toString());
+
+  switch (choice) {
+    case OVERWRITE:
+      return 'write';
+    case SIDE_FILE:
+      return 'side';
+    case SKIP:
+      return 'skip';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 🔍 FUNCTION: Whether a planned file creates, modifies or keeps the file on disk
+ */
+function getFileStatus(file: PlannedFile): FileStatus {
+  if (!fs.existsSync(file.path)) {
+    return 'create';
+  }
+  return readFileSync(file.path, 'utf8') === file.content ? 'unchanged' : 'modify';
+}
+
+/**
+ * 🔗 FUNCTION: Keep only the last planned content of each path
+ */
+function mergePlannedFiles(files: PlannedFile[]): PlannedFile[] {
+  const byPath = new Map<string, PlannedFile>();
+  files.forEach((file) => byPath.set(file.path, file));
+  return [...byPath.values()];
+}
+
+/**
+ * 📝 HELPER FUNCTION: Quick pick item of a planned file
+ */
+function toPreviewItem(file: PlannedFile): QuickPickItem & { file: PlannedFile } {
+  const exists = getFileStatus(file) === 'modify';
+  const action = !exists ? 'create' : file.isEdit ? 'modify' : 'overwrite';
+  const icon = !exists ? '$(new-file)' : file.isEdit ? '$(edit)' : '$(warning)';
+  const folder = workspace.getWorkspaceFolder(Uri.file(file.path))?.uri.fsPath;
+  return {
+    label: `${icon} ${path.basename(file.path)}`,
+    description: `${action} ${file.type}`,
+    detail: folder ? path.relative(folder, file.path) : file.path,
+    picked: true,
+    file,
+  };
+}
+
+/**
+ * 💾 FUNCTION: File writing with Promises
+ *
+ * Creates necessary directories and writes the file asynchronously.
+ */
+function writeFileExtPromise(filePath: string, contents: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.mkdir(path.dirname(filePath), { recursive: true }, function (err: any) {
+      if (err) {
+        console.error('Error creating directory:', err);
+        reject(err);
+        return;
+      }
+
+      fs.writeFile(filePath, contents, 'utf8', (error) => {
+        if (error) {
+          console.error('Error writing file:', filePath, error);
+          reject(error);
+        } else {
+          console.log('✅ Created file:', filePath);
+          resolve();
+        }
+      });
+    });
+  });
+}
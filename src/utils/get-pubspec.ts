@@ -1,4 +1,5 @@
 import * as yaml from "js-yaml";
+import * as fs from "fs";
 import * as path from "path";
 import { Uri, workspace } from "vscode";
 
@@ -14,3 +15,31 @@ export async function getPubspec(rootFolder: string) {
     }
   }
 }
+
+/**
+ * 🔍 FUNCTION: Find the folder of the nearest pubspec.yaml
+ *
+ * Walks up from `startPath` (a folder or a file) until a folder with a
+ * pubspec.yaml is found, without going above `stopFolder` when given.
+ * Apps nested in a monorepo resolve to their own folder.
+ *
+ * @returns The folder containing pubspec.yaml, or undefined when there is none
+ */
+export function findPubspecFolder(startPath: string, stopFolder?: string): string | undefined {
+  let folder = path.resolve(startPath);
+  if (fs.existsSync(folder) && !fs.statSync(folder).isDirectory()) {
+    folder = path.dirname(folder);
+  }
+  const stop = stopFolder ? path.resolve(stopFolder) : undefined;
+
+  while (true) {
+    if (fs.existsSync(path.join(folder, "pubspec.yaml"))) {
+      return folder;
+    }
+    const parent = path.dirname(folder);
+    if (folder === stop || parent === folder) {
+      return undefined;
+    }
+    folder = parent;
+  }
+}
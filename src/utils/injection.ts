@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs';
+import { window } from 'vscode';
+import fs = require('fs');
+import { pascalCase, snakeCase } from 'change-case';
+import { renderTemplateFile } from './template_engine';
+import { PlannedFile } from './file_preview';
+import { addImport, findClosingBrace } from './dart_source';
+
+/**
+ * 📋 INTERFACE: A registration to add to a feature injection file
+ */
+export interface InjectionRegistration {
+  /** Section of the init function where the statement goes */
+  section: 'Datasources' | 'Repositories' | 'Usecases' | 'Blocs';
+  /** Class instantiated by the registration, used to avoid duplicates */
+  className: string;
+  /** Full Dart statement (ex: `sl.registerLazySingleton(() => LoginUsecase(sl()));`) */
+  statement: string;
+  /** Import paths relative to lib/src/{feature}/config/ */
+  importPaths: string[];
+}
+
+/**
+ * 💉 MAIN FUNCTION: Plan the registration of generated classes in the GetIt injection container
+ *
+ * This function computes, without writing anything:
+ * 1. lib/src/{feature}/config/{feature}_injection.dart, created from its template when missing
+ * 2. The imports and registrations that are not already present
+ * 3. `await init{Feature}Feature();` added to `init()` in lib/config/injection_container.dart
+ *
+ * The returned files go through the preview with the generated ones.
+ * Running it twice with the same registrations returns the files unchanged.
+ *
+ * @param rootFolder - Root directory of the Flutter project
+ * @param featureName - Name of the feature folder in lib/src/
+ * @param registrations - Registrations to add
+ * @returns The injection files to write
+ */
+export function planFeatureInjection(
+  rootFolder: string,
+  featureName: string,
+  registrations: InjectionRegistration[],
+): PlannedFile[] {
+  const files: PlannedFile[] = [];
+  try {
+    const featureFile = `${snakeCase(featureName)}_injection.dart`;
+    const injectionPath = `${rootFolder}/lib/src/${featureName}/config/${featureFile}`;
+    const templatePath = `${rootFolder}/.my_templates/flutter_tdd_clean_templates/feature/config/{{feature_name.snakeCase}}_injection.template`;
+
+    // 📖 STEP 1: Read the feature injection file or create it from the template
+    let content: string;
+    if (fs.existsSync(injectionPath)) {
+      content = readFileSync(injectionPath, 'utf8');
+    } else if (fs.existsSync(templatePath)) {
+      content = renderTemplateFile(templatePath, { feature_name: featureName });
+    } else {
+      window.showWarningMessage(`⚠️ Template not found: ${templatePath}`);
+      return files;
+    }
+
+    // 🔄 STEP 2: Add the missing imports and registrations
+    const unregistered: string[] = [];
+    registrations.forEach((registration) => {
+      if (isRegistered(content, registration.className)) {
+        console.log(`⚠️ Already registered: ${registration.className}`);
+        return;
+      }
+      const registered = addToSection(content, registration.section, registration.statement);
+      if (registered === undefined) {
+        unregistered.push(registration.className);
+        return;
+      }
+      content = registered;
+      registration.importPaths.forEach((importPath) => {
+        content = addImport(content, importPath);
+      });
+      console.log(`✅ Registered: ${registration.className}`);
+    });
+    if (unregistered.length > 0) {
+      window.showWarningMessage(
+        `⚠️ Could not find 'init${pascalCase(featureName)}Feature()' in ${injectionPath}. Register ${unregistered.join(', ')} by hand.`,
+      );
+    }
+    files.push({ path: injectionPath, content, type: 'injection', isEdit: true });
+
+    // 🔗 STEP 3: Call the feature init function from the global container
+    const container = planFeatureInContainer(rootFolder, featureName, featureFile);
+    if (container) {
+      files.push(container);
+    }
+  } catch (error) {
+    console.error('Error updating injection container:', error);
+    window.showWarningMessage(`⚠️ Could not update the injection container: ${error}`);
+  }
+  return files;
+}
+
+/**
+ * 🔗 FUNCTION: Add the feature init function to `init()`
+ *
+ * Only when lib/config/injection_container.dart exists (created by "Create initial needs")
+ * and does not call it yet.
+ */
+function planFeatureInContainer(
+  rootFolder: string,
+  featureName: string,
+  featureFile: string,
+): PlannedFile | undefined {
+  const containerPath = `${rootFolder}/lib/config/injection_container.dart`;
+  if (!fs.existsSync(containerPath)) {
+    window.showWarningMessage(
+      "⚠️ 'lib/config/injection_container.dart' not found. Run 'Create initial needs' to register the feature.",
+    );
+    return undefined;
+  }
+
+  const initFunction = `init${pascalCase(featureName)}Feature`;
+  let content = readFileSync(containerPath, 'utf8');
+  if (new RegExp(`^\\s*await\\s+${initFunction}\\(\\)`, 'm').test(content)) {
+    return undefined;
+  }
+
+  const initIndex = content.search(/Future<void>\s+init\s*\(\s*\)\s*async\s*\{/);
+  const closingIndex =
+    initIndex === -1 ? -1 : findClosingBrace(content, content.indexOf('{', initIndex));
+  if (closingIndex === -1) {
+    window.showWarningMessage(
+      `⚠️ Could not find 'init()' in ${containerPath}. Add '${initFunction}()' by hand.`,
+    );
+    return undefined;
+  }
+
+  content = `${content.slice(0, closingIndex).trimEnd()}\n  await ${initFunction}();\n${content.slice(closingIndex)}`;
+  content = addImport(content, `../src/${featureName}/config/${featureFile}`);
+  return { path: containerPath, content, type: 'injection', isEdit: true };
+}
+
+/**
+ * 🔍 FUNCTION: Whether a class is already registered
+ *
+ * Looks for `=> ClassName(` so the type argument used in the registration does not matter.
+ */
+function isRegistered(content: string, className: string): boolean {
+  return new RegExp(`=>\\s*${className}\\s*\\(`).test(content);
+}
+
+/**
+ * ➕ FUNCTION: Add a statement at the end of a section of the init function
+ *
+ * A section starts with a `// Section` comment and ends with the first
+ * blank line, comment or closing brace. When the section comment does
+ * not exist, the statement goes before the closing brace of the function.
+ *
+ * @returns The new content, or undefined when the file has no feature init function
+ */
+function addToSection(content: string, section: string, statement: string): string | undefined {
+  const lines = content.split('\n');
+  const markerIndex = lines.findIndex((line) => line.trim() === `// ${section}`);
+
+  if (markerIndex !== -1) {
+    let insertAt = markerIndex + 1;
+    while (
+      insertAt < lines.length &&
+      lines[insertAt].trim() !== '' &&
+      !lines[insertAt].trim().startsWith('//') &&
+      lines[insertAt].trim() !== '}'
+    ) {
+      insertAt++;
+    }
+    lines.splice(insertAt, 0, `  ${statement}`);
+    return lines.join('\n');
+  }
+
+  const functionIndex = content.search(/Future<void>\s+init\w*Feature\s*\(\s*\)\s*async\s*\{/);
+  const closingIndex =
+    functionIndex === -1 ? -1 : findClosingBrace(content, content.indexOf('{', functionIndex));
+  if (closingIndex === -1) {
+    return undefined;
+  }
+  return `${content.slice(0, closingIndex).trimEnd()}\n  ${statement}\n${content.slice(closingIndex)}`;
+}
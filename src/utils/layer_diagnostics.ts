@@ -0,0 +1,147 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Disposable,
+  languages,
+  Range,
+  TextDocument,
+  Uri,
+  workspace,
+} from 'vscode';
+import { getPackageName, getRootFolder } from './tools';
+import { findLayerViolations, getLayerRules, LayerViolation } from './layer_rules';
+
+const DIAGNOSTIC_SOURCE = 'TDD Clean Arch';
+/** Milliseconds without typing before an edited file is checked again */
+const CHECK_DELAY = 300;
+const diagnostics = languages.createDiagnosticCollection('tdd-clean-architecture-layers');
+/** Pending check of each edited file, by URI */
+const pendingChecks = new Map<string, NodeJS.Timeout>();
+/** Package name of each app, by root folder, until a pubspec.yaml changes */
+const packageNames = new Map<string, Promise<string>>();
+
+/**
+ * 🔌 FUNCTION: Check the layer rules of the Dart files while they are edited
+ *
+ * Called once from `activate()`. Open files are checked when they are opened,
+ * when the typing pauses after a change, and every checked file again when
+ * the `scaffolding.layers` settings change.
+ */
+export function registerLayerDiagnostics(): Disposable {
+  workspace.textDocuments.forEach((document) => runCheck(document));
+
+  const pubspecWatcher = workspace.createFileSystemWatcher('**/pubspec.yaml');
+  const forgetPackageNames = () => packageNames.clear();
+
+  return Disposable.from(
+    diagnostics,
+    workspace.onDidOpenTextDocument((document) => runCheck(document)),
+    workspace.onDidChangeTextDocument((event) => scheduleCheck(event.document)),
+    workspace.onDidCloseTextDocument((document) => cancelCheck(document)),
+    workspace.onDidChangeConfiguration(async (event) => {
+      if (!event.affectsConfiguration('scaffolding.layers')) {
+        return;
+      }
+      const checked: Uri[] = [];
+      diagnostics.forEach((uri) => checked.push(uri));
+      for (const uri of checked) {
+        const document = await workspace.openTextDocument(uri);
+        await runCheck(document);
+      }
+    }),
+    pubspecWatcher,
+    pubspecWatcher.onDidCreate(forgetPackageNames),
+    pubspecWatcher.onDidChange(forgetPackageNames),
+    pubspecWatcher.onDidDelete(forgetPackageNames),
+    new Disposable(() => {
+      pendingChecks.forEach((timer) => clearTimeout(timer));
+      pendingChecks.clear();
+      packageNames.clear();
+    }),
+  );
+}
+
+/**
+ * 📌 FUNCTION: Show the layer violations of a Dart file in the Problems panel
+ *
+ * Replaces the previous violations of the file, none clears them.
+ */
+export function setLayerDiagnostics(uri: Uri, violations: LayerViolation[]) {
+  diagnostics.set(
+    uri,
+    violations.map((violation) => {
+      const diagnostic = new Diagnostic(
+        new Range(violation.line, violation.start, violation.line, violation.end),
+        violation.message,
+        DiagnosticSeverity.Warning,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      return diagnostic;
+    }),
+  );
+}
+
+/**
+ * ⏱️ HELPER FUNCTION: Check an edited file once the typing pauses
+ */
+function scheduleCheck(document: TextDocument) {
+  cancelCheck(document);
+  const key = document.uri.toString();
+  pendingChecks.set(
+    key,
+    setTimeout(() => {
+      pendingChecks.delete(key);
+      runCheck(document);
+    }, CHECK_DELAY),
+  );
+}
+
+/**
+ * 📝 HELPER FUNCTION: Drop the pending check of a file
+ */
+function cancelCheck(document: TextDocument) {
+  const key = document.uri.toString();
+  clearTimeout(pendingChecks.get(key));
+  pendingChecks.delete(key);
+}
+
+/**
+ * 📝 HELPER FUNCTION: Check a file, an error is logged instead of being left unhandled
+ */
+function runCheck(document: TextDocument): Promise<void> {
+  return checkDocument(document).catch((error) =>
+    console.error(`Error checking the layers of ${document.uri.fsPath}:`, error),
+  );
+}
+
+/**
+ * 🔍 FUNCTION: Check an open Dart file of the app
+ */
+async function checkDocument(document: TextDocument) {
+  if (document.languageId !== 'dart' || document.uri.scheme !== 'file' || document.isClosed) {
+    return;
+  }
+  if (!workspace.getWorkspaceFolder(document.uri)) {
+    return;
+  }
+  const rootFolder = getRootFolder(document.uri).replaceAll('\\', '/');
+  const filePath = document.uri.fsPath.replaceAll('\\', '/');
+  if (!filePath.startsWith(`${rootFolder}/lib/`)) {
+    return;
+  }
+
+  // The pubspec.yaml is read once per app, the watcher forgets it when it changes
+  if (!packageNames.has(rootFolder)) {
+    packageNames.set(rootFolder, getPackageName(document.uri));
+  }
+  const packageName = await packageNames.get(rootFolder)!;
+  setLayerDiagnostics(
+    document.uri,
+    findLayerViolations(
+      filePath.slice(rootFolder.length + 1),
+      document.getText(),
+      packageName,
+      getLayerRules(),
+    ),
+  );
+}
@@ -0,0 +1,144 @@
+import { workspace } from 'vscode';
+import path = require('path');
+import { renderTemplate } from './template_engine';
+import { maskDartCode, resolveImport } from './dart_source';
+
+/**
+ * 📋 INTERFACE: Import rules of the Clean Architecture layers
+ *
+ * A layer is the first folder of a feature (lib/src/{feature}/{layer}/),
+ * like the structure created from `scaffolding.layers.templates`.
+ */
+export interface LayerRules {
+  /**
+   * Imports forbidden in each layer: another layer of any feature (ex: data)
+   * or the start of an import URI (ex: package:flutter/)
+   */
+  forbidden: { [layer: string]: string[] };
+  /**
+   * Public file of a feature, relative to lib/src/{feature}/ (ex: {{feature_name}}.dart).
+   * Other features may only import this file, empty to allow any import.
+   */
+  featureBarrel: string;
+}
+
+/**
+ * 📋 INTERFACE: An import that breaks a layer rule
+ */
+export interface LayerViolation {
+  /** Zero-based line of the import */
+  line: number;
+  /** Columns of the imported URI, quotes excluded */
+  start: number;
+  end: number;
+  /** Imported URI as written (ex: ../../data/models/user_model.dart) */
+  importUri: string;
+  message: string;
+}
+
+/**
+ * ⚙️ FUNCTION: Read the layer rules from the `scaffolding.layers` settings
+ *
+ * Workspace settings override the defaults, so each project can have its own rules.
+ */
+export function getLayerRules(): LayerRules {
+  const configuration = workspace.getConfiguration('scaffolding');
+  return {
+    forbidden: configuration.get<{ [layer: string]: string[] }>('layers.rules') ?? {},
+    featureBarrel: configuration.get<string>('layers.featureBarrel') ?? '',
+  };
+}
+
+/**
+ * 🔍 MAIN FUNCTION: Find the imports of a Dart file that break the layer rules
+ *
+ * Only files of a feature (lib/src/{feature}/{layer}/...) are checked:
+ * 1. An import matching one of the forbidden entries of its layer
+ * 2. An import of another feature that is not its public barrel
+ *
+ * Relative imports and `package:` imports of the app itself are resolved
+ * to find the layer and the feature of the imported file. Directives inside
+ * comments and strings are ignored.
+ *
+ * @param filePath - Path of the Dart file relative to the project root (ex: lib/src/auth/domain/...)
+ * @param content - Content of the Dart file
+ * @param packageName - Name of the app package, used to resolve `package:` imports
+ * @param rules - Rules to apply (see getLayerRules)
+ * @returns The violations, in the order of the imports
+ */
+export function findLayerViolations(
+  filePath: string,
+  content: string,
+  packageName: string,
+  rules: LayerRules,
+): LayerViolation[] {
+  const source = getFeatureLayer(filePath);
+  if (!source) {
+    return [];
+  }
+
+  const violations: LayerViolation[] = [];
+  // The directives are found in the code only, their URI is read from the content
+  const directiveRegex = /^[ \t]*(?:import|export)\b/gm;
+  const masked = maskDartCode(content);
+  let match: RegExpExecArray | null;
+  while ((match = directiveRegex.exec(masked)) !== null) {
+    const directiveEnd = match.index + match[0].length;
+    const uri = content.slice(directiveEnd).match(/^\s+(['"])([^'"]+)\1/);
+    if (!uri) {
+      continue;
+    }
+    const importUri = uri[2];
+    const uriIndex = directiveEnd + uri[0].length - importUri.length - 1;
+    const lineStart = content.lastIndexOf('\n', uriIndex - 1) + 1;
+    const position = {
+      line: content.slice(0, lineStart).split('\n').length - 1,
+      start: uriIndex - lineStart,
+      end: uriIndex - lineStart + importUri.length,
+      importUri,
+    };
+
+    const resolved = resolveImport('.', packageName, filePath, importUri);
+    const targetPath = resolved && path.posix.normalize(resolved);
+    const target = targetPath ? getFeatureLayer(targetPath) : undefined;
+
+    // 🧱 Forbidden layers and packages
+    (rules.forbidden[source.layer] ?? [])
+      .filter((entry) =>
+        entry.includes(':') ? importUri.startsWith(entry) : target?.layer === entry,
+      )
+      .forEach((entry) =>
+        violations.push({
+          ...position,
+          message: entry.includes(':')
+            ? `The ${source.layer} layer must not import '${entry}'`
+            : `The ${source.layer} layer must not import the ${entry} layer`,
+        }),
+      );
+
+    // 🚪 Other features through their public barrel only
+    if (target && target.feature !== source.feature && rules.featureBarrel) {
+      const barrel = renderTemplate(rules.featureBarrel, { feature_name: target.feature });
+      if (targetPath !== `lib/src/${target.feature}/${barrel}`) {
+        violations.push({
+          ...position,
+          message: `Import the feature '${target.feature}' through its public barrel (package:${packageName}/src/${target.feature}/${barrel})`,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * 🔍 FUNCTION: Feature and layer of a file under lib/src/
+ *
+ * Files directly in lib/src/{feature}/ (like the barrel) belong to no layer.
+ */
+function getFeatureLayer(filePath: string): { feature: string; layer: string } | undefined {
+  const parts = filePath.split('/');
+  if (parts.length < 4 || parts[0] !== 'lib' || parts[1] !== 'src') {
+    return undefined;
+  }
+  return { feature: parts[2], layer: parts.length > 4 ? parts[3] : '' };
+}
@@ -0,0 +1,366 @@
+import { readFileSync } from 'fs';
+import { workspace } from 'vscode';
+import axios from 'axios';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+
+/**
+ * 📋 INTERFACE: Latest version of a package and where it came from
+ */
+export interface PackageVersion {
+  name: string;
+  /** Latest version, undefined when no source knows the package */
+  version?: string;
+  /**
+   * - network: fetched from the package repository
+   * - cache: cached response younger than the TTL
+   * - stale: cached response older than the TTL, the repository could not be reached
+   * - fallback: built-in table, the repository could not be reached and nothing is cached
+   * - unknown: no version at all
+   */
+  source: 'network' | 'cache' | 'stale' | 'fallback' | 'unknown';
+  /** ISO date of the cached response */
+  fetchedAt?: string;
+  /** Why the repository was not used (ex: offline mode, getaddrinfo ENOTFOUND pub.dev) */
+  error?: string;
+}
+
+/**
+ * 📋 INTERFACE: Versions of a package and what each of them depends on
+ */
+export interface PackageDependencies {
+  /** Versions that are not retracted, oldest first */
+  versions: string[];
+  /** Dependencies declared by the pubspec.yaml of every version, by version */
+  dependencies: { [version: string]: { [name: string]: any } };
+}
+
+/**
+ * 📋 INTERFACE: Cached metadata of the packages of a repository, by package name
+ */
+interface PubCache {
+  [name: string]: PackageDependencies & { latest: string; fetchedAt: string };
+}
+
+const DEFAULT_HOSTED_URL = 'https://pub.dev';
+
+/**
+ * Versions used when the repository cannot be reached and a package was never
+ * cached, the packages of the built-in dependency profile
+ */
+const FALLBACK_VERSIONS: { [name: string]: string } = {
+  flutter_bloc: '9.1.1',
+  bloc: '9.0.0',
+  get_it: '8.2.0',
+  dio: '5.9.0',
+  shared_preferences: '2.5.3',
+  flutter_secure_storage: '9.2.4',
+  equatable: '2.0.7',
+  mocktail: '1.0.4',
+  bloc_test: '10.0.0',
+};
+
+const OFFLINE_MODE = 'offline mode';
+
+/** Packages fetched at the same time, to avoid overwhelming the repository */
+const BATCH_SIZE = 3;
+
+let cacheFolder = path.join(os.tmpdir(), 'tdd-clean-architecture');
+
+/**
+ * 🔌 FUNCTION: Keep the package cache in the storage of the extension
+ *
+ * Called once from `activate()`, the cache is shared by every workspace.
+ */
+export function setPubCacheFolder(folder: string) {
+  cacheFolder = folder;
+}
+
+/**
+ * 🌐 FUNCTION: Package repository queried for the latest versions
+ *
+ * The `scaffolding.pub.hostedUrl` setting, else the `PUB_HOSTED_URL`
+ * environment variable used by `dart pub`, else pub.dev.
+ */
+export function getPubHostedUrl(): string {
+  const setting = workspace.getConfiguration('scaffolding').get<string>('pub.hostedUrl', '');
+  const hostedUrl = setting.trim() || process.env.PUB_HOSTED_URL?.trim() || DEFAULT_HOSTED_URL;
+  return hostedUrl.replace(/\/+$/, '');
+}
+
+/**
+ * 📦 MAIN FUNCTION: Latest versions of packages
+ *
+ * Every package is looked for, in this order:
+ * 1. In the cache, when its response is younger than `scaffolding.pub.cacheHours`
+ * 2. In the package repository (see getPubHostedUrl), the response is cached
+ * 3. In the cache whatever its age, when the repository cannot be reached
+ * 4. In the built-in fallback table
+ *
+ * The `scaffolding.pub.offline` setting skips the repository. A package the
+ * repository does not know is never taken from the fallback table.
+ */
+export async function getLatestPackageVersions(packageNames: string[]): Promise<PackageVersion[]> {
+  return (await lookupPackages(packageNames)).results;
+}
+
+/**
+ * 🔗 FUNCTION: Versions of packages and their dependencies, ex: what every bloc_test requires of bloc
+ *
+ * Looked for like the latest versions (see getLatestPackageVersions), from the same cache.
+ *
+ * @returns The dependencies of every package a source knows
+ */
+export async function getPackageDependencies(
+  packageNames: string[],
+): Promise<Map<string, PackageDependencies>> {
+  const { cache } = await lookupPackages(packageNames);
+  const packages = new Map<string, PackageDependencies>();
+  packageNames
+    .filter((name) => cache[name])
+    .forEach((name) =>
+      packages.set(name, {
+        versions: cache[name].versions,
+        dependencies: cache[name].dependencies ?? {},
+      }),
+    );
+  return packages;
+}
+
+/**
+ * 🔍 FUNCTION: Look for packages in the cache, the repository and the fallback table
+ *
+ * @returns The latest version of every package, and the cache with the fetched packages
+ */
+async function lookupPackages(
+  packageNames: string[],
+): Promise<{ results: PackageVersion[]; cache: PubCache }> {
+  const configuration = workspace.getConfiguration('scaffolding');
+  const offline = configuration.get<boolean>('pub.offline', false);
+  const ttl = configuration.get<number>('pub.cacheHours', 24) * 3600 * 1000;
+  const hostedUrl = getPubHostedUrl();
+  const cachePath = getCachePath(hostedUrl);
+  const cache = readCache(cachePath);
+  const results: PackageVersion[] = [];
+
+  const toRemote: string[] = [];
+  packageNames.forEach((name) => {
+    const cached = cache[name];
+    if (cached?.dependencies && Date.now() - Date.parse(cached.fetchedAt) < ttl) {
+      results.push({ name, version: cached.latest, source: 'cache', fetchedAt: cached.fetchedAt });
+    } else {
+      toRemote.push(name);
+    }
+  });
+
+  const headers = getAuthHeaders(hostedUrl);
+  for (let i = 0; i < toRemote.length; i += BATCH_SIZE) {
+    const batch = toRemote.slice(i, i + BATCH_SIZE);
+    const batchResults = await Promise.all(
+      batch.map(async (name): Promise<PackageVersion> => {
+        if (offline) {
+          return getOfflineVersion(name, cache, OFFLINE_MODE);
+        }
+        try {
+          const response = await axios.get(`${hostedUrl}/api/packages/${name}`, {
+            timeout: 10000,
+            headers: { accept: 'application/vnd.pub.v2+json', ...headers },
+          });
+          const latest = response.data?.latest?.version;
+          if (typeof latest !== 'string') {
+            throw new Error(`no latest version in the response of ${hostedUrl}`);
+          }
+          const versions: any[] = response.data.versions ?? [];
+          const dependencies: PackageDependencies['dependencies'] = {};
+          versions.forEach(
+            (version) => (dependencies[version.version] = version.pubspec?.dependencies ?? {}),
+          );
+          cache[name] = {
+            latest,
+            versions: versions
+              .filter((version) => !version.retracted)
+              .map((version) => version.version),
+            dependencies,
+            fetchedAt: new Date().toISOString(),
+          };
+          console.log(`✅ ${name}: ${latest}`);
+          return { name, version: latest, source: 'network' };
+        } catch (error: any) {
+          if (error.response?.status === 404) {
+            console.log(`❌ ${name} not found on ${hostedUrl}`);
+            return { name, source: 'unknown', error: `not found on ${hostedUrl}` };
+          }
+          const reason = error.response ? `HTTP ${error.response.status}` : error.message;
+          console.error(`❌ Failed to get version for ${name}: ${reason}`);
+          return getOfflineVersion(name, cache, reason);
+        }
+      }),
+    );
+    results.push(...batchResults);
+  }
+
+  if (results.some((result) => result.source === 'network')) {
+    writeCache(cachePath, cache);
+  }
+  return {
+    results: packageNames.map((name) => results.find((result) => result.name === name)!),
+    cache,
+  };
+}
+
+/**
+ * 📝 FUNCTION: Versions that did not come from the repository, for the messages
+ *
+ * Ex: "pub.dev unreachable (getaddrinfo ENOTFOUND pub.dev): dio 5.9.0 (3 days ago)
+ * from the cache; equatable 2.0.7 from the fallback table"
+ *
+ * @returns The description, or undefined when every version is up to date
+ */
+export function describeVersionSources(results: PackageVersion[]): string | undefined {
+  const parts: string[] = [];
+  const stale = results.filter((result) => result.source === 'stale');
+  if (stale.length > 0) {
+    parts.push(
+      stale
+        .map((result) => `${result.name} ${result.version} (${formatAge(result.fetchedAt!)})`)
+        .join(', ') + ' from the cache',
+    );
+  }
+  const fallback = results.filter((result) => result.source === 'fallback');
+  if (fallback.length > 0) {
+    parts.push(
+      `${fallback.map((result) => `${result.name} ${result.version}`).join(', ')} from the fallback table`,
+    );
+  }
+  const unknown = results.filter((result) => result.source === 'unknown');
+  if (unknown.length > 0) {
+    parts.push(
+      `no version for ${unknown.map((result) => `${result.name} (${result.error})`).join(', ')}`,
+    );
+  }
+  if (parts.length === 0) {
+    return undefined;
+  }
+
+  const hostedUrl = getPubHostedUrl().replace(/^https?:\/\//, '');
+  const reason = results.find((result) => result.source !== 'unknown' && result.error)?.error;
+  if (!reason) {
+    return parts.join('; ');
+  }
+  return reason === OFFLINE_MODE
+    ? `Offline mode: ${parts.join('; ')}`
+    : `${hostedUrl} unreachable (${reason}): ${parts.join('; ')}`;
+}
+
+/**
+ * 📝 FUNCTION: Where the versions come from, for the messages
+ *
+ * Ex: "Versions fetched from pub.dev (2 of 9 from the cache)", or the
+ * versions that did not come from the repository (see describeVersionSources)
+ */
+export function describeVersionOrigin(results: PackageVersion[]): string {
+  const offlineVersions = describeVersionSources(results);
+  if (offlineVersions) {
+    return offlineVersions;
+  }
+
+  const hostedUrl = getPubHostedUrl().replace(/^https?:\/\//, '');
+  const cached = results.filter((result) => result.source === 'cache').length;
+  if (cached === 0) {
+    return `Versions fetched from ${hostedUrl}`;
+  }
+  return cached === results.length
+    ? `Versions of ${hostedUrl} from the cache`
+    : `Versions fetched from ${hostedUrl} (${cached} of ${results.length} from the cache)`;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Version of a package the repository did not give
+ */
+function getOfflineVersion(name: string, cache: PubCache, error: string): PackageVersion {
+  if (cache[name]) {
+    const { latest, fetchedAt } = cache[name];
+    return { name, version: latest, source: 'stale', fetchedAt, error };
+  }
+  if (FALLBACK_VERSIONS[name]) {
+    return { name, version: FALLBACK_VERSIONS[name], source: 'fallback', error };
+  }
+  return { name, source: 'unknown', error };
+}
+
+/**
+ * 🔑 FUNCTION: Authorization header of a private repository
+ *
+ * The tokens are the ones `dart pub token add` stores in `pub-tokens.json`,
+ * either the token itself or the environment variable holding it.
+ */
+function getAuthHeaders(hostedUrl: string): { [header: string]: string } {
+  const configFolder =
+    process.platform === 'win32'
+      ? (process.env.APPDATA ?? '')
+      : process.platform === 'darwin'
+        ? path.join(os.homedir(), 'Library', 'Application Support')
+        : (process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config'));
+  const tokensPath = path.join(configFolder, 'dart', 'pub-tokens.json');
+  if (!fs.existsSync(tokensPath)) {
+    return {};
+  }
+
+  try {
+    const tokens = JSON.parse(readFileSync(tokensPath, 'utf8'));
+    const entry = (tokens.hosted ?? []).find(
+      (hosted: any) => String(hosted.url).replace(/\/+$/, '') === hostedUrl,
+    );
+    const token = entry?.token ?? (entry?.env ? process.env[entry.env] : undefined);
+    return token ? { authorization: `Bearer ${token}` } : {};
+  } catch (error: any) {
+    console.log(`⚠️ Could not read ${tokensPath}: ${error.message}`);
+    return {};
+  }
+}
+
+/**
+ * 📂 FUNCTION: Cache file of a repository
+ *
+ * Ex: {storage}/pub-cache/pub.dev.json
+ */
+function getCachePath(hostedUrl: string): string {
+  const host = hostedUrl.replace(/^https?:\/\//, '').replace(/[^\w.-]+/g, '_');
+  return path.join(cacheFolder, 'pub-cache', `${host}.json`);
+}
+
+/**
+ * 📖 FUNCTION: Read a cache file, an unreadable cache is empty
+ */
+function readCache(cachePath: string): PubCache {
+  try {
+    return fs.existsSync(cachePath) ? JSON.parse(readFileSync(cachePath, 'utf8')) : {};
+  } catch (error: any) {
+    console.log(`⚠️ Ignoring the package cache ${cachePath}: ${error.message}`);
+    return {};
+  }
+}
+
+/**
+ * 💾 FUNCTION: Write a cache file, a failure only loses the cache
+ */
+function writeCache(cachePath: string, cache: PubCache) {
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify(cache, null, 2));
+  } catch (error: any) {
+    console.log(`⚠️ Could not write the package cache ${cachePath}: ${error.message}`);
+  }
+}
+
+/**
+ * 📝 HELPER FUNCTION: Age of a cached response, ex: 3 hours ago
+ */
+function formatAge(fetchedAt: string): string {
+  const hours = Math.floor((Date.now() - Date.parse(fetchedAt)) / 3600000);
+  if (hours < 1) {
+    return 'less than an hour ago';
+  }
+  return hours < 48 ? `${hours} hours ago` : `${Math.floor(hours / 24)} days ago`;
+}
@@ -0,0 +1,184 @@
+/**
+ * 📋 INTERFACE: A semantic version of a Dart package (ex: 9.1.0, 2.0.0-dev.1)
+ */
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Identifiers after `-`, empty for a release */
+  preRelease: string[];
+  /** Version as written, without the build metadata */
+  text: string;
+}
+
+/**
+ * 📋 INTERFACE: Versions allowed by a constraint, an undefined bound is open
+ */
+export interface VersionRange {
+  min?: Version;
+  includeMin: boolean;
+  max?: Version;
+  includeMax: boolean;
+}
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * 🔍 FUNCTION: Parse a version
+ *
+ * @returns The version, or undefined when the text is not a semantic version
+ */
+export function parseVersion(text: string): Version | undefined {
+  const match = VERSION_PATTERN.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    preRelease: match[4]?.split('.') ?? [],
+    text: text.trim().replace(/\+.*$/, ''),
+  };
+}
+
+/**
+ * ⚖️ FUNCTION: Compare two versions, a pre-release comes before its release
+ *
+ * @returns A negative number when a < b, 0 when equal, a positive number when a > b
+ */
+export function compareVersions(a: Version, b: Version): number {
+  const diff = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (diff !== 0) {
+    return diff;
+  }
+  if (a.preRelease.length === 0 || b.preRelease.length === 0) {
+    return b.preRelease.length - a.preRelease.length;
+  }
+  for (let i = 0; i < Math.min(a.preRelease.length, b.preRelease.length); i++) {
+    const [left, right] = [a.preRelease[i], b.preRelease[i]];
+    if (left === right) {
+      continue;
+    }
+    const [leftNumber, rightNumber] = [/^\d+$/.test(left), /^\d+$/.test(right)];
+    if (leftNumber && rightNumber) {
+      return Number(left) - Number(right);
+    }
+    if (leftNumber !== rightNumber) {
+      return leftNumber ? -1 : 1;
+    }
+    return left < right ? -1 : 1;
+  }
+  return a.preRelease.length - b.preRelease.length;
+}
+
+/**
+ * 🔍 FUNCTION: Parse a version constraint of pubspec.yaml
+ *
+ * Supports `any`, an exact version, a caret constraint (`^1.2.3` is
+ * `>=1.2.3 <2.0.0`, `^0.2.3` is `>=0.2.3 <0.3.0`) and the comparison operators
+ * (ex: `>=1.0.0 <3.0.0`). An empty constraint allows any version.
+ *
+ * @returns The range, or undefined when the constraint is not understood
+ */
+export function parseConstraint(constraint: string | null | undefined): VersionRange | undefined {
+  const text = (constraint ?? '').trim();
+  const range: VersionRange = { includeMin: true, includeMax: false };
+  if (text === '' || text === 'any') {
+    return range;
+  }
+
+  const clauses = text.match(/(\^|>=|<=|>|<)?\s*[^\s<>=^]+/g) ?? [];
+  if (clauses.join('').replace(/\s/g, '') !== text.replace(/\s/g, '')) {
+    return undefined;
+  }
+  for (const clause of clauses) {
+    const [, operator = '', versionText] = /^(\^|>=|<=|>|<)?\s*(.+)$/.exec(clause.trim())!;
+    const version = parseVersion(versionText);
+    if (!version) {
+      return undefined;
+    }
+    switch (operator) {
+      case '^':
+        restrictMin(range, version, true);
+        restrictMax(range, getNextBreakingVersion(version), false);
+        break;
+      case '>=':
+      case '>':
+        restrictMin(range, version, operator === '>=');
+        break;
+      case '<=':
+      case '<':
+        restrictMax(range, version, operator === '<=');
+        break;
+      default:
+        restrictMin(range, version, true);
+        restrictMax(range, version, true);
+    }
+  }
+  return range;
+}
+
+/**
+ * 🔍 FUNCTION: Whether a range allows a version
+ */
+export function allowsVersion(range: VersionRange, version: Version): boolean {
+  if (range.min) {
+    const diff = compareVersions(version, range.min);
+    if (diff < 0 || (diff === 0 && !range.includeMin)) {
+      return false;
+    }
+  }
+  if (range.max) {
+    const diff = compareVersions(version, range.max);
+    if (diff > 0 || (diff === 0 && !range.includeMax)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 🔍 FUNCTION: Whether going from a version to another can break the code
+ *
+ * Follows the Dart convention: the first non-zero number is the major one
+ * (1.2.0 → 2.0.0, 0.2.0 → 0.3.0 and 0.0.2 → 0.0.3 are breaking).
+ */
+export function isBreakingUpgrade(from: Version, to: Version): boolean {
+  return compareVersions(to, getNextBreakingVersion(from)) >= 0;
+}
+
+/**
+ * 📝 HELPER FUNCTION: First version that breaks a version, the upper bound of its caret constraint
+ */
+function getNextBreakingVersion(version: Version): Version {
+  const [major, minor, patch] =
+    version.major > 0
+      ? [version.major + 1, 0, 0]
+      : version.minor > 0
+        ? [0, version.minor + 1, 0]
+        : [0, 0, version.patch + 1];
+  return { major, minor, patch, preRelease: [], text: `${major}.${minor}.${patch}` };
+}
+
+/**
+ * 📝 HELPER FUNCTION: Raise the lower bound of a range
+ */
+function restrictMin(range: VersionRange, version: Version, include: boolean) {
+  const diff = range.min ? compareVersions(version, range.min) : 1;
+  if (diff > 0 || (diff === 0 && !include)) {
+    range.min = version;
+    range.includeMin = include;
+  }
+}
+
+/**
+ * 📝 HELPER FUNCTION: Lower the upper bound of a range
+ */
+function restrictMax(range: VersionRange, version: Version, include: boolean) {
+  const diff = range.max ? compareVersions(version, range.max) : -1;
+  if (diff < 0 || (diff === 0 && !include)) {
+    range.max = version;
+    range.includeMax = include;
+  }
+}
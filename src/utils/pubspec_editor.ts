@@ -0,0 +1,347 @@
+import { Position, Range, Uri, window, workspace, WorkspaceEdit } from 'vscode';
+import * as yaml from 'js-yaml';
+
+export type DependencySection = 'dependencies' | 'dev_dependencies' | 'dependency_overrides';
+
+/**
+ * 📋 INTERFACE: A package to add to pubspec.yaml, or whose constraint changes
+ */
+export interface PubspecChange {
+  section: DependencySection;
+  name: string;
+  /** Constraint as written in pubspec.yaml (ex: ^2.5.1, or `{ sdk: flutter }`) */
+  constraint: string | object;
+}
+
+/**
+ * 📋 INTERFACE: Lines of pubspec.yaml replaced by an edit
+ */
+export interface PubspecLineEdit {
+  /** First replaced line, zero-based */
+  start: number;
+  /** Line after the last replaced one, equal to start for an insertion */
+  end: number;
+  lines: string[];
+}
+
+/**
+ * 📋 INTERFACE: A dependency section found in pubspec.yaml
+ */
+interface PubspecSection {
+  /** Line of the `dependencies:` key */
+  header: number;
+  /** Line after the last line of the section, where new packages go */
+  end: number;
+  /** Indentation of the packages of the section */
+  indent: string;
+  /** Whether the section is an empty inline value (`dependencies: {}` or `dependencies: ~`) */
+  isEmptyValue: boolean;
+  /** First and after-last line of every package, by name */
+  entries: Map<string, { line: number; end: number }>;
+}
+
+/** Order of the sections in a pubspec.yaml created by `flutter create` */
+const SECTION_ORDER: DependencySection[] = [
+  'dependencies',
+  'dev_dependencies',
+  'dependency_overrides',
+];
+
+/**
+ * ✏️ MAIN FUNCTION: Add packages to pubspec.yaml or change their constraint
+ *
+ * The edit goes through a WorkspaceEdit, so it shows in the editor and can be
+ * undone, and only touches the lines of the changed packages: comments, key
+ * order, quoting and blank lines are kept. The file is saved for `flutter pub get`.
+ *
+ * @param pubspecPath - Absolute path of pubspec.yaml
+ * @returns Whether the file changed
+ * @throws Error when a section cannot be edited or the edit is refused
+ */
+export async function applyPubspecChanges(
+  pubspecPath: string,
+  changes: PubspecChange[],
+): Promise<boolean> {
+  const uri = Uri.file(pubspecPath);
+  const document = await workspace.openTextDocument(uri);
+  const content = document.getText();
+  const edits = planPubspecEdits(content, changes);
+  if (edits.length === 0) {
+    return false;
+  }
+
+  if (!(await workspace.applyEdit(buildPubspecEdit(uri, content, edits)))) {
+    throw new Error('pubspec.yaml could not be edited');
+  }
+  await window.showTextDocument(document, { preview: false });
+  await document.save();
+  return true;
+}
+
+/**
+ * 🔍 FUNCTION: Line edits that apply changes to the content of pubspec.yaml
+ *
+ * - A new package is added after the last package of its section, with the
+ *   indentation of the section
+ * - A package already in its section gets the new constraint; a one-line
+ *   constraint keeps its quotes and its comment, a block (ex: `sdk: flutter`)
+ *   is rewritten. Packages whose constraint does not change are left as is.
+ * - A missing section is created where `flutter create` puts it
+ *
+ * @throws Error when a section is an inline mapping (ex: `dependencies: { http: any }`)
+ */
+export function planPubspecEdits(content: string, changes: PubspecChange[]): PubspecLineEdit[] {
+  const lines = content.split(/\r?\n/);
+  const endOfFile = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+  const indentUnit = getIndentUnit(lines);
+  const dependencies = findSection(lines, 'dependencies', indentUnit);
+  const devDependencies = findSection(lines, 'dev_dependencies', indentUnit);
+  const edits: PubspecLineEdit[] = [];
+  const insert = (line: number, newLines: string[]) => {
+    const existing = edits.find((edit) => edit.start === line && edit.end === line);
+    if (existing) {
+      existing.lines.push(...newLines);
+    } else {
+      edits.push({ start: line, end: line, lines: newLines });
+    }
+  };
+
+  SECTION_ORDER.forEach((sectionName) => {
+    const sectionChanges = changes.filter((change) => change.section === sectionName);
+    if (sectionChanges.length === 0) {
+      return;
+    }
+
+    const section = findSection(lines, sectionName, indentUnit);
+    const indent = section?.indent ?? indentUnit;
+    const newEntries: string[] = [];
+    sectionChanges.forEach((change) => {
+      const entry = section?.entries.get(change.name);
+      if (!entry) {
+        newEntries.push(...renderEntry(change.name, change.constraint, indent, indentUnit));
+        return;
+      }
+      const edit = replaceEntry(lines, entry, change, indent, indentUnit);
+      if (edit) {
+        edits.push(edit);
+      }
+    });
+    if (newEntries.length === 0) {
+      return;
+    }
+
+    // 📍 New packages: at the end of the section, or in a new section
+    if (section?.isEmptyValue) {
+      const comment = splitComment(
+        lines[section.header].slice(lines[section.header].indexOf(':') + 1),
+      ).comment;
+      edits.push({
+        start: section.header,
+        end: section.header + 1,
+        lines: [`${sectionName}:${comment}`, ...newEntries],
+      });
+    } else if (section) {
+      insert(section.end, newEntries);
+    } else if (sectionName === 'dev_dependencies' && dependencies) {
+      insert(dependencies.end, ['', `${sectionName}:`, ...newEntries]);
+    } else if (sectionName === 'dependencies' && devDependencies) {
+      insert(devDependencies.header, [`${sectionName}:`, ...newEntries, '']);
+    } else {
+      const separator = endOfFile > 0 && lines[endOfFile - 1].trim() !== '' ? [''] : [];
+      insert(endOfFile, [...separator, `${sectionName}:`, ...newEntries]);
+    }
+  });
+
+  return edits.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 🧩 FUNCTION: Build the edit of pubspec.yaml from line edits
+ *
+ * New lines use the line ending of the file.
+ */
+export function buildPubspecEdit(
+  uri: Uri,
+  content: string,
+  edits: PubspecLineEdit[],
+): WorkspaceEdit {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+  const edit = new WorkspaceEdit();
+  edits.forEach(({ start, end, lines: newLines }) => {
+    if (start >= lines.length) {
+      // The file does not end with a new line
+      const last = lines.length - 1;
+      edit.insert(uri, new Position(last, lines[last].length), `${eol}${newLines.join(eol)}`);
+    } else {
+      edit.replace(
+        uri,
+        new Range(new Position(start, 0), new Position(end, 0)),
+        newLines.map((line) => `${line}${eol}`).join(''),
+      );
+    }
+  });
+  return edit;
+}
+
+/**
+ * 🔍 FUNCTION: Lines and packages of a top-level dependency section
+ *
+ * The section ends at its last indented line, the comments and blank lines
+ * before the next top-level key stay after the new packages.
+ *
+ * @returns The section, or undefined when pubspec.yaml has none
+ */
+function findSection(
+  lines: string[],
+  sectionName: DependencySection,
+  indentUnit: string,
+): PubspecSection | undefined {
+  const header = lines.findIndex((line) => new RegExp(`^(["']?)${sectionName}\\1\\s*:`).test(line));
+  if (header === -1) {
+    return undefined;
+  }
+
+  const value = splitComment(lines[header].slice(lines[header].indexOf(':') + 1)).value.trim();
+  const isEmptyValue = ['{}', '~', 'null'].includes(value);
+  if (value !== '' && !isEmptyValue) {
+    throw new Error(
+      `pubspec.yaml: '${sectionName}' is written inline, write its packages one per line to edit it`,
+    );
+  }
+
+  let last = header;
+  for (let i = header + 1; i < lines.length; i++) {
+    const indent = getIndent(lines[i]);
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    if (indent === 0) {
+      if (lines[i].trim().startsWith('#')) {
+        continue;
+      }
+      break;
+    }
+    last = i;
+  }
+
+  const bodyLines = lines.slice(header + 1, last + 1);
+  const firstEntry = bodyLines.find((line) => line.trim() !== '' && !line.trim().startsWith('#'));
+  const indent = firstEntry ? firstEntry.slice(0, getIndent(firstEntry)) : indentUnit;
+  const entries = new Map<string, { line: number; end: number }>();
+  let current: { line: number; end: number } | undefined;
+  for (let i = header + 1; i <= last; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    const lineIndent = getIndent(lines[i]);
+    const key = /^\s*(["']?)([\w.-]+)\1\s*:/.exec(lines[i]);
+    if (lineIndent === indent.length && key && !lines[i].trim().startsWith('#')) {
+      current = { line: i, end: i + 1 };
+      entries.set(key[2], current);
+    } else if (current && lineIndent > indent.length) {
+      current.end = i + 1;
+    } else {
+      current = undefined;
+    }
+  }
+
+  return { header, end: last + 1, indent, isEmptyValue, entries };
+}
+
+/**
+ * ✏️ FUNCTION: Edit giving a package of a section a new constraint
+ *
+ * @returns The edit, or undefined when the constraint does not change
+ */
+function replaceEntry(
+  lines: string[],
+  entry: { line: number; end: number },
+  change: PubspecChange,
+  indent: string,
+  indentUnit: string,
+): PubspecLineEdit | undefined {
+  const entryLines = lines.slice(entry.line, entry.end);
+  const current = (yaml.load(entryLines.join('\n')) as any)?.[change.name];
+  if (JSON.stringify(current) === JSON.stringify(change.constraint)) {
+    return undefined;
+  }
+
+  const colon = lines[entry.line].indexOf(':');
+  const key = lines[entry.line].slice(0, colon + 1);
+  const { value, comment } = splitComment(lines[entry.line].slice(colon + 1));
+  if (entryLines.length === 1 && value.trim() !== '' && typeof change.constraint === 'string') {
+    const quote = value.trim()[0];
+    const newValue =
+      (quote === "'" || quote === '"') && !change.constraint.includes(quote)
+        ? `${quote}${change.constraint}${quote}`
+        : formatScalar(change.constraint);
+    return { start: entry.line, end: entry.end, lines: [`${key} ${newValue}${comment}`] };
+  }
+
+  const [first, ...rest] = renderEntry(change.name, change.constraint, indent, indentUnit);
+  return {
+    start: entry.line,
+    end: entry.end,
+    lines: [`${key}${first.slice(first.indexOf(':') + 1)}${comment}`, ...rest],
+  };
+}
+
+/**
+ * 📝 HELPER FUNCTION: Lines of a package, ex: `  http: ^1.2.0` or `  flutter_test:\n    sdk: flutter`
+ */
+function renderEntry(
+  name: string,
+  constraint: string | object,
+  indent: string,
+  indentUnit: string,
+): string[] {
+  if (typeof constraint === 'string') {
+    return [`${indent}${name}: ${formatScalar(constraint)}`];
+  }
+  const block = yaml
+    .dump(constraint, { indent: indentUnit.length, lineWidth: -1 })
+    .trimEnd()
+    .split('\n')
+    .map((line) => `${indent}${indentUnit}${line}`);
+  return [`${indent}${name}:`, ...block];
+}
+
+/**
+ * 📝 HELPER FUNCTION: A constraint as a YAML scalar, quoted only when needed (ex: '>=1.0.0 <2.0.0')
+ */
+function formatScalar(value: string): string {
+  return yaml.dump(value, { lineWidth: -1 }).trim();
+}
+
+/**
+ * 📝 HELPER FUNCTION: Split the value after a key from its trailing comment
+ *
+ * Ex: ` ^1.2.0  # pinned` → ` ^1.2.0` and `  # pinned`
+ */
+function splitComment(text: string): { value: string; comment: string } {
+  const match = /^(\s*(?:'[^']*'|"[^"]*"|[^#'"]*?))(\s*#.*)?$/.exec(text);
+  return match ? { value: match[1], comment: match[2] ?? '' } : { value: text, comment: '' };
+}
+
+/**
+ * 📝 HELPER FUNCTION: Indentation of the nested keys of the file, two spaces when there is none
+ */
+function getIndentUnit(lines: string[]): string {
+  const nested = lines.find(
+    (line, i) =>
+      getIndent(line) > 0 &&
+      !line.trim().startsWith('#') &&
+      i > 0 &&
+      getIndent(lines[i - 1]) === 0 &&
+      lines[i - 1].trim() !== '',
+  );
+  return nested ? nested.slice(0, getIndent(nested)) : '  ';
+}
+
+/**
+ * 📝 HELPER FUNCTION: Number of leading spaces of a line
+ */
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
@@ -0,0 +1,223 @@
+import { readFileSync } from 'fs';
+import * as yaml from 'js-yaml';
+import fs = require('fs');
+import { PackageDependencies } from './pub_client';
+import { allowsVersion, compareVersions, parseConstraint, parseVersion } from './pub_semver';
+
+/**
+ * 📋 INTERFACE: A package resolved in pubspec.lock
+ */
+export interface LockedPackage {
+  version: string;
+  /** hosted, git, path or sdk */
+  source: string;
+  /** direct main, direct dev, direct overridden or transitive */
+  dependency: string;
+}
+
+/**
+ * 📋 INTERFACE: A lock entry that no longer matches pubspec.yaml
+ */
+export interface StaleLockEntry {
+  name: string;
+  /** Ex: locked 5.4.3 is outside ^5.5.0 */
+  reason: string;
+}
+
+/**
+ * 📋 INTERFACE: A package kept below its latest version by other packages
+ */
+export interface PackageHold {
+  name: string;
+  locked: string;
+  latest: string;
+  /** Direct dependencies whose locked version excludes the latest version */
+  holders: PackageHolder[];
+}
+
+/**
+ * 📋 INTERFACE: A dependency that requires an older version of a package
+ */
+export interface PackageHolder {
+  name: string;
+  version: string;
+  /** Ex: ^8.1.0 */
+  constraint: string;
+  /** Newest version of the holder that allows the latest version of the package */
+  releasedBy?: string;
+}
+
+/** Lock kind of the packages of every section of pubspec.yaml */
+const LOCK_KINDS: { [section: string]: string } = {
+  dependencies: 'direct main',
+  dev_dependencies: 'direct dev',
+};
+
+/**
+ * 📖 FUNCTION: Read the packages resolved in pubspec.lock
+ *
+ * @param rootFolder - Root directory of the Flutter project
+ * @returns The packages by name, or undefined when there is no pubspec.lock
+ * @throws Error when pubspec.lock is not valid
+ */
+export function readPubspecLock(rootFolder: string): Map<string, LockedPackage> | undefined {
+  const lockPath = `${rootFolder}/pubspec.lock`;
+  if (!fs.existsSync(lockPath)) {
+    return undefined;
+  }
+
+  let lock: any;
+  try {
+    lock = yaml.load(readFileSync(lockPath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`pubspec.lock: ${error.message}`);
+  }
+  const packages = new Map<string, LockedPackage>();
+  Object.keys(lock?.packages ?? {}).forEach((name) => {
+    const entry = lock.packages[name] ?? {};
+    packages.set(name, {
+      version: String(entry.version ?? ''),
+      source: String(entry.source ?? ''),
+      dependency: String(entry.dependency ?? ''),
+    });
+  });
+  return packages;
+}
+
+/**
+ * 🔍 FUNCTION: Lock entries that `flutter pub get` would change
+ *
+ * - A package of pubspec.yaml missing from the lock
+ * - A locked version outside the constraint, or from another source (ex: git in
+ *   pubspec.yaml, hosted in the lock)
+ * - A package listed in another section than in pubspec.yaml (ex: direct dev
+ *   in the lock, dependencies in pubspec.yaml)
+ * - A direct dependency of the lock removed from pubspec.yaml
+ *
+ * Overridden packages (`dependency_overrides`) are only checked for presence.
+ *
+ * @param pubspec - Parsed pubspec.yaml
+ */
+export function findStaleLockEntries(
+  lock: Map<string, LockedPackage>,
+  pubspec: any,
+): StaleLockEntry[] {
+  const stale: StaleLockEntry[] = [];
+  const overrides = pubspec?.dependency_overrides ?? {};
+  const declared = new Set<string>(Object.keys(overrides));
+
+  Object.keys(LOCK_KINDS).forEach((section) => {
+    const packages = pubspec?.[section] ?? {};
+    Object.keys(packages).forEach((name) => {
+      declared.add(name);
+      const locked = lock.get(name);
+      if (!locked) {
+        stale.push({ name, reason: 'missing from pubspec.lock' });
+        return;
+      }
+      if (name in overrides) {
+        return;
+      }
+      if (locked.dependency !== LOCK_KINDS[section]) {
+        stale.push({
+          name,
+          reason: `${locked.dependency} in pubspec.lock, ${section} in pubspec.yaml`,
+        });
+      }
+
+      const constraint = packages[name];
+      if (constraint !== null && typeof constraint === 'object') {
+        const source = ['git', 'path', 'sdk'].find((key) => key in constraint) ?? 'hosted';
+        if (source !== locked.source) {
+          stale.push({
+            name,
+            reason: `${locked.source} in pubspec.lock, ${source} in pubspec.yaml`,
+          });
+          return;
+        }
+      }
+      const versionConstraint = typeof constraint === 'object' ? constraint?.version : constraint;
+      const range = parseConstraint(
+        versionConstraint === null || versionConstraint === undefined
+          ? ''
+          : String(versionConstraint),
+      );
+      const version = parseVersion(locked.version);
+      if (locked.source === 'hosted' && range && version && !allowsVersion(range, version)) {
+        stale.push({ name, reason: `locked ${locked.version} is outside ${versionConstraint}` });
+      }
+    });
+  });
+
+  lock.forEach((locked, name) => {
+    if (locked.dependency.startsWith('direct') && !declared.has(name)) {
+      stale.push({
+        name,
+        reason: `${locked.dependency} in pubspec.lock, removed from pubspec.yaml`,
+      });
+    }
+  });
+  return stale;
+}
+
+/**
+ * ⛓️ FUNCTION: Why a package is locked below its latest version
+ *
+ * The locked version of every other direct dependency is checked: a holder
+ * requires a range of the package that excludes the latest version (ex:
+ * bloc_test 9.1.7 requires bloc ^8.1.0, so bloc stays at 8.x). Transitive
+ * packages are not checked, a hold without holder may come from them or
+ * only need `flutter pub upgrade`.
+ *
+ * @param latest - Latest version of the package
+ * @param packages - Versions and dependencies of the direct dependencies, see getPackageDependencies
+ * @returns The hold, or undefined when the locked version is the latest one
+ */
+export function findPackageHold(
+  name: string,
+  latest: string,
+  lock: Map<string, LockedPackage>,
+  packages: Map<string, PackageDependencies>,
+): PackageHold | undefined {
+  const locked = lock.get(name);
+  const [lockedVersion, latestVersion] = [
+    parseVersion(locked?.version ?? ''),
+    parseVersion(latest),
+  ];
+  if (!locked || !lockedVersion || !latestVersion) {
+    return undefined;
+  }
+  if (compareVersions(lockedVersion, latestVersion) >= 0) {
+    return undefined;
+  }
+
+  const excludesLatest = (constraint: any) => {
+    const range = typeof constraint === 'string' ? parseConstraint(constraint) : undefined;
+    return range !== undefined && !allowsVersion(range, latestVersion);
+  };
+
+  const holders: PackageHolder[] = [];
+  lock.forEach((holder, holderName) => {
+    const metadata = packages.get(holderName);
+    const constraint = metadata?.dependencies[holder.version]?.[name];
+    if (
+      holderName === name ||
+      !holder.dependency.startsWith('direct') ||
+      !excludesLatest(constraint)
+    ) {
+      return;
+    }
+    const holderVersion = parseVersion(holder.version);
+    const releasedBy = [...metadata!.versions].reverse().find((version) => {
+      const newer = parseVersion(version);
+      return (
+        newer !== undefined &&
+        holderVersion !== undefined &&
+        compareVersions(newer, holderVersion) > 0 &&
+        !excludesLatest(metadata!.dependencies[version]?.[name] ?? 'any')
+      );
+    });
+    holders.push({ name: holderName, version: holder.version, constraint, releasedBy });
+  });
+  return { name, locked: locked.version, latest, holders };
+}
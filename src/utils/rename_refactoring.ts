@@ -0,0 +1,315 @@
+import { readFileSync } from 'fs';
+import { Position, Range, Uri, workspace, WorkspaceEdit } from 'vscode';
+import { snakeCase } from 'change-case';
+import { getDartFiles, getStringRanges, resolveImport } from './dart_source';
+import fs = require('fs');
+import path = require('path');
+
+/**
+ * 📋 INTERFACE: A rename of generated classes and of their files
+ */
+export interface RenameRefactoring {
+  /** Title of the refactoring in the preview (ex: Rename use case login_user → sign_in) */
+  label: string;
+  /**
+   * Files and folders to move, absolute paths. A move applies to the paths
+   * given by the previous ones (ex: the feature folder, then a file inside it).
+   */
+  moves: { from: string; to: string }[];
+  /** Names to rename, in snake_case (ex: login_user_usecase → sign_in_usecase) */
+  names: { from: string; to: string }[];
+}
+
+/**
+ * Words allowed before a renamed name in an identifier or a file name,
+ * ex: IAuthenticationRepository, MockLoginUserUsecase, initAuthFeature
+ */
+const NAME_PREFIXES = ['i', 'mock', 'fake', 'init'];
+
+/**
+ * 🔁 FUNCTION: Rename a name in every identifier of a Dart source
+ *
+ * Identifiers are compared word by word in all their case variants:
+ * `login_user_usecase` renames LoginUserUsecase, loginUserUsecase,
+ * MockLoginUserUsecase, login_user_usecase_test or LOGIN_USER_USECASE,
+ * but not GetLoginUserUsecase (Get is not one of NAME_PREFIXES).
+ * The code and the comments are renamed, the text of the string literals is kept.
+ */
+export function renameIdentifiers(content: string, names: RenameRefactoring['names']): string {
+  const strings = getStringRanges(content);
+  return content.replace(/[A-Za-z_$][\w$]*/g, (identifier, index: number) =>
+    strings.some((range) => index >= range.start && index < range.end)
+      ? identifier
+      : names.reduce((current, name) => renameIdentifier(current, name.from, name.to), identifier),
+  );
+}
+
+/**
+ * 📝 HELPER FUNCTION: Rename a name in one identifier, keeping its case and its other words
+ */
+function renameIdentifier(identifier: string, from: string, to: string): string {
+  const { leading, body, isSnake, words } = splitIdentifier(identifier);
+  const fromWords = snakeCase(from).split('_');
+  const start = findNameIndex(words, fromWords);
+  if (start === -1) {
+    return identifier;
+  }
+
+  let renamed = snakeCase(to).split('_');
+  if (isSnake && body === body.toUpperCase()) {
+    renamed = renamed.map((word) => word.toUpperCase());
+  } else if (!isSnake) {
+    renamed = renamed.map((word, i) =>
+      start === 0 && i === 0 && /^[a-z]/.test(body)
+        ? word
+        : `${word[0].toUpperCase()}${word.slice(1)}`,
+    );
+  }
+  const result = [...words.slice(0, start), ...renamed, ...words.slice(start + fromWords.length)];
+  return `${leading}${result.join(isSnake ? '_' : '')}`;
+}
+
+/**
+ * 🔍 FUNCTION: Whether an identifier or a file name contains a name (see renameIdentifiers)
+ *
+ * Ex: `MockIAuthenticationRepository` and `i_authentication_repository` contain `authentication_repository`
+ */
+export function containsName(identifier: string, name: string): boolean {
+  return findNameIndex(splitIdentifier(identifier).words, snakeCase(name).split('_')) !== -1;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Words of an identifier, from its snake_case or camelCase form
+ */
+function splitIdentifier(identifier: string) {
+  const [, leading, body] = identifier.match(/^([_$]*)(.*)$/s)!;
+  const isSnake = body.includes('_') || body === body.toLowerCase();
+  const words = isSnake
+    ? body.split('_')
+    : body.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/);
+  return { leading, body, isSnake, words };
+}
+
+/**
+ * 📝 HELPER FUNCTION: Index of the first word of a name, only after NAME_PREFIXES
+ */
+function findNameIndex(words: string[], nameWords: string[]): number {
+  for (let start = 0; start + nameWords.length <= words.length; start++) {
+    if (nameWords.every((word, i) => words[start + i].toLowerCase() === word)) {
+      return start;
+    }
+    if (!NAME_PREFIXES.includes(words[start].toLowerCase())) {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 🗺️ FUNCTION: Path of a file after the moves of a refactoring
+ */
+export function getMovedPath(filePath: string, moves: RenameRefactoring['moves']): string {
+  return moves.reduce((current, move) => {
+    if (current === move.from) {
+      return move.to;
+    }
+    return current.startsWith(`${move.from}/`)
+      ? `${move.to}${current.slice(move.from.length)}`
+      : current;
+  }, filePath);
+}
+
+/**
+ * 📂 FUNCTION: Moves of the files of some folders whose name contains a renamed name
+ *
+ * Ex: i_authentication_repository.dart → i_auth_repository.dart
+ *
+ * @param folders - Folders to look in, recursively, the missing ones are ignored
+ */
+export function getFileMoves(
+  folders: string[],
+  names: RenameRefactoring['names'],
+): RenameRefactoring['moves'] {
+  return folders
+    .filter((folder) => fs.existsSync(folder))
+    .flatMap((folder) => getDartFiles(folder))
+    .map((file) => {
+      const fileName = path.posix.basename(file, '.dart');
+      const renamed = renameIdentifiers(fileName, names);
+      return { from: file, to: `${path.posix.dirname(file)}/${renamed}.dart` };
+    })
+    .filter((move) => move.from !== move.to);
+}
+
+/**
+ * 📂 FUNCTION: Files of some folders whose name contains one of the names
+ *
+ * Ex: `login_user_usecase` finds login_user_usecase.dart and login_user_usecase_test.dart
+ *
+ * @param folders - Folders to look in, recursively, the missing ones are ignored
+ */
+export function findNamedFiles(folders: string[], names: string[]): string[] {
+  return folders
+    .filter((folder) => fs.existsSync(folder))
+    .flatMap((folder) => getDartFiles(folder))
+    .filter((file) => names.some((name) => containsName(path.posix.basename(file, '.dart'), name)));
+}
+
+/**
+ * 🧩 MAIN FUNCTION: Build the edit of a rename refactoring
+ *
+ * Every Dart file of lib/ and test/ gets:
+ * 1. Its imports, exports and parts pointing to the moved files, relative
+ *    imports are computed again from the new place of the file
+ * 2. The renamed identifiers, in the code and the comments, when the file is
+ *    moved or imports a moved file, directly or through a barrel that exports it
+ *
+ * The text edits come first, then the moves, so the whole rename is a
+ * single undoable edit. Every entry asks for confirmation in the refactor preview.
+ *
+ * @throws When a destination already exists
+ */
+export function buildRenameEdit(
+  rootFolder: string,
+  packageName: string,
+  refactoring: RenameRefactoring,
+): WorkspaceEdit {
+  const existing = refactoring.moves.find((move) => fs.existsSync(move.to));
+  if (existing) {
+    throw new Error(`${path.posix.relative(rootFolder, existing.to)} already exists`);
+  }
+
+  const edit = new WorkspaceEdit();
+  const metadata = { needsConfirmation: true, label: refactoring.label };
+  const dartFiles = [`${rootFolder}/lib`, `${rootFolder}/test`]
+    .filter((folder) => fs.existsSync(folder))
+    .flatMap((folder) => getDartFiles(folder));
+
+  const contents = new Map(dartFiles.map((file) => [file, readFileSync(file, 'utf8')]));
+  const targets = new Map(
+    dartFiles.map((file) => [
+      file,
+      getDirectives(contents.get(file)!).flatMap(({ keyword, importUri }) => {
+        const target = resolveImport(rootFolder, packageName, file, importUri);
+        return target ? [{ keyword, target }] : [];
+      }),
+    ]),
+  );
+
+  // 🔍 STEP 1: Files that can use the renamed classes, the moved ones and their importers
+  const isMoved = (file: string) => getMovedPath(file, refactoring.moves) !== file;
+  const exporters = new Set<string>();
+  let found = true;
+  while (found) {
+    found = false;
+    dartFiles
+      .filter((file) => !exporters.has(file))
+      .filter((file) =>
+        targets
+          .get(file)!
+          .some(
+            ({ keyword, target }) =>
+              keyword.trim() === 'export' && (isMoved(target) || exporters.has(target)),
+          ),
+      )
+      .forEach((file) => {
+        exporters.add(file);
+        found = true;
+      });
+  }
+  const usesMovedFile = (file: string) =>
+    isMoved(file) ||
+    targets.get(file)!.some(({ target }) => isMoved(target) || exporters.has(target));
+
+  // ✏️ STEP 2: Imports and identifiers
+  dartFiles.forEach((file) => {
+    const content = contents.get(file)!;
+    const renamed = renameDartFile(rootFolder, packageName, file, content, {
+      ...refactoring,
+      names: usesMovedFile(file) ? refactoring.names : [],
+    });
+    if (renamed !== content) {
+      const lines = content.split('\n');
+      edit.replace(
+        Uri.file(file),
+        new Range(new Position(0, 0), new Position(lines.length, 0)),
+        renamed,
+        metadata,
+      );
+    }
+  });
+
+  // 🚚 STEP 3: Files and folders
+  refactoring.moves.forEach((move) =>
+    edit.renameFile(Uri.file(move.from), Uri.file(move.to), undefined, metadata),
+  );
+  return edit;
+}
+
+/**
+ * 💾 FUNCTION: Save the files changed by an applied edit
+ *
+ * Text edits leave the documents dirty, they are saved at their new place.
+ *
+ * @param moves - Moves of the edit, if any
+ */
+export async function saveEditedFiles(edit: WorkspaceEdit, moves: RenameRefactoring['moves'] = []) {
+  for (const [uri] of edit.entries()) {
+    const filePath = getMovedPath(uri.fsPath.replaceAll('\\', '/'), moves);
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+      const document = await workspace.openTextDocument(Uri.file(filePath));
+      await document.save();
+    }
+  }
+}
+
+/**
+ * ✏️ FUNCTION: New content of a Dart file
+ *
+ * Directives are only updated with the moves, the rest of the file with the renamed names.
+ */
+export function renameDartFile(
+  rootFolder: string,
+  packageName: string,
+  filePath: string,
+  content: string,
+  { moves, names }: Pick<RenameRefactoring, 'moves' | 'names'>,
+): string {
+  const packagePrefix = `package:${packageName}/`;
+  const libFolder = `${rootFolder}/lib`;
+  const newFilePath = getMovedPath(filePath, moves);
+
+  let result = '';
+  let lastIndex = 0;
+  for (const { index, text, keyword, quote, importUri } of getDirectives(content)) {
+    let newUri = importUri;
+    const target = resolveImport(rootFolder, packageName, filePath, importUri);
+    if (target && importUri.startsWith(packagePrefix)) {
+      newUri = `${packagePrefix}${path.posix.relative(libFolder, getMovedPath(target, moves))}`;
+    } else if (target) {
+      const newTarget = getMovedPath(target, moves);
+      if (newTarget !== target || newFilePath !== filePath) {
+        newUri = path.posix.relative(path.posix.dirname(newFilePath), newTarget);
+      }
+    }
+
+    result += renameIdentifiers(content.slice(lastIndex, index), names);
+    result += `${keyword}${quote}${newUri}${quote}`;
+    lastIndex = index + text.length;
+  }
+  return result + renameIdentifiers(content.slice(lastIndex), names);
+}
+
+/**
+ * 📝 HELPER FUNCTION: Imports, exports and parts of a Dart file, with their URI
+ */
+function getDirectives(content: string) {
+  const directive = /^([ \t]*(?:import|export|part(?:\s+of)?)\s+)(['"])([^'"]+)\2/gm;
+  return [...content.matchAll(directive)].map((match) => ({
+    index: match.index!,
+    text: match[0],
+    keyword: match[1],
+    quote: match[2],
+    importUri: match[3],
+  }));
+}
@@ -0,0 +1,266 @@
+import { readFileSync } from 'fs';
+import { window } from 'vscode';
+import { pascalCase, snakeCase } from 'change-case';
+import fs = require('fs');
+import { renderDartTemplate, TemplateContext } from './template_engine';
+import {
+  getGeneratorRegistrations,
+  loadGenerator,
+  resolveGeneratorFiles,
+} from './template_manifest';
+import { InjectionRegistration } from './injection';
+import { DataStrategy, RepositoryMethod } from './repository_methods';
+import { buildParamsContext, parseDartParameters } from './dart_fields';
+import { readGenericArguments } from './bloc_files';
+import {
+  addImport,
+  addMemberToBlock,
+  getBlockMembers,
+  getImports,
+  getTopLevelBlocks,
+  maskDartCode,
+} from './dart_source';
+import { PlannedFile } from './file_preview';
+
+/**
+ * 🗄️ FUNCTION: Data strategy of an existing repository implementation
+ *
+ * Read from the `Data strategy: ...` line of its doc comment. Implementations
+ * without that line are remote-only.
+ */
+export function getDataStrategy(
+  rootFolder: string,
+  featureName: string,
+  repositoryName: string,
+): DataStrategy {
+  const implPath = `${rootFolder}/lib/src/${featureName}/data/repositories/${repositoryName}_repository_impl.dart`;
+  const localPath = `${rootFolder}/lib/src/${featureName}/data/datasources/${repositoryName}_local_data_source.dart`;
+  if (!fs.existsSync(implPath) || !fs.existsSync(localPath)) {
+    return 'remote_only';
+  }
+
+  const strategy = readFileSync(implPath, 'utf8').match(
+    /Data strategy: (cache-then-network|offline-fallback)/,
+  )?.[1];
+  return strategy ? (snakeCase(strategy) as DataStrategy) : 'remote_only';
+}
+
+/**
+ * 📖 FUNCTION: Names of the methods declared by a repository interface
+ *
+ * Ex: `ResultFuture<User> login({...});` → login
+ */
+export function getRepositoryMethodNames(content: string): string[] {
+  const code = maskDartCode(content);
+  return [...code.matchAll(/ResultFuture<.*>\s+(\w+)\s*\(/g)].map((match) => match[1]);
+}
+
+/**
+ * 📖 FUNCTION: Methods declared by a repository interface, with their parameters
+ *
+ * Ex: `ResultFuture<User> login({required String email});` → login(email: String) → User
+ */
+export function parseRepositoryMethods(content: string): RepositoryMethod[] {
+  const code = maskDartCode(content);
+  const methods: RepositoryMethod[] = [];
+  for (const match of code.matchAll(/ResultFuture\s*</g)) {
+    const openIndex = match.index! + match[0].length - 1;
+    const returnType = readGenericArguments(code, openIndex)[0];
+    const declaration = code.slice(openIndex).match(/^<.*?>\s+(\w+)\s*\(/s);
+    if (!returnType || !declaration) {
+      continue;
+    }
+
+    // 🔍 Parameters up to the matching parenthesis
+    const start = openIndex + declaration[0].length;
+    let depth = 1;
+    let end = start;
+    while (end < code.length && depth > 0) {
+      depth += code[end] === '(' ? 1 : code[end] === ')' ? -1 : 0;
+      end++;
+    }
+    methods.push({
+      name: declaration[1],
+      fields: parseDartParameters(content.slice(start, end - 1)),
+      returnType,
+    });
+  }
+  return methods;
+}
+
+/**
+ * 🔀 FUNCTION: Insert what a template generated for a method into an existing file
+ *
+ * From the rendered file takes:
+ * - the members of each class (or of `main()`) that declare, call or test the method
+ * - the imports that are missing
+ * - the one-line fake classes that are missing (ex: `class FakeUser extends Fake implements User {}`)
+ *
+ * Classes that do not exist in the file and members already present are left alone.
+ */
+export function mergeMethod(existing: string, rendered: string, method: RepositoryMethod): string {
+  const cachePattern = `\\b(?:getCached|cache|_refresh)${pascalCase(method.name)}\\s*\\(|\\b${method.name}CacheKey\\b`;
+  const methodPattern = new RegExp(
+    `\\b${method.name}\\s*\\(|'\\[${method.name}\\]'|${cachePattern}`,
+  );
+  const isMethodMember = (member: string) => methodPattern.test(removeComments(member));
+  const declaresMethod = (member: string) => methodPattern.test(getDeclarationLine(member));
+
+  // 🧱 Members of the classes and of main()
+  let content = existing;
+  for (const block of getTopLevelBlocks(rendered)) {
+    const members = getBlockMembers(rendered, block).filter(isMethodMember);
+    if (members.length === 0) {
+      continue;
+    }
+    const target = getTopLevelBlocks(content).find((item) => item.name === block.name);
+    if (!target) {
+      console.log(`⚠️ ${block.name} not found, '${method.name}' was not added to it`);
+      continue;
+    }
+    if (getBlockMembers(content, target).some(declaresMethod)) {
+      console.log(`⚠️ '${method.name}' already exists in ${block.name}`);
+      continue;
+    }
+    members.forEach((member) => {
+      content = addMemberToBlock(content, block.name, member) ?? content;
+    });
+  }
+
+  // 🎭 One-line fake classes used by the new test values
+  const fakeClass = /^class\s+(\w+)\s+extends\s+Fake\s+implements\s+[^{\n]+\{\s*\}[ \t]*$/gm;
+  const existingClasses = getTopLevelBlocks(content).map((block) => block.name);
+  for (const match of rendered.matchAll(fakeClass)) {
+    if (!existingClasses.includes(match[1])) {
+      content = addTopLevelLine(content, match[0]);
+    }
+  }
+
+  // 📦 Imports
+  getImports(rendered).forEach((importPath) => {
+    content = addImport(content, importPath);
+  });
+
+  return content;
+}
+
+/**
+ * 📝 HELPER FUNCTION: A member without its comment lines
+ *
+ * Strings are kept: the name of a `group('[method]', ...)` is a string,
+ * while doc comments mention other methods (ex: [IApiRequestHandler.post]).
+ */
+function removeComments(member: string): string {
+  return member.replace(/^\s*\/\/.*$/gm, '');
+}
+
+/**
+ * 📝 HELPER FUNCTION: First line of a member after its comments and annotations
+ *
+ * Ex: `ResultFuture<User> login({required String email}) async {`, `group('[login]', () {`
+ */
+function getDeclarationLine(member: string): string {
+  return (
+    removeComments(member)
+      .split('\n')
+      .find((line) => line.trim() !== '' && !line.trim().startsWith('@')) ?? ''
+  );
+}
+
+/**
+ * ➕ FUNCTION: Add a top level declaration after the last one-line class, or before `main()`
+ */
+function addTopLevelLine(content: string, line: string): string {
+  const oneLineClasses = [...content.matchAll(/^class\s+\w+[^{\n]*\{\s*\}[^\n]*$/gm)];
+  if (oneLineClasses.length > 0) {
+    const last = oneLineClasses[oneLineClasses.length - 1];
+    const insertAt = last.index! + last[0].length;
+    return `${content.slice(0, insertAt)}\n\n${line}${content.slice(insertAt)}`;
+  }
+
+  const mainIndex = content.search(/^void\s+main\s*\(/m);
+  if (mainIndex === -1) {
+    return `${content.trimEnd()}\n\n${line}\n`;
+  }
+  return `${content.slice(0, mainIndex)}${line}\n\n${content.slice(mainIndex)}`;
+}
+
+/**
+ * 🧩 FUNCTION: Plan the use case that calls a repository method
+ *
+ * Rendered from the 'usecase' generator with the method parameters as `Params`
+ * fields (or from 'usecase_without_params' when the method has none), then bound
+ * to the repository interface instead of the `IRepository` placeholder.
+ *
+ * @returns The use case files and their registrations, to add to the feature injection file
+ */
+export function planBoundUsecase(
+  templateBaseFolder: string,
+  rootFolder: string,
+  featureName: string,
+  repositoryName: string,
+  method: RepositoryMethod,
+  baseContext: TemplateContext,
+): { files: PlannedFile[]; registrations: InjectionRegistration[] } {
+  const generator = loadGenerator(
+    templateBaseFolder,
+    method.fields.length > 0 ? 'usecase' : 'usecase_without_params',
+  );
+  const context: TemplateContext = {
+    ...baseContext,
+    feature_name: featureName,
+    custom_folder: `${rootFolder}/lib/src/${featureName}/domain/usecases`,
+    usecase_name: snakeCase(method.name),
+    ...buildParamsContext(method.fields, method.returnType),
+  };
+
+  const files: PlannedFile[] = [];
+  for (const template of resolveGeneratorFiles(
+    generator,
+    templateBaseFolder,
+    rootFolder,
+    context,
+  )) {
+    if (!fs.existsSync(template.templatePath)) {
+      window.showWarningMessage(`⚠️ Template not found: ${template.templatePath}`);
+      continue;
+    }
+    const importPath =
+      template.type === 'test'
+        ? `package:${context.package_name}/src/${featureName}/domain/repositories/i_${repositoryName}_repository.dart`
+        : `../repositories/i_${repositoryName}_repository.dart`;
+    files.push({
+      path: template.destinationPath,
+      content: bindUsecaseRepository(
+        renderDartTemplate(template.templatePath, context),
+        `I${pascalCase(repositoryName)}Repository`,
+        importPath,
+      ),
+      type: template.type,
+    });
+  }
+
+  return { files, registrations: getGeneratorRegistrations(generator, context) };
+}
+
+/**
+ * 🔗 FUNCTION: Replace the `IRepository` placeholder of a use case by the real interface
+ *
+ * Removes the TODO comments that ask for that replacement or for the real call
+ * and imports the interface.
+ */
+export function bindUsecaseRepository(
+  content: string,
+  interfaceName: string,
+  importPath: string,
+): string {
+  const bound = content
+    .replace(/^\/\/\/ IRepository must be changed by your own \[Interface of Repository\]\n/m, '')
+    .replace(/[ \t]*\/\/! TODO: Replace \[IRepository\] by the real contract repository/g, '')
+    .replace(
+      /[ \t]*\/\/ ?! TODO: Replace (?:\[void\] by your own entity|by the real \[call\]).*$/gm,
+      '',
+    )
+    .replace(/\bIRepository\b/g, interfaceName);
+  return addImport(bound, importPath);
+}
@@ -0,0 +1,392 @@
+import { window } from 'vscode';
+import { camelCase, pascalCase, snakeCase } from 'change-case';
+import {
+  askDartFields,
+  askReturnType,
+  buildFieldsContext,
+  buildReturnContext,
+  DartField,
+  getEntityImports,
+  getFakeClasses,
+} from './dart_fields';
+import { TemplateContext } from './template_engine';
+
+/**
+ * 📋 INTERFACE: A method of a repository and of its remote datasource
+ */
+export interface RepositoryMethod {
+  /** Method name in camelCase */
+  name: string;
+  /** Named parameters of the method */
+  fields: DartField[];
+  /** Entity returned inside the `ResultFuture` (ex: User, List<User>, void) */
+  returnType: string;
+}
+
+/**
+ * 📋 TYPE: How the repository implementation combines its datasources
+ *
+ * - remote_only: only the remote datasource
+ * - cache_then_network: the cached result first, refreshed from the remote datasource in the
+ *   background, or the remote datasource when nothing is cached
+ * - offline_fallback: the remote datasource first, the cached result when it fails
+ */
+export type DataStrategy = 'remote_only' | 'cache_then_network' | 'offline_fallback';
+
+const DATA_STRATEGIES: { label: string; detail: string; strategy: DataStrategy }[] = [
+  {
+    label: 'Remote only',
+    detail: 'Only a remote datasource',
+    strategy: 'remote_only',
+  },
+  {
+    label: 'Cache then network',
+    detail:
+      'Adds a local datasource. Returns the cached result and refreshes it from the API in the background, waits for the API when nothing is cached',
+    strategy: 'cache_then_network',
+  },
+  {
+    label: 'Offline fallback',
+    detail:
+      'Adds a local datasource. Calls the API and caches its result, returns the cached result when the API fails',
+    strategy: 'offline_fallback',
+  },
+];
+
+/** Parameter types that can be written in a cache key, alone or as the items of a List or a Set */
+const CACHE_KEY_TYPES = ['String', 'int', 'double', 'num', 'bool', 'DateTime'];
+
+/**
+ * 🧙 FUNCTION: Ask the methods of a repository one by one
+ *
+ * For each method asks its name, its parameters and the returned entity.
+ * An empty name finishes the list, at least one method is required.
+ *
+ * @param title - Title shown in every input
+ * @returns The methods, or undefined when the user cancels
+ */
+export async function askRepositoryMethods(title: string): Promise<RepositoryMethod[] | undefined> {
+  const methods: RepositoryMethod[] = [];
+
+  while (true) {
+    const method = await askRepositoryMethod(title, methods);
+    if (method === undefined) {
+      return undefined;
+    }
+    if (method === null) {
+      return methods;
+    }
+    methods.push(method);
+  }
+}
+
+/**
+ * 🧙 FUNCTION: Ask the signature of one repository method
+ *
+ * @param title - Title shown in every input
+ * @param existing - Methods already declared, their names cannot be reused
+ * @param optional - Whether the name can be left empty, by default after the first method
+ * @returns The method, null when the user leaves the name empty, or undefined when the user cancels
+ */
+export async function askRepositoryMethod(
+  title: string,
+  existing: { name: string }[] = [],
+  optional = existing.length > 0,
+): Promise<RepositoryMethod | null | undefined> {
+  const rawName = await window.showInputBox({
+    title,
+    prompt: optional
+      ? `Method ${existing.length + 1} name? Leave it empty to finish`
+      : 'Method name? (prefer camelCase or snake_case format!)',
+    placeHolder: 'Ex: login, get_user_profile, fetchProducts',
+    validateInput: function (value: string) {
+      if (!value) {
+        return optional ? null : 'Method name is required!';
+      }
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(value)) {
+        return 'Only letters, numbers and _ are allowed!';
+      }
+      if (existing.some((method) => method.name === camelCase(value))) {
+        return 'This method already exists!';
+      }
+      return null;
+    },
+  });
+  if (rawName === undefined) {
+    return undefined;
+  }
+  if (!rawName) {
+    return null;
+  }
+  const name = camelCase(rawName);
+
+  const fields = await askDartFields(`${title}: '${name}' parameters`);
+  if (!fields) {
+    return undefined;
+  }
+  const returnType = await askReturnType(`${title}: '${name}' result`);
+  if (!returnType) {
+    return undefined;
+  }
+
+  return { name, fields, returnType };
+}
+
+/**
+ * 🗄️ FUNCTION: Ask the data strategy of the repository implementation
+ *
+ * @returns The strategy, or undefined when the user cancels
+ */
+export async function askDataStrategy(title: string): Promise<DataStrategy | undefined> {
+  const picked = await window.showQuickPick(DATA_STRATEGIES, {
+    title,
+    placeHolder: 'How does the repository use its datasources?',
+  });
+
+  return picked?.strategy;
+}
+
+/**
+ * 🧩 FUNCTION: Template values of the repository methods
+ *
+ * - methods: one item per method (see buildMethodContext)
+ * - entity_imports: entity files used by the parameters and the results
+ * - field_imports: entity files used by the parameters only
+ * - model_imports: model files returned by the datasource
+ * - fake_classes: fakes used by the test values of the parameters
+ * - model_fake_classes: fakes of the models returned by the datasource
+ * - any_list_result: whether a datasource test decodes a JSON list
+ * - any_fixture: whether a datasource test reads a fixture
+ * - has_local_datasource, is_cache_then_network, is_offline_fallback: the data strategy
+ * - any_json_cache: whether the local datasource encodes a result with `dart:convert`
+ * - any_cached: whether a method is cached
+ *
+ * With a local datasource, every method that returns something gets `is_cached`,
+ * unless a parameter cannot be part of its cache key (ex: a `User`): it only
+ * calls the remote datasource.
+ */
+export function buildRepositoryMethodsContext(
+  methods: RepositoryMethod[],
+  strategy: DataStrategy = 'remote_only',
+): TemplateContext {
+  const fieldTypes = methods.flatMap((method) => method.fields.map((field) => field.type));
+  const returnTypes = methods
+    .map((method) => method.returnType.replace(/\?$/, ''))
+    .filter((type) => type !== 'void');
+  const modelTypes = returnTypes.map((type) => getModelType(type));
+
+  const hasLocalDatasource = strategy !== 'remote_only';
+  const isCached = (method: RepositoryMethod) =>
+    hasLocalDatasource && method.returnType !== 'void' && isCacheable(method);
+
+  return {
+    methods: methods.map((method) => ({
+      ...buildMethodContext(method),
+      is_cached: isCached(method),
+    })),
+    entity_imports: getEntityImports([...fieldTypes, ...returnTypes]),
+    field_imports: getEntityImports(fieldTypes),
+    model_imports: getEntityImports(returnTypes).map((entity) => `${entity}_model`),
+    fake_classes: getFakeClasses(fieldTypes),
+    model_fake_classes: getFakeClasses(modelTypes),
+    any_list_result: returnTypes.some((type) => getResultKind(type) === 'entityList'),
+    any_fixture: returnTypes.some((type) => ['entity', 'entityList'].includes(getResultKind(type))),
+    has_local_datasource: hasLocalDatasource,
+    is_cache_then_network: strategy === 'cache_then_network',
+    is_offline_fallback: strategy === 'offline_fallback',
+    any_json_cache: methods
+      .filter(isCached)
+      .some((method) =>
+        getCacheDecode(method.returnType.replace(/\?$/, '')).includes('jsonDecode'),
+      ),
+    any_cached: methods.some(isCached),
+  };
+}
+
+/**
+ * 🔍 FUNCTION: Whether the result of a method can be cached
+ *
+ * Every parameter is part of the cache key, so it needs a type whose text
+ * identifies the value (ex: String, int, List<String>).
+ */
+export function isCacheable(method: RepositoryMethod): boolean {
+  return method.fields.every((field) =>
+    CACHE_KEY_TYPES.includes(field.type.replace(/^(?:List|Set)<(.+)>$/, '$1')),
+  );
+}
+
+/**
+ * 🧩 FUNCTION: Template values of one repository method
+ *
+ * Besides the fields (see buildFieldsContext) and the returned entity
+ * (see buildReturnContext), every item has the Dart snippets shared by
+ * the interface, the implementation, the datasource and their tests:
+ * parameters, arguments, test_arguments, form_data, http_method, endpoint,
+ * model_type, parse_response, test_model, fixture_name, response_data,
+ * expected_model, and the local datasource snippets cache_encode,
+ * test_cache_encode, cache_decode and cache_key_arguments (the query
+ * added to the cache key, ex: `?${Uri(queryParameters: {'id': '$id'}).query}`).
+ */
+export function buildMethodContext(method: RepositoryMethod): TemplateContext {
+  const returnType = method.returnType.replace(/\?$/, '');
+  const isVoid = returnType === 'void';
+  const kind = getResultKind(returnType);
+  const modelType = isVoid ? 'void' : getModelType(returnType);
+  const itemModel = kind === 'entityList' ? getModelType(getListItemType(returnType)) : modelType;
+  const entityFile = getEntityImports([returnType])[0];
+
+  const parameters = method.fields.map((field) => {
+    if (field.defaultValue) {
+      return `${field.type}${field.nullable ? '?' : ''} ${field.name} = ${field.defaultValue}`;
+    }
+    return field.nullable ? `${field.type}? ${field.name}` : `required ${field.type} ${field.name}`;
+  });
+
+  let parseResponse: string | null = null;
+  let responseData = 'null';
+  let expectedModel: string | null = null;
+  const literal = buildReturnContext(returnType).test_result as string | null;
+  if (kind === 'entity') {
+    parseResponse = `${modelType}.fromJson(response.data)`;
+    responseData = 'tJsonStr';
+    expectedModel = `${modelType}.fromJson(tJsonStr)`;
+  } else if (kind === 'entityList') {
+    parseResponse = `(response.data as List).map((item) => ${itemModel}.fromMap(item as DataMap)).toList()`;
+    responseData = `jsonDecode('[$tJsonStr]')`;
+    expectedModel = `[${itemModel}.fromJson(tJsonStr)]`;
+  } else if (kind === 'list') {
+    parseResponse = `${returnType}.from(response.data as List)`;
+    responseData = literal!;
+    expectedModel = literal;
+  } else if (kind === 'value') {
+    parseResponse = `response.data as ${returnType}`;
+    responseData = literal!;
+    expectedModel = literal;
+  }
+
+  return {
+    name: method.name,
+    fields: buildFieldsContext(method.fields),
+    has_fields: method.fields.length > 0,
+    ...buildReturnContext(method.returnType),
+    parameters: parameters.length > 0 ? `{${parameters.join(', ')}}` : '',
+    arguments: method.fields.map((field) => `${field.name}: ${field.name}`).join(', '),
+    test_arguments: method.fields
+      .map((field) => `${field.name}: t${pascalCase(field.name)}`)
+      .join(', '),
+    form_data: method.fields.map((field) => `'${snakeCase(field.name)}': ${field.name}`).join(', '),
+    http_method: method.fields.length > 0 ? 'post' : 'get',
+    endpoint: `/${snakeCase(method.name)}`,
+    model_type: modelType,
+    parse_response: parseResponse,
+    test_model: isVoid ? null : buildReturnContext(modelType).test_result,
+    fixture_name: kind === 'entity' || kind === 'entityList' ? `${entityFile}.json` : null,
+    response_data: responseData,
+    expected_model: expectedModel,
+    cache_encode: isVoid ? null : getCacheEncode(returnType, 'model'),
+    test_cache_encode: isVoid ? null : getCacheEncode(returnType, 'tModel'),
+    cache_decode: isVoid ? null : getCacheDecode(returnType),
+    cache_key_arguments:
+      method.fields.length > 0
+        ? `?\${Uri(queryParameters: {${method.fields.map((field) => `'${field.name}': '$${field.name}'`).join(', ')}}).query}`
+        : '',
+  };
+}
+
+/**
+ * 🔍 FUNCTION: How the datasource builds a result from the response
+ *
+ * - entity: a custom class, parsed with its model (ex: User)
+ * - entityList: a list of custom classes (ex: List<User>)
+ * - list: a list of Dart values (ex: List<String>)
+ * - value: any other Dart value, cast from the response (ex: bool)
+ */
+function getResultKind(returnType: string): 'void' | 'entity' | 'entityList' | 'list' | 'value' {
+  if (returnType === 'void') {
+    return 'void';
+  }
+  if (/^List<.+>$/.test(returnType)) {
+    const itemType = getListItemType(returnType);
+    return /^[A-Za-z_]\w*$/.test(itemType) && getEntityImports([itemType]).length > 0
+      ? 'entityList'
+      : 'list';
+  }
+  return /^[A-Za-z_]\w*$/.test(returnType) && getEntityImports([returnType]).length > 0
+    ? 'entity'
+    : 'value';
+}
+
+/**
+ * 💾 FUNCTION: Dart expression that turns a result into the String stored by the local datasource
+ *
+ * @param variable - Name of the variable holding the result (ex: model)
+ */
+function getCacheEncode(returnType: string, variable: string): string {
+  switch (getResultKind(returnType)) {
+    case 'entity':
+      return `${variable}.toJson()`;
+    case 'entityList':
+      return `jsonEncode(${variable}.map((item) => item.toMap()).toList())`;
+    case 'list':
+      return `jsonEncode(${variable})`;
+  }
+  if (returnType === 'String') {
+    return variable;
+  }
+  if (returnType === 'DateTime') {
+    return `${variable}.toIso8601String()`;
+  }
+  return /^Set</.test(returnType) ? `jsonEncode(${variable}.toList())` : `jsonEncode(${variable})`;
+}
+
+/**
+ * 💾 FUNCTION: Dart expression that reads a result back from the String `cached`
+ */
+function getCacheDecode(returnType: string): string {
+  switch (getResultKind(returnType)) {
+    case 'entity':
+      return `${getModelType(returnType)}.fromJson(cached)`;
+    case 'entityList':
+      return `(jsonDecode(cached) as List).map((item) => ${getModelType(getListItemType(returnType))}.fromMap(item as DataMap)).toList()`;
+    case 'list':
+      return `${returnType}.from(jsonDecode(cached) as List)`;
+    case 'void':
+      return '';
+  }
+  if (returnType === 'String') {
+    return 'cached';
+  }
+  if (returnType === 'DateTime') {
+    return 'DateTime.parse(cached)';
+  }
+  if (/^Map</.test(returnType)) {
+    return `${returnType}.from(jsonDecode(cached) as Map)`;
+  }
+  if (/^Set</.test(returnType)) {
+    return `${returnType}.from(jsonDecode(cached) as List)`;
+  }
+  return `jsonDecode(cached) as ${returnType}`;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Type returned by the datasource for a domain type
+ *
+ * Ex: User → UserModel, List<User> → List<UserModel>, bool → bool
+ */
+function getModelType(returnType: string): string {
+  const kind = getResultKind(returnType);
+  if (kind === 'entity') {
+    return `${returnType}Model`;
+  }
+  if (kind === 'entityList') {
+    return `List<${getListItemType(returnType)}Model>`;
+  }
+  return returnType;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Item type of a list type (ex: List<User> → User)
+ */
+function getListItemType(listType: string): string {
+  return listType.replace(/^List<(.+)>$/, '$1');
+}
@@ -0,0 +1,198 @@
+import { readFileSync } from 'fs';
+import { Position, Range, Uri, WorkspaceEdit } from 'vscode';
+import fs = require('fs');
+import { renderTemplate } from './template_engine';
+import { getFeatures } from './feature_artifacts';
+import { getDartFiles, getTopLevelBlocks, maskDartCode, resolveImport } from './dart_source';
+
+/**
+ * 📋 INTERFACE: Everything a removal deletes, cleans up and leaves behind
+ */
+export interface RemovalPlan {
+  /** Title of the removal (ex: Remove use case login_user) */
+  label: string;
+  /** Files and folders to delete, absolute paths */
+  deletions: string[];
+  /** Injection files and barrels without the imports and the statements of the deleted classes */
+  cleanups: { filePath: string; content: string }[];
+  /** Lines of the other files that still use the deleted files or classes */
+  usages: RemainingUsage[];
+}
+
+/**
+ * 📋 INTERFACE: A line that still uses something deleted
+ */
+export interface RemainingUsage {
+  filePath: string;
+  /** Zero-based line, once the file is cleaned up */
+  line: number;
+  text: string;
+}
+
+/**
+ * 🧹 MAIN FUNCTION: Plan the removal of generated files
+ *
+ * Every Dart file of lib/ and test/ that is not deleted is checked:
+ * 1. Injection files (`*_injection.dart`, `injection_container.dart`) and the
+ *    feature barrels lose the imports and exports of the deleted files and the
+ *    statements that use their classes or functions, even wrapped on several
+ *    lines (ex: registrations, `await initAuthFeature();`)
+ * 2. In any other file, the imports of the deleted files and the lines that use
+ *    their classes are reported, hand-written code is never changed. Classes are
+ *    only looked for in the files that import a deleted file or a feature barrel.
+ *
+ * @param rootFolder - Root directory of the Flutter project
+ * @param packageName - Name of the app package, used to resolve `package:` imports
+ * @param label - Title of the removal
+ * @param deletions - Files and folders to delete, absolute paths
+ * @param featureBarrel - Barrel of a feature relative to its folder (see LayerRules)
+ */
+export function planRemoval(
+  rootFolder: string,
+  packageName: string,
+  label: string,
+  deletions: string[],
+  featureBarrel: string,
+): RemovalPlan {
+  const isDeleted = (filePath: string) =>
+    deletions.some((deletion) => filePath === deletion || filePath.startsWith(`${deletion}/`));
+  const dartFiles = [`${rootFolder}/lib`, `${rootFolder}/test`]
+    .filter((folder) => fs.existsSync(folder))
+    .flatMap((folder) => getDartFiles(folder));
+  const remainingFiles = dartFiles.filter((file) => !isDeleted(file));
+
+  // 🔍 STEP 1: Classes and functions declared only by the deleted files (ex: not `Params`)
+  const declared = (files: string[]) =>
+    new Set(
+      files.flatMap((file) =>
+        getTopLevelBlocks(readFileSync(file, 'utf8')).map((block) => block.name),
+      ),
+    );
+  const remainingNames = declared(remainingFiles);
+  const deletedNames = [...declared(dartFiles.filter(isDeleted))].filter(
+    (name) => name !== 'main' && !remainingNames.has(name),
+  );
+  const usesDeletedName = (line: string) =>
+    deletedNames.some((name) => new RegExp(`\\b${name}\\b`).test(line));
+
+  // 🧹 STEP 2: Clean up the injection files and the barrels, report the other usages
+  const barrels = featureBarrel
+    ? getFeatures(rootFolder).map(
+        (feature) =>
+          `${rootFolder}/lib/src/${feature}/${renderTemplate(featureBarrel, { feature_name: feature })}`,
+      )
+    : [];
+  const cleanups: RemovalPlan['cleanups'] = [];
+  const usages: RemainingUsage[] = [];
+  remainingFiles.forEach((file) => {
+    const content = readFileSync(file, 'utf8');
+    const code = maskDartCode(content).split('\n');
+    const canClean =
+      /_injection\.dart$|\/injection_container\.dart$/.test(file) || barrels.includes(file);
+
+    const lines = content.split('\n');
+    const targets = lines.map((text) => {
+      const directive = text.match(/^\s*(?:import|export)\s+(['"])([^'"]+)\1/);
+      return directive && resolveImport(rootFolder, packageName, file, directive[2]);
+    });
+    // Deleted classes can only be used through an import of their file or of a barrel
+    const canUse = targets.some(
+      (target) => target && (isDeleted(target) || barrels.includes(target)),
+    );
+
+    // Whole statements are removed, a registration can be wrapped on several lines
+    const removed = new Set<number>();
+    const fileUsages: number[] = [];
+    lines.forEach((text, line) => {
+      const target = targets[line];
+      const isUsage = target ? isDeleted(target) : canUse && usesDeletedName(code[line]);
+      if (!isUsage || removed.has(line)) {
+        return;
+      }
+      const statement = canClean ? findStatementLines(code, line) : undefined;
+      if (!statement) {
+        fileUsages.push(line);
+        return;
+      }
+      for (let i = statement.start; i <= statement.end; i++) {
+        removed.add(i);
+      }
+    });
+    fileUsages
+      .filter((line) => !removed.has(line))
+      .forEach((line) =>
+        usages.push({
+          filePath: file,
+          line: line - [...removed].filter((other) => other < line).length,
+          text: lines[line].trim(),
+        }),
+      );
+    if (removed.size > 0) {
+      cleanups.push({
+        filePath: file,
+        content: lines.filter((_, line) => !removed.has(line)).join('\n'),
+      });
+    }
+  });
+
+  return { label, deletions, cleanups, usages };
+}
+
+/**
+ * 🧩 FUNCTION: Build the edit of a removal
+ *
+ * The clean ups come first, then the deletions, so the whole removal is a single undoable edit.
+ */
+export function buildRemovalEdit(plan: RemovalPlan): WorkspaceEdit {
+  const edit = new WorkspaceEdit();
+  plan.cleanups.forEach((cleanup) => {
+    const lines = readFileSync(cleanup.filePath, 'utf8').split('\n');
+    edit.replace(
+      Uri.file(cleanup.filePath),
+      new Range(new Position(0, 0), new Position(lines.length, 0)),
+      cleanup.content,
+    );
+  });
+  plan.deletions.forEach((deletion) =>
+    edit.deleteFile(Uri.file(deletion), { recursive: true, ignoreIfNotExists: true }),
+  );
+  return edit;
+}
+
+/**
+ * 📏 HELPER FUNCTION: Lines of the statement that contains a line, up to its `;`
+ *
+ * @param code - Lines of the file without the comments and the strings (see maskDartCode)
+ * @returns undefined when the statement shares a line with other code, is a block
+ *   or a cascade (ex: `sl..registerFactory(...)..registerLazySingleton(...)`) that
+ *   may register other classes
+ */
+function findStatementLines(
+  code: string[],
+  line: number,
+): { start: number; end: number } | undefined {
+  // The statement starts after the end of the previous one or of a block
+  let start = line;
+  while (start > 0 && !/^\s*$|[;{}]\s*$/.test(code[start - 1])) {
+    start--;
+  }
+
+  let depth = 0;
+  for (let end = start; end < code.length; end++) {
+    for (let i = 0; i < code[end].length; i++) {
+      const char = code[end][i];
+      if (depth === 0 && char === '{') {
+        return undefined; // A block (ex: a function or an if), not a statement
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char) && --depth < 0) {
+        return undefined;
+      } else if (depth === 0 && code[end].startsWith('..', i)) {
+        return undefined;
+      } else if (depth === 0 && char === ';') {
+        return code[end].slice(i + 1).trim() ? undefined : { start, end };
+      }
+    }
+  }
+  return undefined;
+}
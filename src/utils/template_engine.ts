@@ -0,0 +1,504 @@
+import { readFileSync } from 'fs';
+import { camelCase, constantCase, pascalCase, snakeCase } from 'change-case';
+
+/**
+ * 📋 INTERFACE: Values available inside a template
+ *
+ * Keys are the placeholder names (ex: `feature_name`), values can be
+ * strings, numbers, booleans, objects or lists of them.
+ */
+export interface TemplateContext {
+  [key: string]: any;
+}
+
+/**
+ * 📋 TYPE: A filter applied with `{{value | filter}}`
+ */
+export type TemplateFilter = (value: any) => any;
+
+/**
+ * ❌ ERROR: Error raised while parsing or rendering a template
+ *
+ * The message always points to the template and the line where the
+ * error was found, ex: `bloc.template:12:5: Unknown placeholder 'usecase'`.
+ */
+export class TemplateError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number,
+    readonly templatePath = 'template',
+  ) {
+    super(`${templatePath}:${line}:${column}: ${reason}`);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * 🎨 FILTERS: Available filters, they can be chained from left to right
+ *
+ * The case filters can also be written with the legacy dot syntax:
+ * `{{feature_name.snakeCase}}` is the same as `{{feature_name | snakeCase}}`.
+ */
+export const templateFilters: { [name: string]: TemplateFilter } = {
+  lowerCase: (value) => String(value).toLowerCase(),
+  upperCase: (value) => String(value).toUpperCase(),
+  snakeCase: (value) => snakeCase(String(value)),
+  pascalCase: (value) => pascalCase(String(value)),
+  camelCase: (value) => camelCase(String(value)),
+  constantCase: (value) => constantCase(String(value)),
+  plural: (value) => pluralize(String(value)),
+  singular: (value) => singularize(String(value)),
+  dartString: (value) =>
+    String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$/g, '\\$'),
+  length: (value) => (Array.isArray(value) ? value.length : String(value).length),
+};
+
+/**
+ * 🎯 MAIN FUNCTION: Render a template with the given context
+ *
+ * Supported syntax:
+ * - `{{name}}`, `{{item.name}}` → value of the placeholder
+ * - `{{name | snakeCase | plural}}` → value with chained filters
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`
+ * - `{{#each items}}...{{else}}...{{/each}}` → repeats the block for each item,
+ *   the fields of the item are available directly, the item itself as `this`
+ *   and the position as `@index`, `@first` and `@last`
+ * - `{{! comment }}` → removed from the output
+ * - `\{{` → a literal `{{`, and `{{{name}}}` → the value between literal braces
+ *
+ * Block tags alone on their line do not leave an empty line in the output.
+ *
+ * @param template - Template content
+ * @param context - Values of the placeholders
+ * @param templatePath - Path used in the error messages
+ * @throws TemplateError when the syntax is invalid or a placeholder or filter is unknown
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  templatePath?: string,
+): string {
+  const nodes = parseTemplate(template, templatePath);
+  return renderNodes(nodes, [{ value: context }], templatePath);
+}
+
+/**
+ * 📖 FUNCTION: Read a template file and render it
+ *
+ * @param templatePath - Path to the `.template` file
+ * @param context - Values of the placeholders
+ */
+export function renderTemplateFile(templatePath: string, context: TemplateContext): string {
+  return renderTemplate(readFileSync(templatePath, 'utf8'), context, templatePath);
+}
+
+/**
+ * 📄 FUNCTION: Render the template of a generated Dart file
+ *
+ * Same as renderTemplateFile, the `package:gymtor/` imports hardcoded in
+ * older templates then point to the package of the app.
+ *
+ * @param context - Values of the placeholders, with the `package_name` of the app
+ */
+export function renderDartTemplate(templatePath: string, context: TemplateContext): string {
+  try {
+    const content = renderTemplateFile(templatePath, context);
+    return context.package_name
+      ? content.replace(/package:gymtor\//g, `package:${context.package_name}/`)
+      : content;
+  } catch (error) {
+    console.error(`Error processing template ${templatePath}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * 📋 TYPES: Nodes of a parsed template
+ */
+interface Expression {
+  path: string[];
+  filters: string[];
+  source: string;
+  line: number;
+  column: number;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; expression: Expression }
+  | {
+      type: 'if';
+      expression: Expression;
+      negate: boolean;
+      body: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | { type: 'each'; expression: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface Scope {
+  value: any;
+  index?: number;
+  first?: boolean;
+  last?: boolean;
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  name: string;
+  line: number;
+  column: number;
+  inElse: boolean;
+}
+
+/**
+ * 🔍 FUNCTION: Parse a template into a tree of nodes
+ */
+function parseTemplate(template: string, templatePath?: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = () => {
+    const block = stack[stack.length - 1];
+    if (!block) {
+      return root;
+    }
+    return block.inElse ? block.node.otherwise : block.node.body;
+  };
+  const location = (index: number) => {
+    const before = template.slice(0, index);
+    const line = before.split('\n').length;
+    return { line, column: index - before.lastIndexOf('\n') };
+  };
+  const fail = (reason: string, index: number): never => {
+    const { line, column } = location(index);
+    throw new TemplateError(reason, line, column, templatePath);
+  };
+
+  let text = '';
+  let cursor = 0;
+
+  while (cursor < template.length) {
+    let open = template.indexOf('{{', cursor);
+    if (open === -1) {
+      text += template.slice(cursor);
+      break;
+    }
+
+    // `{{{name}}}` is a literal brace around a tag, as in Dart maps and named parameters
+    while (template[open + 2] === '{') {
+      open++;
+    }
+
+    // 🛡️ Escaped tag: `\{{` is written as `{{`
+    if (template[open - 1] === '\\') {
+      text += `${template.slice(cursor, open - 1)}{{`;
+      cursor = open + 2;
+      continue;
+    }
+
+    const close = template.indexOf('}}', open + 2);
+    if (close === -1) {
+      fail("Unclosed tag, missing '}}'", open);
+    }
+
+    text += template.slice(cursor, open);
+    cursor = close + 2;
+    const tag = template.slice(open + 2, close).trim();
+    const isBlockTag = /^[#/!]|^else$/.test(tag);
+
+    // ✂️ Standalone block tags remove their whole line
+    if (isBlockTag) {
+      const lineStart = template.lastIndexOf('\n', open - 1) + 1;
+      const lineEnd = template.indexOf('\n', cursor);
+      const before = template.slice(lineStart, open);
+      const after = template.slice(cursor, lineEnd === -1 ? template.length : lineEnd);
+      if (before.trim() === '' && after.trim() === '') {
+        text = text.slice(0, text.length - before.length);
+        cursor = lineEnd === -1 ? template.length : lineEnd + 1;
+      }
+    }
+
+    if (text) {
+      current().push({ type: 'text', text });
+      text = '';
+    }
+
+    if (tag.startsWith('!')) {
+      continue;
+    }
+
+    const { line, column } = location(open);
+    const blockMatch = tag.match(/^#(\w+)\s*(.*)$/);
+    if (blockMatch) {
+      const [, name, argument] = blockMatch;
+      if (!['if', 'unless', 'each'].includes(name)) {
+        fail(`Unknown block '#${name}'`, open);
+      }
+      if (!argument) {
+        fail(`Block '#${name}' needs a value`, open);
+      }
+      const expression = parseExpression(argument, line, column, templatePath);
+      const node: OpenBlock['node'] =
+        name === 'each'
+          ? { type: 'each', expression, body: [], otherwise: [] }
+          : { type: 'if', expression, negate: name === 'unless', body: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, name, line, column, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        fail("Unexpected '{{else}}'", open);
+      }
+      block.inElse = true;
+      continue;
+    }
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      const block = stack.pop();
+      if (!block) {
+        fail(`Unexpected '{{/${name}}}', no block is open`, open);
+      }
+      if (block.name !== name) {
+        fail(
+          `Expected '{{/${block.name}}}' to close the block opened at line ${block.line} but found '{{/${name}}}'`,
+          open,
+        );
+      }
+      continue;
+    }
+
+    current().push({
+      type: 'output',
+      expression: parseExpression(tag, line, column, templatePath),
+    });
+  }
+
+  if (text) {
+    current().push({ type: 'text', text });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(
+      `Block '#${unclosed.name}' is never closed`,
+      unclosed.line,
+      unclosed.column,
+      templatePath,
+    );
+  }
+
+  return root;
+}
+
+/**
+ * 🔍 FUNCTION: Parse `path.to.value | filter | filter`
+ */
+function parseExpression(
+  source: string,
+  line: number,
+  column: number,
+  templatePath?: string,
+): Expression {
+  const [pathSource, ...filterSources] = source.split('|').map((part) => part.trim());
+  if (!/^(this|@index|@first|@last|[A-Za-z_]\w*)(\.[A-Za-z_]\w*)*$/.test(pathSource)) {
+    throw new TemplateError(`Invalid placeholder '${source}'`, line, column, templatePath);
+  }
+
+  // Legacy syntax: trailing `.snakeCase`, `.pascalCase`... are filters
+  const path = pathSource.split('.');
+  const filters: string[] = [];
+  while (path.length > 1 && templateFilters[path[path.length - 1]]) {
+    filters.unshift(path.pop()!);
+  }
+
+  filterSources.forEach((filter) => {
+    if (!templateFilters[filter]) {
+      throw new TemplateError(
+        `Unknown filter '${filter}' in '{{${source}}}'`,
+        line,
+        column,
+        templatePath,
+      );
+    }
+    filters.push(filter);
+  });
+
+  return { path, filters, source, line, column };
+}
+
+/**
+ * 🔄 FUNCTION: Render a list of nodes with the given scopes
+ *
+ * The last scope is the innermost one (the current `#each` item).
+ */
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], templatePath?: string): string {
+  let output = '';
+
+  nodes.forEach((node) => {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'output':
+        output += toText(
+          evaluate(node.expression, scopes, templatePath),
+          node.expression,
+          templatePath,
+        );
+        break;
+
+      case 'if': {
+        const truthy = isTruthy(evaluate(node.expression, scopes, templatePath));
+        output += renderNodes(
+          truthy !== node.negate ? node.body : node.otherwise,
+          scopes,
+          templatePath,
+        );
+        break;
+      }
+
+      case 'each': {
+        const items = evaluate(node.expression, scopes, templatePath) ?? [];
+        if (!Array.isArray(items)) {
+          throw new TemplateError(
+            `'#each' expects a list but '${node.expression.source}' is not`,
+            node.expression.line,
+            node.expression.column,
+            templatePath,
+          );
+        }
+        if (items.length === 0) {
+          output += renderNodes(node.otherwise, scopes, templatePath);
+        }
+        items.forEach((item, index) => {
+          const scope = {
+            value: item,
+            index,
+            first: index === 0,
+            last: index === items.length - 1,
+          };
+          output += renderNodes(node.body, [...scopes, scope], templatePath);
+        });
+        break;
+      }
+    }
+  });
+
+  return output;
+}
+
+/**
+ * 🔍 FUNCTION: Resolve the value of an expression and apply its filters
+ *
+ * The first name of the path is looked up from the innermost scope to the
+ * outermost one, so the fields of the outer context stay available in loops.
+ */
+function evaluate(expression: Expression, scopes: Scope[], templatePath?: string): any {
+  const unknown = (name: string) =>
+    new TemplateError(
+      `Unknown placeholder '${name}'`,
+      expression.line,
+      expression.column,
+      templatePath,
+    );
+  const [head, ...rest] = expression.path;
+  const innermost = scopes[scopes.length - 1];
+
+  let value: any;
+  if (head === 'this') {
+    value = innermost.value;
+  } else if (head.startsWith('@')) {
+    const loop = [...scopes].reverse().find((scope) => scope.index !== undefined);
+    if (!loop) {
+      throw new TemplateError(
+        `'${head}' can only be used inside '#each'`,
+        expression.line,
+        expression.column,
+        templatePath,
+      );
+    }
+    value = head === '@index' ? loop.index : head === '@first' ? loop.first : loop.last;
+  } else {
+    const scope = [...scopes].reverse().find((candidate) => hasKey(candidate.value, head));
+    if (!scope) {
+      throw unknown(head);
+    }
+    value = scope.value[head];
+  }
+
+  rest.forEach((key, index) => {
+    if (!hasKey(value, key)) {
+      throw unknown([head, ...rest.slice(0, index + 1)].join('.'));
+    }
+    value = value[key];
+  });
+
+  return expression.filters.reduce((result, filter) => templateFilters[filter](result), value);
+}
+
+/**
+ * 📝 HELPER FUNCTION: Convert a resolved value into output text
+ */
+function toText(value: any, expression: Expression, templatePath?: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (typeof value === 'object') {
+    throw new TemplateError(
+      `'${expression.source}' is an object and cannot be printed, use one of its fields`,
+      expression.line,
+      expression.column,
+      templatePath,
+    );
+  }
+  return String(value);
+}
+
+function hasKey(value: any, key: string): boolean {
+  return value !== null && typeof value === 'object' && key in value;
+}
+
+function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * 🔤 FUNCTION: Naive plural of an English word
+ *
+ * Ex: user → users, category → categories, address → addresses
+ */
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) {
+    return `${word.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/i.test(word)) {
+    return `${word}es`;
+  }
+  return `${word}s`;
+}
+
+/**
+ * 🔤 FUNCTION: Naive singular of an English word
+ *
+ * Ex: users → user, categories → category, addresses → address
+ */
+export function singularize(word: string): string {
+  if (/[^aeiou]ies$/i.test(word)) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (/(ss|x|z|ch|sh)es$/i.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (/[^s]s$/i.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
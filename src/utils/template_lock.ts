@@ -0,0 +1,149 @@
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import fs = require('fs');
+import path = require('path');
+import { TemplateSource } from './template_sources';
+
+/**
+ * 📋 INTERFACE: Content of the lockfile written next to the installed templates
+ */
+export interface TemplateLock {
+  version: number;
+  /** Source the templates were installed from */
+  source: TemplateSource;
+  /** Commit of a git or GitHub source, else a hash of the installed files (ex: sha256:1f2e…) */
+  revision: string;
+  /** ISO date of the install or of the last update */
+  installedAt: string;
+  /** SHA-256 of every file as installed, keyed by its path relative to the templates folder */
+  files: { [relativePath: string]: string };
+}
+
+const LOCK_VERSION = 1;
+
+/**
+ * 📂 FUNCTION: Path of the lockfile of a templates folder
+ *
+ * Ex: .my_templates/flutter_tdd_clean_templates.lock.json
+ */
+export function getTemplateLockPath(templateBaseFolder: string): string {
+  return `${templateBaseFolder}.lock.json`;
+}
+
+/**
+ * 📂 FUNCTION: Folder keeping the installed version of every template, the original of the merges
+ *
+ * Ex: .my_templates/.flutter_tdd_clean_templates.base/
+ */
+function getBaseFolder(templateBaseFolder: string): string {
+  return `${path.dirname(templateBaseFolder)}/.${path.basename(templateBaseFolder)}.base`;
+}
+
+/**
+ * 📖 FUNCTION: Read the lockfile of a templates folder
+ *
+ * @returns The lock, or undefined when the templates were installed without one
+ * @throws Error when the lockfile is not valid
+ */
+export function readTemplateLock(templateBaseFolder: string): TemplateLock | undefined {
+  const lockPath = getTemplateLockPath(templateBaseFolder);
+  if (!fs.existsSync(lockPath)) {
+    return undefined;
+  }
+
+  let lock: any;
+  try {
+    lock = JSON.parse(readFileSync(lockPath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`${path.basename(lockPath)}: ${error.message}`);
+  }
+  if (lock?.version !== LOCK_VERSION || !lock.source?.kind || typeof lock.files !== 'object') {
+    throw new Error(
+      `${path.basename(lockPath)}: unsupported lockfile, install the templates again`,
+    );
+  }
+  return lock;
+}
+
+/**
+ * 💾 FUNCTION: Write the lockfile and keep the installed version of every template
+ *
+ * @param files - Content of every installed file, keyed by its path relative to the templates folder
+ * @param revision - Commit of the source, undefined to use a hash of the files
+ */
+export function writeTemplateLock(
+  templateBaseFolder: string,
+  source: TemplateSource,
+  revision: string | undefined,
+  files: { [relativePath: string]: string },
+): TemplateLock {
+  const hashes: TemplateLock['files'] = {};
+  Object.keys(files)
+    .sort()
+    .forEach((relativePath) => (hashes[relativePath] = hashContent(files[relativePath])));
+
+  const lock: TemplateLock = {
+    version: LOCK_VERSION,
+    source,
+    revision: revision || `sha256:${hashContent(JSON.stringify(hashes)).slice(0, 12)}`,
+    installedAt: new Date().toISOString(),
+    files: hashes,
+  };
+
+  const baseFolder = getBaseFolder(templateBaseFolder);
+  fs.rmSync(baseFolder, { recursive: true, force: true });
+  Object.keys(files).forEach((relativePath) => {
+    fs.mkdirSync(path.dirname(`${baseFolder}/${relativePath}`), { recursive: true });
+    fs.writeFileSync(`${baseFolder}/${relativePath}`, files[relativePath]);
+  });
+  fs.writeFileSync(getTemplateLockPath(templateBaseFolder), `${JSON.stringify(lock, null, 2)}\n`);
+  return lock;
+}
+
+/**
+ * 📖 FUNCTION: Installed version of a template, the original of a merge
+ *
+ * @returns The content, or undefined when it is not in the lock or was not kept
+ */
+export function readBaseTemplate(
+  templateBaseFolder: string,
+  lock: TemplateLock,
+  relativePath: string,
+): string | undefined {
+  const basePath = `${getBaseFolder(templateBaseFolder)}/${relativePath}`;
+  if (!lock.files[relativePath] || !fs.existsSync(basePath)) {
+    return undefined;
+  }
+  const content = readFileSync(basePath, 'utf8');
+  return hashContent(content) === lock.files[relativePath] ? content : undefined;
+}
+
+/**
+ * 📖 FUNCTION: Content of every file of a templates folder
+ *
+ * @returns The contents keyed by path relative to the folder, ex: feature/usecase/params/…
+ */
+export function readTemplateFiles(folder: string): { [relativePath: string]: string } {
+  const files: { [relativePath: string]: string } = {};
+  const walk = (dir: string) => {
+    fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+      const fullPath = `${dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else {
+        files[path.posix.relative(folder, fullPath)] = readFileSync(fullPath, 'utf8');
+      }
+    });
+  };
+  if (fs.existsSync(folder)) {
+    walk(folder);
+  }
+  return files;
+}
+
+/**
+ * 🔑 FUNCTION: SHA-256 of a text, in hexadecimal
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
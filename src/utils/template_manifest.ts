@@ -0,0 +1,316 @@
+import { readFileSync } from 'fs';
+import { window } from 'vscode';
+import * as yaml from 'js-yaml';
+import fs = require('fs');
+import path = require('path');
+import { InjectionRegistration } from './injection';
+import { renderTemplate, TemplateContext } from './template_engine';
+
+/**
+ * 📋 INTERFACE: A value asked to the user before generating
+ */
+export interface ManifestPrompt {
+  /** Placeholder name used in the templates (ex: usecase_name) */
+  name: string;
+  prompt: string;
+  placeholder?: string;
+}
+
+/**
+ * 📋 INTERFACE: A template and the file generated from it
+ */
+export interface ManifestFile {
+  /** Template path relative to the templates folder, used as is */
+  template: string;
+  /** Destination relative to the project root, rendered with the placeholders */
+  destination: string;
+  /** Kind of file, only used in the logs (ex: usecase, test) */
+  type: string;
+  /** Whether the user can uncheck the file before generating */
+  optional?: boolean;
+  /** Name of a template value, the file is only generated when it is truthy */
+  when?: string;
+}
+
+/**
+ * 📋 INTERFACE: A GetIt registration, rendered with the placeholders
+ */
+export interface ManifestRegistration {
+  section: InjectionRegistration['section'];
+  class: string;
+  statement: string;
+  imports?: string[];
+  /** Name of a template value, the registration is only added when it is truthy */
+  when?: string;
+}
+
+/**
+ * 📋 INTERFACE: Everything a generator needs to create its files
+ */
+export interface GeneratorManifest {
+  title: string;
+  prompts: ManifestPrompt[];
+  files: ManifestFile[];
+  injection?: ManifestRegistration[];
+}
+
+/**
+ * 📋 INTERFACE: Content of manifest.yaml (or manifest.json)
+ */
+export interface TemplateManifest {
+  version: number;
+  generators: { [id: string]: GeneratorManifest };
+}
+
+/**
+ * 📋 INTERFACE: A manifest file resolved for the current project
+ */
+export interface ResolvedTemplateFile {
+  templatePath: string;
+  destinationPath: string;
+  type: string;
+}
+
+const MANIFEST_FILES = ['manifest.yaml', 'manifest.yml', 'manifest.json'];
+const INJECTION_SECTIONS = ['Datasources', 'Repositories', 'Usecases', 'Blocs'];
+
+/**
+ * 📖 FUNCTION: Load a generator from the manifest of the templates folder
+ *
+ * Template folders downloaded before the manifest existed fall back to the
+ * manifest bundled with the extension, so their commands keep working.
+ *
+ * @param templateBaseFolder - Path to .my_templates/flutter_tdd_clean_templates
+ * @param generatorId - Key of the generator in the manifest (ex: usecase)
+ * @throws Error when the manifest is invalid or does not declare the generator
+ */
+export function loadGenerator(templateBaseFolder: string, generatorId: string): GeneratorManifest {
+  let manifestPath = findManifest(templateBaseFolder);
+  if (!manifestPath) {
+    manifestPath = findManifest(
+      path.join(__dirname, '..', '..', '.my_templates', 'flutter_tdd_clean_templates'),
+    );
+    if (!manifestPath) {
+      throw new Error(`Template manifest not found in ${templateBaseFolder}`);
+    }
+    console.log(`⚠️ No manifest in ${templateBaseFolder}, using the bundled one: ${manifestPath}`);
+  }
+
+  const manifest = parseManifest(manifestPath);
+  const generator = manifest.generators[generatorId];
+  if (!generator) {
+    throw new Error(`${manifestPath}: generator '${generatorId}' is not declared`);
+  }
+  return generator;
+}
+
+/**
+ * ✅ FUNCTION: Validate the manifest of a templates folder, when it has one
+ *
+ * @throws Error when the manifest is invalid or references a missing template
+ */
+export function checkTemplateManifest(templateBaseFolder: string) {
+  const manifestPath = findManifest(templateBaseFolder);
+  if (!manifestPath) {
+    return;
+  }
+
+  const manifest = parseManifest(manifestPath);
+  Object.keys(manifest.generators).forEach((id) => {
+    const missing = manifest.generators[id].files.find(
+      (file) => !fs.existsSync(`${templateBaseFolder}/${file.template}`),
+    );
+    if (missing) {
+      throw new Error(
+        `${path.basename(manifestPath)}: template '${missing.template}' of generator '${id}' not found`,
+      );
+    }
+  });
+}
+
+/**
+ * 📝 FUNCTION: Ask every prompt of a generator
+ *
+ * @returns The answers keyed by prompt name, or undefined when the user cancels
+ */
+export async function askGeneratorPrompts(
+  generator: GeneratorManifest,
+): Promise<TemplateContext | undefined> {
+  const answers: TemplateContext = {};
+
+  for (const prompt of generator.prompts) {
+    const value = await window.showInputBox({
+      title: generator.title,
+      prompt: prompt.prompt,
+      placeHolder: prompt.placeholder,
+      validateInput: function (value: string) {
+        if (!value || value?.includes(' ')) {
+          return 'Name is required and spaces are not allowed!';
+        }
+        return null;
+      },
+    });
+    if (!value) {
+      return undefined; // User cancelled or didn't enter a name
+    }
+    answers[prompt.name] = value;
+  }
+
+  return answers;
+}
+
+/**
+ * ☑️ FUNCTION: Resolve the files to generate
+ *
+ * When the generator has optional files the user can uncheck them,
+ * all of them are checked by default.
+ *
+ * @returns The template and destination paths, or undefined when the user cancels
+ */
+export async function pickGeneratorFiles(
+  generator: GeneratorManifest,
+  templateBaseFolder: string,
+  rootFolder: string,
+  context: TemplateContext,
+): Promise<ResolvedTemplateFile[] | undefined> {
+  let files = generator.files.filter((file) => isEnabled(file.when, context));
+
+  const optionalFiles = files.filter((file) => file.optional);
+  if (optionalFiles.length > 0) {
+    const picked = await window.showQuickPick(
+      optionalFiles.map((file) => ({
+        label: path.basename(renderTemplate(file.destination, context, file.destination)),
+        description: file.type,
+        picked: true,
+        file,
+      })),
+      {
+        title: generator.title,
+        placeHolder: 'Optional files to generate',
+        canPickMany: true,
+      },
+    );
+    if (!picked) {
+      return undefined;
+    }
+    files = files.filter((file) => !file.optional || picked.some((item) => item.file === file));
+  }
+
+  return resolveGeneratorFiles({ ...generator, files }, templateBaseFolder, rootFolder, context);
+}
+
+/**
+ * 📂 FUNCTION: Resolve every file of a generator, without asking anything
+ *
+ * @returns The template and destination paths, optional files included,
+ * files whose `when` value is falsy excluded
+ */
+export function resolveGeneratorFiles(
+  generator: GeneratorManifest,
+  templateBaseFolder: string,
+  rootFolder: string,
+  context: TemplateContext,
+): ResolvedTemplateFile[] {
+  return generator.files
+    .filter((file) => isEnabled(file.when, context))
+    .map((file) => ({
+      templatePath: `${templateBaseFolder}/${file.template}`,
+      destinationPath: `${rootFolder}/${renderTemplate(file.destination, context, file.destination)}`,
+      type: file.type,
+    }));
+}
+
+/**
+ * 💉 FUNCTION: Render the GetIt registrations of a generator
+ */
+export function getGeneratorRegistrations(
+  generator: GeneratorManifest,
+  context: TemplateContext,
+): InjectionRegistration[] {
+  return (generator.injection ?? [])
+    .filter((registration) => isEnabled(registration.when, context))
+    .map((registration) => ({
+      section: registration.section,
+      className: renderTemplate(registration.class, context, registration.class),
+      statement: renderTemplate(registration.statement, context, registration.statement),
+      importPaths: (registration.imports ?? []).map((importPath) =>
+        renderTemplate(importPath, context, importPath),
+      ),
+    }));
+}
+
+/**
+ * 🔀 FUNCTION: Whether a file or a registration with a `when` condition is enabled
+ *
+ * A missing value is falsy, so older commands keep working with newer manifests.
+ */
+function isEnabled(when: string | undefined, context: TemplateContext): boolean {
+  return !when || !!context[when];
+}
+
+/**
+ * 🔍 FUNCTION: Find the manifest file of a templates folder
+ */
+function findManifest(templateBaseFolder: string): string | undefined {
+  return MANIFEST_FILES.map((file) => `${templateBaseFolder}/${file}`).find((file) =>
+    fs.existsSync(file),
+  );
+}
+
+/**
+ * 📖 FUNCTION: Read and validate a manifest file
+ *
+ * Errors name the manifest and the generator at fault, YAML syntax
+ * errors already include the line.
+ */
+function parseManifest(manifestPath: string): TemplateManifest {
+  const fail = (reason: string): never => {
+    throw new Error(`${manifestPath}: ${reason}`);
+  };
+
+  let manifest: any;
+  try {
+    const content = readFileSync(manifestPath, 'utf8');
+    manifest = manifestPath.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+  } catch (error: any) {
+    fail(error.message);
+  }
+
+  if (!manifest || typeof manifest.generators !== 'object') {
+    fail("missing 'generators'");
+  }
+
+  Object.keys(manifest.generators).forEach((id) => {
+    const generator = manifest.generators[id];
+    generator.title = generator.title ?? id;
+    generator.prompts = generator.prompts ?? [];
+
+    if (!Array.isArray(generator.files) || generator.files.length === 0) {
+      fail(`generator '${id}' needs at least one entry in 'files'`);
+    }
+    generator.prompts.forEach((prompt: ManifestPrompt, index: number) => {
+      if (!prompt?.name || !prompt.prompt) {
+        fail(`prompt ${index + 1} of generator '${id}' needs 'name' and 'prompt'`);
+      }
+    });
+    generator.files.forEach((file: ManifestFile, index: number) => {
+      if (!file?.template || !file.destination) {
+        fail(`file ${index + 1} of generator '${id}' needs 'template' and 'destination'`);
+      }
+      file.type = file.type ?? 'file';
+    });
+    (generator.injection ?? []).forEach((registration: ManifestRegistration, index: number) => {
+      if (
+        !INJECTION_SECTIONS.includes(registration?.section) ||
+        !registration.class ||
+        !registration.statement
+      ) {
+        fail(
+          `injection ${index + 1} of generator '${id}' needs 'class', 'statement' and a 'section' (${INJECTION_SECTIONS.join(', ')})`,
+        );
+      }
+    });
+  });
+
+  return manifest;
+}
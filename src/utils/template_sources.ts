@@ -0,0 +1,358 @@
+import { workspace } from 'vscode';
+import fs = require('fs');
+import os = require('os');
+import path = require('path');
+import { getAllTemplateFiles } from './tools';
+import { checkTemplateManifest } from './template_manifest';
+import { readTemplateFiles, writeTemplateLock } from './template_lock';
+const axios = require('axios').default;
+
+/**
+ * 📋 INTERFACE: Where the templates are installed from
+ *
+ * Read from the `scaffolding.templates.source` setting, see getTemplateSource.
+ */
+export type TemplateSource =
+  | { kind: 'github'; author: string; repo: string; ref: string }
+  | { kind: 'directory'; path: string }
+  | { kind: 'archive'; location: string }
+  | { kind: 'git'; url: string; ref: string }
+  | { kind: 'http'; baseUrl: string };
+
+/** File of an HTTP source that lists its templates, one path per line */
+const HTTP_INDEX_FILE = 'index.txt';
+
+const ARCHIVE_EXTENSIONS = /\.(zip|tar\.gz|tgz)$/i;
+
+/** Milliseconds before a git command is stopped, ex: a clone of an unreachable server */
+const GIT_TIMEOUT = 120_000;
+
+/**
+ * ⚙️ FUNCTION: Read the template source from the settings
+ *
+ * `scaffolding.templates.source` is:
+ * - empty: the GitHub repository of the `scaffolding.repository` settings
+ * - a `.zip`, `.tar.gz` or `.tgz` path or URL: an archive
+ * - a git URL (`git@…`, `ssh://…`, `git://…`, `…/repo.git` or `git+https://…`): a git remote
+ * - any other `http(s)://` URL: a base URL serving `index.txt` and the listed templates
+ * - anything else: a local directory, relative to the project root or starting with `~`
+ *
+ * `scaffolding.templates.ref` is the branch or tag of the GitHub and git sources.
+ *
+ * @param rootFolder - Root directory of the Flutter project, for relative directories and archives
+ */
+export function getTemplateSource(rootFolder: string): TemplateSource {
+  const configuration = workspace.getConfiguration('scaffolding');
+  const source = (configuration.get<string>('templates.source') ?? '').trim();
+  const ref = (configuration.get<string>('templates.ref') ?? '').trim();
+
+  if (!source) {
+    return {
+      kind: 'github',
+      author: configuration.get<string>('repository.author') ?? '',
+      repo: configuration.get<string>('repository.repo') ?? '',
+      ref,
+    };
+  }
+  const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(source);
+  if (ARCHIVE_EXTENSIONS.test(source)) {
+    return { kind: 'archive', location: isUrl ? source : resolveLocalPath(rootFolder, source) };
+  }
+  if (/^(git@|ssh:\/\/|git:\/\/|git\+)/.test(source) || /\.git\/?$/.test(source)) {
+    return { kind: 'git', url: source.replace(/^git\+/, ''), ref };
+  }
+  if (/^https?:\/\//.test(source)) {
+    return { kind: 'http', baseUrl: source.replace(/\/+$/, '') };
+  }
+  return {
+    kind: 'directory',
+    path: resolveLocalPath(rootFolder, source.replace(/^file:\/\//, '')),
+  };
+}
+
+/**
+ * 🏷️ FUNCTION: Short description of a source, for the messages
+ */
+export function describeTemplateSource(source: TemplateSource): string {
+  switch (source.kind) {
+    case 'github':
+      return `github.com/${source.author}/${source.repo}${source.ref ? `@${source.ref}` : ''}`;
+    case 'directory':
+      return source.path;
+    case 'archive':
+      return source.location;
+    case 'git':
+      return `${source.url}${source.ref ? `@${source.ref}` : ''}`;
+    case 'http':
+      return source.baseUrl;
+  }
+}
+
+/**
+ * 📋 INTERFACE: Templates fetched from a source and validated, not installed yet
+ */
+export interface StagedTemplates {
+  /** Templates folder inside the staging folder */
+  folder: string;
+  /** Commit of a git or GitHub source, undefined for the other sources */
+  revision?: string;
+  templateCount: number;
+}
+
+/**
+ * 📥 FUNCTION: Fetch and validate the templates of a source, then run a task on them
+ *
+ * 1. The source is fetched into a staging folder next to the templates
+ * 2. The templates folder is found in it: `targetdir` (the
+ *    `scaffolding.repository.targetdir` setting) when the source has it,
+ *    else the root of the source (or its only folder, like in GitHub archives)
+ * 3. The result is validated: it has templates, and its manifest is valid
+ *    and only references existing templates
+ *
+ * The staging folder is deleted once the task ends.
+ *
+ * @param templateBaseFolder - Path to .my_templates/flutter_tdd_clean_templates
+ * @param targetdir - Folder of the templates inside the source
+ * @throws Error when the source cannot be fetched or is not a valid templates folder
+ */
+export async function withStagedTemplates<T>(
+  templateBaseFolder: string,
+  source: TemplateSource,
+  targetdir: string,
+  task: (staged: StagedTemplates) => Promise<T>,
+): Promise<T> {
+  const stagingFolder = `${path.dirname(templateBaseFolder)}/.${path.basename(templateBaseFolder)}.staging`;
+  fs.rmSync(stagingFolder, { recursive: true, force: true });
+  fs.mkdirSync(stagingFolder, { recursive: true });
+
+  try {
+    // 📥 STEP 1: Fetch
+    const revision = await fetchTemplateSource(source, stagingFolder, targetdir);
+
+    // 🔍 STEP 2: Templates folder of the source
+    const folder = locateTemplatesFolder(stagingFolder, targetdir);
+
+    // ✅ STEP 3: Validate
+    const templateCount = getAllTemplateFiles(folder).length;
+    if (templateCount === 0) {
+      throw new Error(`no .template file found in ${describeTemplateSource(source)}`);
+    }
+    checkTemplateManifest(folder);
+
+    return await task({ folder, revision, templateCount });
+  } finally {
+    fs.rmSync(stagingFolder, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 📥 MAIN FUNCTION: Install the templates of a source
+ *
+ * The templates are staged and validated (see withStagedTemplates), then they
+ * replace the templates folder, the previous one is restored on failure. The
+ * lockfile records the source, the revision and the hash of every file, so
+ * local edits and upstream changes can be told apart later.
+ *
+ * @param templateBaseFolder - Path to .my_templates/flutter_tdd_clean_templates
+ * @param targetdir - Folder of the templates inside the source
+ * @returns Number of installed templates
+ * @throws Error when the source cannot be fetched or is not a valid templates folder,
+ * the current templates are then unchanged
+ */
+export async function installTemplates(
+  templateBaseFolder: string,
+  source: TemplateSource,
+  targetdir: string,
+): Promise<number> {
+  return withStagedTemplates(templateBaseFolder, source, targetdir, async (staged) => {
+    const files = readTemplateFiles(staged.folder);
+
+    // 🔁 Replace, keeping the previous templates until the new ones are in place
+    const backupFolder = `${path.dirname(templateBaseFolder)}/.${path.basename(templateBaseFolder)}.backup`;
+    fs.rmSync(backupFolder, { recursive: true, force: true });
+    if (fs.existsSync(templateBaseFolder)) {
+      fs.renameSync(templateBaseFolder, backupFolder);
+    }
+    try {
+      fs.renameSync(staged.folder, templateBaseFolder);
+    } catch (error) {
+      if (fs.existsSync(backupFolder)) {
+        fs.renameSync(backupFolder, templateBaseFolder);
+      }
+      throw error;
+    }
+    fs.rmSync(backupFolder, { recursive: true, force: true });
+
+    writeTemplateLock(templateBaseFolder, source, staged.revision, files);
+    return staged.templateCount;
+  });
+}
+
+/**
+ * 📥 FUNCTION: Fetch a source into an empty folder
+ *
+ * @returns The commit of a git or GitHub source, when known
+ */
+async function fetchTemplateSource(
+  source: TemplateSource,
+  outdir: string,
+  targetdir: string,
+): Promise<string | undefined> {
+  switch (source.kind) {
+    case 'github': {
+      const { recursiveDownload } = require('gh-retrieve');
+      await recursiveDownload({
+        author: source.author,
+        repo: source.repo,
+        targetdir,
+        branch: source.ref || 'main',
+        outdir,
+      });
+      return getGithubCommit(source);
+    }
+    case 'directory':
+      if (!fs.existsSync(source.path) || !fs.statSync(source.path).isDirectory()) {
+        throw new Error(`folder ${source.path} not found`);
+      }
+      fs.cpSync(source.path, outdir, { recursive: true });
+      return;
+    case 'archive': {
+      const decompress = require('decompress');
+      let archive: Buffer;
+      if (/^https?:\/\//.test(source.location)) {
+        const response = await axios.get(source.location, { responseType: 'arraybuffer' });
+        archive = Buffer.from(response.data);
+      } else if (fs.existsSync(source.location)) {
+        archive = fs.readFileSync(source.location);
+      } else {
+        throw new Error(`archive ${source.location} not found`);
+      }
+      // Entries must stay inside the staging folder (ex: no `../../.bashrc`)
+      const unsafe: string[] = [];
+      await decompress(archive, outdir, {
+        filter: (file: { path: string; type?: string; linkname?: string }) => {
+          const paths = [file.path, ...(file.type === 'symlink' ? [file.linkname ?? ''] : [])];
+          if (paths.some((entry) => isOutsidePath(entry))) {
+            unsafe.push(file.path);
+            return false;
+          }
+          return true;
+        },
+      });
+      if (unsafe.length > 0) {
+        throw new Error(`the archive has entries outside of its folder: ${unsafe.join(', ')}`);
+      }
+      return;
+    }
+    case 'git': {
+      const args = ['clone', '--depth', '1'];
+      if (source.ref) {
+        args.push('--branch', source.ref);
+      }
+      // `--` keeps a URL starting with `-` from being read as an option (ex: --upload-pack=...)
+      await runGit([...args, '--', source.url, outdir]);
+      const commit = await runGit(['-C', outdir, 'rev-parse', 'HEAD']);
+      fs.rmSync(`${outdir}/.git`, { recursive: true, force: true });
+      return commit;
+    }
+    case 'http': {
+      const index = await axios.get(`${source.baseUrl}/${HTTP_INDEX_FILE}`, {
+        responseType: 'text',
+      });
+      const files = String(index.data)
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith('#'));
+      if (files.some((file) => isOutsidePath(file))) {
+        throw new Error(`${HTTP_INDEX_FILE} must only list paths inside ${source.baseUrl}`);
+      }
+      for (const file of files) {
+        const url = `${source.baseUrl}/${file.split('/').map(encodeURIComponent).join('/')}`;
+        const response = await axios.get(url, { responseType: 'arraybuffer' });
+        fs.mkdirSync(path.dirname(`${outdir}/${file}`), { recursive: true });
+        fs.writeFileSync(`${outdir}/${file}`, Buffer.from(response.data));
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * 🔍 FUNCTION: Templates folder inside a fetched source
+ */
+function locateTemplatesFolder(fetchedFolder: string, targetdir: string): string {
+  const folders = [fetchedFolder];
+  const entries = fs.readdirSync(fetchedFolder, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    folders.push(`${fetchedFolder}/${entries[0].name}`);
+  }
+
+  const relativeTarget = targetdir.replace(/^\.?\/+|\/+$/g, '');
+  const withTarget = folders
+    .map((folder) => `${folder}/${relativeTarget}`)
+    .find((folder) => relativeTarget && fs.existsSync(folder) && fs.statSync(folder).isDirectory());
+  return withTarget ?? folders[folders.length - 1];
+}
+
+/**
+ * 🔍 FUNCTION: Commit of the branch or tag of a GitHub source
+ *
+ * @returns The commit, or undefined when the GitHub API does not answer (ex: rate limit)
+ */
+async function getGithubCommit(
+  source: Extract<TemplateSource, { kind: 'github' }>,
+): Promise<string | undefined> {
+  try {
+    const response = await axios.get(
+      `https://api.github.com/repos/${source.author}/${source.repo}/commits/${source.ref || 'main'}`,
+    );
+    return response.data?.sha;
+  } catch (error: any) {
+    console.log(`⚠️ No commit for ${describeTemplateSource(source)}: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * 🔧 FUNCTION: Run git, the last line of its error output becomes the error message
+ *
+ * Git never prompts for credentials (the remote must accept the configured ones)
+ * and is stopped after GIT_TIMEOUT.
+ *
+ * @returns The trimmed output
+ */
+function runGit(args: string[]): Promise<string> {
+  const { execFile } = require('child_process');
+  const options = { env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }, timeout: GIT_TIMEOUT };
+  return new Promise((resolve, reject) => {
+    execFile('git', args, options, (error: any, stdout: string, stderr: string) => {
+      if (error?.killed) {
+        reject(new Error(`git ${args[0]} did not finish within ${GIT_TIMEOUT / 1000} seconds`));
+      } else if (error) {
+        reject(new Error(stderr.trim().split('\n').pop() || error.message));
+      } else {
+        resolve(stdout.trim());
+      }
+    });
+  });
+}
+
+/**
+ * 📝 HELPER FUNCTION: Whether a path of an archive or an index leaves its folder
+ */
+function isOutsidePath(file: string): boolean {
+  const normalized = file.replaceAll('\\', '/');
+  return (
+    path.posix.isAbsolute(normalized) ||
+    /^[A-Za-z]:/.test(normalized) ||
+    normalized.split('/').includes('..')
+  );
+}
+
+/**
+ * 📝 HELPER FUNCTION: Absolute path of a local source
+ */
+function resolveLocalPath(rootFolder: string, location: string): string {
+  const expanded = location.replace(/^~(?=$|[\\/])/, os.homedir());
+  return path.resolve(rootFolder, expanded).replaceAll('\\', '/');
+}
@@ -0,0 +1,158 @@
+/**
+ * 📋 INTERFACE: Result of a three-way merge
+ */
+export interface MergeResult {
+  /** Merged text, with conflict markers around the conflicts */
+  content: string;
+  /** Number of conflicts left to resolve */
+  conflicts: number;
+}
+
+/**
+ * 📋 INTERFACE: Labels of the conflict markers
+ */
+export interface MergeLabels {
+  local: string;
+  base: string;
+  upstream: string;
+}
+
+/**
+ * 📋 INTERFACE: Lines of the original replaced by one side
+ */
+interface Hunk {
+  /** First replaced line of the original */
+  start: number;
+  /** Line after the last replaced line of the original, `start` for an insertion */
+  end: number;
+  lines: string[];
+  side: 'local' | 'upstream';
+}
+
+/**
+ * 🔀 MAIN FUNCTION: Merge the local and the upstream changes of an original text
+ *
+ * Works line by line like `git merge-file`:
+ * 1. The changes of each side are computed against the original
+ * 2. A change made on one side only is applied
+ * 3. Changes of both sides that touch the same lines (or adjacent lines) are
+ *    applied when they are identical, else they are a conflict written with
+ *    diff3 markers: `<<<<<<<` local, `|||||||` original, `=======` upstream, `>>>>>>>`
+ *
+ * The merge editor of VS Code opens the files with these markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  upstream: string,
+  labels: MergeLabels,
+): MergeResult {
+  const baseLines = base.split('\n');
+  const localLines = local.split('\n');
+  const upstreamLines = upstream.split('\n');
+  const hunks = [
+    ...diffLines(baseLines, localLines, 'local'),
+    ...diffLines(baseLines, upstreamLines, 'upstream'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const result: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let index = 0;
+  while (index < hunks.length) {
+    // 🔗 STEP 1: Changes that touch the same lines of the original
+    const group = [hunks[index]];
+    let end = hunks[index].end;
+    index++;
+    while (index < hunks.length && hunks[index].start <= end) {
+      group.push(hunks[index]);
+      end = Math.max(end, hunks[index].end);
+      index++;
+    }
+    const start = group[0].start;
+    result.push(...baseLines.slice(position, start));
+    position = end;
+
+    // 🔀 STEP 2: One side, the same change on both sides, or a conflict
+    const localHunks = group.filter((hunk) => hunk.side === 'local');
+    const upstreamHunks = group.filter((hunk) => hunk.side === 'upstream');
+    const localVersion = applyHunks(baseLines, start, end, localHunks);
+    const upstreamVersion = applyHunks(baseLines, start, end, upstreamHunks);
+    if (upstreamHunks.length === 0 || localVersion.join('\n') === upstreamVersion.join('\n')) {
+      result.push(...localVersion);
+    } else if (localHunks.length === 0) {
+      result.push(...upstreamVersion);
+    } else {
+      conflicts++;
+      result.push(
+        `<<<<<<< ${labels.local}`,
+        ...localVersion,
+        `||||||| ${labels.base}`,
+        ...baseLines.slice(start, end),
+        '=======',
+        ...upstreamVersion,
+        `>>>>>>> ${labels.upstream}`,
+      );
+    }
+  }
+  result.push(...baseLines.slice(position));
+
+  return { content: result.join('\n'), conflicts };
+}
+
+/**
+ * 🧩 FUNCTION: Lines of the original between `start` and `end` with the changes of one side
+ */
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  hunks.forEach((hunk) => {
+    lines.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  });
+  lines.push(...baseLines.slice(position, end));
+  return lines;
+}
+
+/**
+ * 🔍 FUNCTION: Changes from the original to a side, from their longest common subsequence
+ */
+function diffLines(baseLines: string[], sideLines: string[], side: Hunk['side']): Hunk[] {
+  const rows = baseLines.length;
+  const columns = sideLines.length;
+  // lengths[i][j]: length of the common subsequence of baseLines[i..] and sideLines[j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] =
+        baseLines[i] === sideLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && baseLines[i] === sideLines[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { start: i, end: i, lines: [], side };
+      hunks.push(current);
+    }
+    if (j < columns && (i === rows || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      current.lines.push(sideLines[j]);
+      j++;
+    } else {
+      i++;
+      current.end = i;
+    }
+  }
+  return hunks;
+}
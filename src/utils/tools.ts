@@ -1,61 +1,43 @@
-import { camelCase, pascalCase, snakeCase } from 'change-case';
 import { Uri, window, workspace } from 'vscode';
 import * as vscode from 'vscode';
 import fs = require('fs');
 import path = require('path');
+import { findPubspecFolder, getPubspec } from './get-pubspec';
+import { describeTemplateSource, getTemplateSource, installTemplates } from './template_sources';
 const axios = require('axios').default;
 
-declare global {
-  interface String {
-    replaceName(searchTerm: string, replaceFor: string): string;
-  }
-}
-
-String.prototype.replaceName = function (searchTerm: string, replaceFor: string): string {
-  let targetText = this;
-
-  if (searchTerm.includes('lowerCase')) {
-    targetText = targetText.replaceAll(searchTerm, replaceFor.toLowerCase());
-  }
-
-  if (searchTerm.includes('upperCase')) {
-    targetText = targetText.replaceAll(searchTerm, replaceFor.toUpperCase());
-  }
-
-  if (searchTerm.includes('snakeCase')) {
-    targetText = targetText.replaceAll(searchTerm, snakeCase(replaceFor));
-  }
-
-  if (searchTerm.includes('pascalCase')) {
-    targetText = targetText.replaceAll(searchTerm, pascalCase(replaceFor));
-  }
-
-  if (searchTerm.includes('camelCase')) {
-    targetText = targetText.replaceAll(searchTerm, camelCase(replaceFor));
-  }
-
-  targetText = targetText.replaceAll(searchTerm, replaceFor);
-
-  return `${targetText}`;
-};
-
 export function getClickedFolder(uri: Uri): string {
   // TODO: Check to mac and linux compatibility
   const path = uri.fsPath.replaceAll('\\', '/');
   return path;
 }
 
+/**
+ * 📁 FUNCTION: Get the root folder of the Flutter app
+ *
+ * The folder of the nearest pubspec.yaml above the clicked folder, so apps
+ * nested in a monorepo use their own folder. Falls back to the workspace folder.
+ */
 export function getRootFolder(uri: Uri): string {
-  return workspace.getWorkspaceFolder(uri)?.uri.fsPath!;
+  const workspaceFolder = workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+  return findPubspecFolder(uri.fsPath, workspaceFolder) ?? workspaceFolder!;
 }
 
+/**
+ * 📦 FUNCTION: Get the package name used in `package:` imports
+ *
+ * The `name` declared in the nearest pubspec.yaml, or the name of the
+ * root folder when there is no pubspec.yaml or it has no name.
+ */
 export async function getPackageName(uri: Uri): Promise<string> {
   try {
-    // TODO: Check to mac and linux compatibility
     const rootFolder = getRootFolder(uri);
-    const packageName = path.basename(rootFolder);
-    // const packageName = rootFolder[rootFolder.length - 1];
-    return packageName;
+    const pubspec: any = await getPubspec(rootFolder);
+    if (typeof pubspec?.name === 'string' && pubspec.name.trim()) {
+      return pubspec.name.trim();
+    }
+    console.log(`⚠️ No package name in ${rootFolder}/pubspec.yaml, using the folder name`);
+    return path.basename(rootFolder);
   } catch (error) {
     window.showErrorMessage('Error load pubspec.yaml');
     return '';
@@ -88,16 +70,16 @@ export async function donwloadTemplateFiles(file: string, url: string) {
 }
 
 /**
- * 📝 HELPER FUNCTION: Get use case name (should be moved to shared utilities)
+ * 📝 HELPER FUNCTION: Get bloc name
  *
- * This function should be accessible from the command registration,
- * so you might want to move it to utils or make it available here.
+ * The same name is used for the Bloc or the Cubit, its events and states.
  */
-export async function getUsecaseName(): Promise<string | undefined> {
-  const usecaseName = await vscode.window.showInputBox({
-    title: 'Create Use Case',
-    prompt: 'Use case name? (prefer snake_case format!)',
-    placeHolder: 'Ex: get_user_profile, login_user, fetch_products',
+export async function getBlocName(): Promise<string | undefined> {
+  const blocName = await vscode.window.showInputBox({
+    title: 'Create Bloc',
+    prompt: 'Bloc name? (prefer snake_case format!)',
+    placeHolder:
+      'Ex: authentication, product_list, ... It will generate AuthenticationBloc or AuthenticationCubit',
     validateInput: function (value: string) {
       if (!value || value?.includes(' ')) {
         return 'Name is required and spaces are not allowed!';
@@ -106,21 +88,43 @@ export async function getUsecaseName(): Promise<string | undefined> {
     },
   });
 
-  return usecaseName;
+  return blocName;
 }
 
 /**
- * 📝 HELPER FUNCTION: Get use case name (should be moved to shared utilities)
+ * 📝 HELPER FUNCTION: Get entity name
  *
- * This function should be accessible from the command registration,
- * so you might want to move it to utils or make it available here.
+ * The entity keeps this name and the model adds the `Model` suffix.
  */
-export async function getRepositoryName(): Promise<string | undefined> {
-  const repositoryName = await vscode.window.showInputBox({
-    title: 'Create Repository ',
-    prompt: 'Repository name? (prefer snake_case format!)',
+export async function getEntityName(): Promise<string | undefined> {
+  const entityName = await vscode.window.showInputBox({
+    title: 'Create Entity from JSON',
+    prompt: 'Entity name? (prefer snake_case format!)',
+    placeHolder: 'Ex: user, product, ... It will generate User and UserModel',
+    validateInput: function (value: string) {
+      if (!value || value?.includes(' ')) {
+        return 'Name is required and spaces are not allowed!';
+      }
+      return null;
+    },
+  });
+
+  return entityName;
+}
+
+/**
+ * 📝 HELPER FUNCTION: Get page or widget name
+ *
+ * A page adds the `Page` suffix, a widget keeps this name.
+ */
+export async function getPageName(kind: 'Page' | 'Widget'): Promise<string | undefined> {
+  const pageName = await vscode.window.showInputBox({
+    title: 'Create Page or Widget',
+    prompt: `${kind} name? (prefer snake_case format!)`,
     placeHolder:
-      'Ex: authentication, product, ... Normally you can use the name of the feature like feature: [exercise] then repository: [exercise]',
+      kind === 'Page'
+        ? 'Ex: login, product_list, ... It will generate LoginPage and LoginView'
+        : 'Ex: product_card, login_form, ... It will generate ProductCard',
     validateInput: function (value: string) {
       if (!value || value?.includes(' ')) {
         return 'Name is required and spaces are not allowed!';
@@ -129,123 +133,37 @@ export async function getRepositoryName(): Promise<string | undefined> {
     },
   });
 
-  return repositoryName;
+  return pageName;
 }
 
 /**
- * 📥 LEGACY FUNCTION: Download templates (kept for compatibility)
+ * 📥 FUNCTION: Install the templates from the configured source
  *
- * This function is kept for compatibility with previous versions,
- * but now templates are organized in the new folder structure.
+ * The source is a GitHub repository, a local directory, an archive, a git
+ * remote or an HTTP base URL (see getTemplateSource). The fetched templates
+ * are validated before replacing .my_templates/flutter_tdd_clean_templates,
+ * so a failed install keeps the current ones.
  */
 export async function getTemplatesFile(uri: Uri) {
-  console.log('=== STARTING DOWNLOAD DEBUG ===');
-
-  const rootFolder = getRootFolder(uri);
+  const rootFolder = getRootFolder(uri).replaceAll('\\', '/');
   const defaultTemplateFolder = `${rootFolder}/.my_templates/flutter_tdd_clean_templates`;
-  const author = await getRepoAuthor();
-  const repo = await getRepoName();
+  const source = getTemplateSource(rootFolder);
   const targetdir = await getRepoFolder();
 
-  console.log('=== CONFIGURATION VALUES ===');
-  console.log('Root folder:', rootFolder);
-  console.log('Template folder:', defaultTemplateFolder);
-  console.log('Author:', author);
-  console.log('Repo:', repo);
-  console.log('Target dir:', targetdir);
-  console.log('Expected URL:', `https://github.com/${author}/${repo}/tree/main/${targetdir}`);
-
-  // Crear carpeta si no existe
-  if (!fs.existsSync(defaultTemplateFolder)) {
-    console.log('Creating directory:', defaultTemplateFolder);
-    fs.mkdirSync(defaultTemplateFolder, { recursive: true });
-    console.log('Directory created successfully');
-  } else {
-    console.log('Directory already exists');
-  }
-
-  // Verificar que gh-retrieve esté disponible
   try {
-    const ghRetrieve = require('gh-retrieve');
-    console.log('gh-retrieve loaded successfully');
-    console.log('Available methods:', Object.keys(ghRetrieve));
-  } catch (requireError) {
-    console.error('Error loading gh-retrieve:', requireError);
-    window.showErrorMessage('gh-retrieve module not found. Run: npm install gh-retrieve');
-    return;
-  }
-
-  try {
-    const { recursiveDownload } = require('gh-retrieve');
-
-    console.log('=== STARTING RECURSIVE DOWNLOAD ===');
-
-    const downloadConfig = {
-      author: author, // "alcampospalacios"
-      repo: repo, // "flutter_tdd_clean_architecture"
-      targetdir: targetdir, // ".my_templates/flutter_tdd_clean_templates/"
-      outdir: defaultTemplateFolder, // local destination
-    };
-
-    console.log('Download config:', JSON.stringify(downloadConfig, null, 2));
-    console.log(
-      'This should download from:',
-      `https://github.com/${author}/${repo}/tree/main/${targetdir}`,
+    const templateCount = await window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Installing templates from ${describeTemplateSource(source)}...`,
+      },
+      () => installTemplates(defaultTemplateFolder, source, targetdir),
+    );
+    console.log(`✅ ${templateCount} templates installed in ${defaultTemplateFolder}`);
+    window.showInformationMessage(
+      `Templates downloaded successfully! ${templateCount} templates from ${describeTemplateSource(source)}`,
     );
-    console.log('To local folder:', defaultTemplateFolder);
-
-    // Ejecutar la descarga
-    console.log('Calling recursiveDownload...');
-    await recursiveDownload(downloadConfig);
-    console.log('recursiveDownload completed without throwing error');
-
-    // Verificar qué se descargó
-    console.log('=== VERIFYING DOWNLOAD RESULTS ===');
-    if (fs.existsSync(defaultTemplateFolder)) {
-      try {
-        const items = fs.readdirSync(defaultTemplateFolder, { withFileTypes: true });
-        console.log('Items in template folder:', items.length);
-
-        items.forEach((item) => {
-          const type = item.isDirectory() ? 'DIR' : 'FILE';
-          console.log(`  ${type}: ${item.name}`);
-        });
-
-        // Contar archivos .template recursivamente
-        const templateFiles = getAllTemplateFiles(defaultTemplateFolder);
-        console.log('Template files found:', templateFiles.length);
-        templateFiles.forEach((file) => {
-          console.log(`  TEMPLATE: ${file}`);
-        });
-      } catch (readError) {
-        console.error('Error reading downloaded folder:', readError);
-      }
-    } else {
-      console.error('Template folder does not exist after download!');
-    }
-
-    console.log('=== DOWNLOAD SUCCESS ===');
-    window.showInformationMessage('Templates downloaded successfully!');
   } catch (err: any) {
-    console.log('=== DOWNLOAD ERROR ===');
-    console.log('Error type:', typeof err);
-    console.log('Error name:', err.name);
-    console.log('Error message:', err.message);
-    console.log('Error code:', err.code);
-    console.log('Error stack:', err.stack);
-
-    // Información adicional si está disponible
-    if (err.response) {
-      console.log('HTTP Response status:', err.response.status);
-      console.log('HTTP Response data:', err.response.data);
-    }
-
-    if (err.config) {
-      console.log('Request config:', err.config);
-    }
-
-    console.log('Full error object:', JSON.stringify(err, Object.getOwnPropertyNames(err), 2));
-
+    console.error('Error installing templates:', err);
     window.showErrorMessage(`Error downloading templates: ${err.message}`);
     throw err;
   }